@@ -1,7 +1,14 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Route handlers verify wallet signatures with the Node build of the runtime
+  serverExternalPackages: ["@midnight-ntwrk/compact-runtime", "@midnight-ntwrk/onchain-runtime"],
+  // The Midnight ledger and runtime packages ship as WebAssembly modules. Turbopack can't load
+  // them yet, so `npm run dev` runs on webpack too.
+  webpack: (config) => {
+    config.experiments = { ...config.experiments, asyncWebAssembly: true, topLevelAwait: true };
+    return config;
+  },
 };
 
 export default nextConfig;
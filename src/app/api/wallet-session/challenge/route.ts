@@ -0,0 +1,17 @@
+// src/app/api/wallet-session/challenge/route.ts
+import { NextResponse } from 'next/server';
+import { WalletChallengeRequest } from '@/lib/walletAuth';
+import { WalletSessionError, issueChallenge } from '@/lib/server/walletSession';
+
+// --- Issue Challenge ---
+// Body: { address, coinPublicKey }. Returns a short-lived challenge for the wallet to sign.
+export async function POST(request: Request) {
+    try {
+        const body = await request.json() as WalletChallengeRequest;
+        const challenge = issueChallenge(body, new URL(request.url).origin);
+        return NextResponse.json(challenge, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (err) {
+        const status = err instanceof WalletSessionError ? err.status : 400;
+        return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid request.' }, { status });
+    }
+}
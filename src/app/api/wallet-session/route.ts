@@ -0,0 +1,38 @@
+// src/app/api/wallet-session/route.ts
+import { NextResponse } from 'next/server';
+import { WALLET_SESSION_COOKIE, WalletProof } from '@/lib/walletAuth';
+import {
+    WalletSessionError,
+    encodeSessionCookie,
+    getWalletSession,
+    sessionCookieOptions,
+    verifyProof
+} from '@/lib/server/walletSession';
+import { walletKeyBinding } from '@/lib/server/walletKeyBinding';
+
+// --- Current Session ---
+export async function GET() {
+    return NextResponse.json({ session: await getWalletSession() }, { headers: { 'Cache-Control': 'no-store' } });
+}
+
+// --- Sign In ---
+// Body: { token, signature, verifyingKey }. Sets the HTTP-only session cookie on success.
+// Answers 501 until walletKeyBinding says which keys belong to which address.
+export async function POST(request: Request) {
+    try {
+        const session = await verifyProof(await request.json() as WalletProof, { keyBinding: walletKeyBinding });
+        const response = NextResponse.json({ session });
+        response.cookies.set(WALLET_SESSION_COOKIE, encodeSessionCookie(session), sessionCookieOptions(session));
+        return response;
+    } catch (err) {
+        const status = err instanceof WalletSessionError ? err.status : 400;
+        return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid request.' }, { status });
+    }
+}
+
+// --- Sign Out ---
+export async function DELETE() {
+    const response = NextResponse.json({ session: null });
+    response.cookies.delete(WALLET_SESSION_COOKIE);
+    return response;
+}
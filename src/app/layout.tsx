@@ -5,27 +5,50 @@ import "./globals.css";
 // Import the new provider
 import { ReactiveMidnightWalletProvider } from "@/context/ReactiveMidnightWalletContext";
 import { Navbar } from "@/components/Navbar";
+import { MockWalletToggle } from "@/components/MockWalletToggle";
+import { IndexerProvider } from "@/context/IndexerContext";
+import { ContractProvider } from "@/context/ContractContext";
+import { DEFAULT_SESSION_ENDPOINT } from "@/lib/walletAuth";
+import { getWalletHydrationState } from "@/lib/server/walletHydration";
 
 const inter = Inter({ subsets: ["latin"] });
 
+// Fall back to a local proof server when the wallet's prover is down or slow
+const PROVER_HEALTH = { fallbackUris: ["http://localhost:6300"] };
+
 export const metadata: Metadata = {
   title: "Midnight Reactive Starter",
   description: "Reactive setup for Midnight DApp connection",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // The browser's last settled wallet state, so the first paint doesn't flash "Checking..."
+  const walletHydrationState = await getWalletHydrationState();
+
   return (
     <html lang="en">
-      <body className={inter.className} style={{ margin: 0, backgroundColor: '#111827', color: '#d1d5db' }}>
-        <ReactiveMidnightWalletProvider>
-          <Navbar />
-          <main style={{ padding: '1rem 2rem' }}>
-            {children}
-          </main>
+      <body className={inter.className}>
+        {/* Set NEXT_PUBLIC_MIDNIGHT_NETWORK (e.g. 'testnet') to warn when the wallet is on another network */}
+        <ReactiveMidnightWalletProvider
+          expectedNetwork={process.env.NEXT_PUBLIC_MIDNIGHT_NETWORK}
+          sessionEndpoint={DEFAULT_SESSION_ENDPOINT}
+          proverHealth={PROVER_HEALTH}
+          transactionReview // Confirm a decoded summary before the wallet balances and proves
+          initialState={walletHydrationState}
+        >
+          <IndexerProvider>
+            <ContractProvider>
+              <MockWalletToggle />
+              <Navbar />
+              <main style={{ padding: '1rem 2rem' }}>
+                {children}
+              </main>
+            </ContractProvider>
+          </IndexerProvider>
         </ReactiveMidnightWalletProvider>
       </body>
     </html>
@@ -0,0 +1,200 @@
+// src/components/DiagnosticsDrawer.tsx
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { ConnectionAttempt, DiagnosticsReport, serializeDiagnosticsReport } from '@/lib/diagnostics';
+import { buttonClass, cx } from '@/components/wallet/styles';
+import { useDialogFocus } from '@/components/wallet/useDialogFocus';
+
+interface DiagnosticsDrawerProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// --- Formatting Helpers ---
+const formatTime = (epochMs: number) => new Date(epochMs).toLocaleTimeString();
+const formatDuration = (ms: number | null) => (ms === null ? '…' : `${ms}ms`);
+
+const OUTCOME_CLASSES: Record<ConnectionAttempt['outcome'], string> = {
+    pending: 'text-mn-info',
+    connected: 'text-mn-success',
+    notEnabled: 'text-mn-text-muted',
+    failed: 'text-mn-danger',
+    abandoned: 'text-mn-text-muted',
+};
+
+const listItemClass = 'border-b border-mn-border py-1';
+const mutedNoteClass = 'm-0 text-sm text-mn-text-muted';
+
+// --- Section Component ---
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="mb-5">
+        <h3 className="mb-2 text-xs uppercase tracking-wider text-mn-text-muted">{title}</h3>
+        {children}
+    </section>
+);
+
+// Two-column key/value rows
+const Rows: React.FC<{ rows: [string, React.ReactNode][] }> = ({ rows }) => (
+    <dl className="m-0 grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1 text-sm">
+        {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+                <dt className="text-mn-text-muted">{label}</dt>
+                <dd className="m-0 break-all">{value}</dd>
+            </React.Fragment>
+        ))}
+    </dl>
+);
+
+// --- Diagnostics Drawer ---
+// Everything needed to debug "Connect doesn't work" without devtools, plus a JSON report to attach to bugs
+export const DiagnosticsDrawer: React.FC<DiagnosticsDrawerProps> = ({ isOpen, onClose }) => {
+    const { status, connectionAttempts, collectDiagnostics, logger } = useReactiveMidnightWallet();
+    const [report, setReport] = useState<DiagnosticsReport | null>(null);
+    const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+    const dialogRef = useRef<HTMLElement>(null);
+
+    const refresh = useCallback(() => {
+        let cancelled = false;
+        collectDiagnostics()
+            .then(next => { if (!cancelled) setReport(next); })
+            .catch(err => logger.error("Could not collect diagnostics:", err));
+        return () => { cancelled = true; };
+    }, [collectDiagnostics, logger]);
+
+    // Re-collect when opened and whenever a connection attempt moves on
+    useEffect(() => {
+        if (!isOpen) return;
+        return refresh();
+    }, [isOpen, refresh, status, connectionAttempts]);
+
+    useDialogFocus(dialogRef, isOpen, onClose);
+
+    if (!isOpen) return null;
+
+    const handleCopy = async () => {
+        if (!report) return;
+        try {
+            await navigator.clipboard.writeText(serializeDiagnosticsReport(report));
+            setCopyState('copied');
+        } catch (copyErr) {
+            logger.error("Could not copy the diagnostics report:", copyErr);
+            setCopyState('failed');
+        }
+    };
+
+    return (
+        <div
+            onClick={onClose} // Backdrop click closes the drawer
+            className="fixed inset-0 z-50 bg-black/50"
+        >
+            <aside
+                ref={dialogRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="diagnostics-title"
+                onClick={(event) => event.stopPropagation()}
+                className="absolute inset-y-0 right-0 box-border w-full max-w-[480px] overflow-y-auto border-l border-mn-border bg-mn-surface p-6 text-mn-text"
+            >
+                <div className="mb-4 flex items-center justify-between">
+                    <h2 id="diagnostics-title" className="m-0 text-lg font-semibold">Connection diagnostics</h2>
+                    <button onClick={onClose} className={buttonClass('secondary')}>Close</button>
+                </div>
+
+                {!report ? (
+                    <p className="text-sm text-mn-text-muted">Collecting…</p>
+                ) : (
+                    <>
+                        <Section title="Connection">
+                            <Rows rows={[
+                                ['Status', report.status],
+                                ['Wallet', report.walletName ?? '—'],
+                                ['Selected key', report.selectedWalletKey ?? '—'],
+                                ['Address', report.address ?? '—'],
+                                ['Network', `${report.networkId ?? '—'}${report.expectedNetworkId ? ` (expected ${report.expectedNetworkId})` : ''}`],
+                                ['Error', report.error ? `${report.error.kind}${report.error.code !== null ? ` (${report.error.code})` : ''}: ${report.error.message}` : '—'],
+                            ]} />
+                        </Section>
+
+                        <Section title="Detected connectors (window.midnight)">
+                            {report.connectors.length === 0 ? (
+                                <p className={mutedNoteClass}>None detected.</p>
+                            ) : (
+                                <ul className="m-0 list-none p-0 text-sm">
+                                    {report.connectors.map(c => (
+                                        <li key={c.key} className={listItemClass}>
+                                            <strong>{c.name}</strong> <span className="text-mn-text-muted">({c.key}, API v{c.apiVersion})</span>
+                                            <div>
+                                                Adapter: {c.unsupported ? <span className="text-mn-danger">{c.unsupported}</span> : c.adapter}
+                                            </div>
+                                            <div>
+                                                isEnabled(): {c.error ? <span className="text-mn-danger">{c.error}</span> : `${c.isEnabled} in ${formatDuration(c.isEnabledMs)}`}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </Section>
+
+                        <Section title={`Recent connection attempts (${report.connectionAttempts.length})`}>
+                            {report.connectionAttempts.length === 0 ? (
+                                <p className={mutedNoteClass}>No attempts yet.</p>
+                            ) : (
+                                <ol className="m-0 list-none p-0 text-sm">
+                                    {report.connectionAttempts.map(a => (
+                                        <li key={a.id} className={listItemClass}>
+                                            {formatTime(a.startedAt)} · {a.kind} · {a.walletKey ?? 'no wallet'} ·{' '}
+                                            <span className={OUTCOME_CLASSES[a.outcome]}>{a.outcome}</span> · {formatDuration(a.durationMs)}
+                                            {a.approvalRequested && ' · approval prompted'}
+                                            {a.error && (
+                                                <div className="text-mn-danger">
+                                                    {a.error.kind}{a.error.code !== null && ` (${a.error.code})`}: {a.error.detail ?? a.error.message}
+                                                </div>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </Section>
+
+                        <Section title="Service URIs">
+                            {report.serviceUris ? (
+                                <Rows rows={Object.entries(report.serviceUris).map(([name, uri]) => [name, String(uri)])} />
+                            ) : (
+                                <p className={mutedNoteClass}>Not connected.</p>
+                            )}
+                        </Section>
+
+                        <Section title="Prover">
+                            <Rows rows={[
+                                ['State', report.proverStatus.state],
+                                ['In use', report.proverStatus.uri ?? '—'],
+                                ['Latency', report.proverStatus.latencyMs === null ? '—' : `${report.proverStatus.latencyMs}ms`],
+                            ]} />
+                        </Section>
+
+                        <Section title="Polling">
+                            <Rows rows={[
+                                ...Object.entries(report.settings.pollingIntervals).map(([name, value]): [string, React.ReactNode] => [name, String(value)]),
+                                ['changeDetection', report.settings.changeDetection],
+                                ['autoReconnect', report.settings.autoReconnect],
+                                ['tabSync', String(report.settings.tabSync)],
+                            ]} />
+                        </Section>
+                    </>
+                )}
+
+                <div className="flex items-center gap-2">
+                    <button onClick={handleCopy} disabled={!report} className={buttonClass('primary')}>Copy report</button>
+                    <button onClick={refresh} className={buttonClass('secondary')}>Refresh</button>
+                    {copyState !== 'idle' && (
+                        <span className={cx('text-sm', copyState === 'copied' ? 'text-mn-success' : 'text-mn-danger')}>
+                            {copyState === 'copied' ? 'Copied to clipboard' : 'Clipboard unavailable'}
+                        </span>
+                    )}
+                </div>
+            </aside>
+        </div>
+    );
+};
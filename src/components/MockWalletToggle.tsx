@@ -0,0 +1,68 @@
+// src/components/MockWalletToggle.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import {
+    MOCK_BALANCES,
+    MOCK_WALLET_ENV_FLAG,
+    MOCK_WALLET_SCENARIOS,
+    MockWalletScenario,
+    getMockScenarioFromEnv,
+    installMockWallet,
+    isMockWalletScenario
+} from '@/mocks/mockWallet';
+import { getBrowserStorage, readStorageItem, writeStorageItem } from '@/lib/storage';
+
+const MOCK_SCENARIO_STORAGE_KEY = 'midnight:mockWalletScenario';
+const isDevelopment = process.env.NODE_ENV !== 'production';
+
+// --- Mock Wallet Toggle ---
+// Installs the mock wallet from the env flag, or (dev only) from the scenario picked here.
+// Render it inside ReactiveMidnightWalletProvider: child effects run before the provider's,
+// so the mock is in window.midnight before the store's first discovery.
+export const MockWalletToggle: React.FC = () => {
+    const { logger } = useReactiveMidnightWallet();
+    const envScenario = getMockScenarioFromEnv();
+    const [scenario, setScenario] = useState<MockWalletScenario | null>(null);
+
+    useEffect(() => {
+        const stored = readStorageItem(getBrowserStorage(), MOCK_SCENARIO_STORAGE_KEY);
+        const active = envScenario ?? (isDevelopment && isMockWalletScenario(stored) ? stored : null);
+        setScenario(active);
+        if (!active) return;
+
+        const controller = installMockWallet({ scenario: active, latencyMs: 300, balances: MOCK_BALANCES, logger });
+        return () => controller.dispose();
+    }, [envScenario, logger]);
+
+    // The toggle itself is dev-only; the env flag works in any build
+    if (!isDevelopment) return null;
+
+    const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+        const next = event.target.value;
+        writeStorageItem(getBrowserStorage(), MOCK_SCENARIO_STORAGE_KEY, isMockWalletScenario(next) ? next : null, logger);
+        // The store discovers wallets once on load, so start over with the new scenario
+        window.location.reload();
+    };
+
+    return (
+        <label
+            className="fixed bottom-4 left-4 z-40 flex items-center gap-2 rounded border border-dashed border-mn-border bg-mn-surface px-2.5 py-1.5 text-xs text-mn-text-muted"
+            title={envScenario ? `Set by ${MOCK_WALLET_ENV_FLAG}` : 'Dev only: installs a fake wallet as window.midnight.mnMock'}
+        >
+            Mock wallet
+            <select
+                value={scenario ?? ''}
+                onChange={handleChange}
+                disabled={!!envScenario}
+                className="rounded-sm border border-mn-border bg-mn-surface-muted text-mn-text"
+            >
+                <option value="">Off</option>
+                {MOCK_WALLET_SCENARIOS.map((s) => (
+                    <option key={s} value={s}>{s}</option>
+                ))}
+            </select>
+        </label>
+    );
+};
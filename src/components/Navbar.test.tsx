@@ -0,0 +1,296 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ComponentProps } from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { ReactiveMidnightWalletProvider, useTransactions } from '@/context/ReactiveMidnightWalletContext';
+import { Navbar } from '@/components/Navbar';
+import { DEFAULT_POLLING_INTERVALS } from '@/lib/watcher';
+import { MOCK_ACCOUNTS, MockWalletOptions, installMockWallet } from '@/mocks/mockWallet';
+import { NATIVE_TOKEN_TYPE } from '@/lib/balances';
+import { ProverHealthOptions } from '@/lib/proverHealth';
+import { WalletHydrationState } from '@/lib/walletHydration';
+import { WalletTransaction } from '@/lib/transactions';
+
+const { statusMs, stateMs, approvalMs, approvalTimeoutMs } = DEFAULT_POLLING_INTERVALS;
+
+const flush = (ms = 0) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+// The status indicator is titled with its label and exposes its state for styling
+const indicatorState = (title: string) => screen.getByTitle(title).getAttribute('data-state');
+
+const renderNavbar = (
+    options: MockWalletOptions,
+    expectedNetwork?: string,
+    proverHealth: Partial<ProverHealthOptions> | false = false,
+    initialState?: WalletHydrationState,
+    navbarProps: ComponentProps<typeof Navbar> = {}
+) => {
+    const wallet = installMockWallet(options);
+    render(
+        <ReactiveMidnightWalletProvider
+            defaultWalletKey={wallet.key}
+            expectedNetwork={expectedNetwork}
+            autoReconnect="always"
+            proverHealth={proverHealth}
+            initialState={initialState}
+        >
+            <Navbar {...navbarProps} />
+        </ReactiveMidnightWalletProvider>
+    );
+    return wallet;
+};
+
+// What the server renders with after an earlier visit ended connected
+const CONNECTED_HINT: WalletHydrationState = {
+    status: 'connected',
+    walletKey: 'mnMock',
+    walletName: 'Mock Wallet',
+    address: MOCK_ACCOUNTS[0].address,
+    networkId: 'standalone',
+};
+
+// Stands in for a page that sends a transaction
+const SubmitButton = () => {
+    const { submitTransaction } = useTransactions();
+    const tx = { kind: 'fake-tx' } as unknown as WalletTransaction;
+    return <button onClick={() => void submitTransaction(tx, { label: 'Increment' })}>Submit</button>;
+};
+
+const connectThroughPicker = async () => {
+    fireEvent.click(screen.getByRole('button', { name: 'Connect Wallet' }));
+    fireEvent.click(screen.getByRole('button', { name: /Mock Wallet/ }));
+    await flush();
+};
+
+describe('Navbar', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('shows a "Checking..." state and a disabled button while the initial check runs', () => {
+        renderNavbar({ scenario: 'approved', latencyMs: 100 });
+
+        expect(indicatorState('Checking...')).toBe('checking');
+        expect(screen.getByRole('button', { name: 'Checking...' })).toHaveProperty('disabled', true);
+    });
+
+    it('shows "Connected", the account chip and a disconnect button after a silent reconnect', async () => {
+        renderNavbar({ scenario: 'approved' });
+        await flush();
+
+        expect(indicatorState('Connected')).toBe('connected');
+        expect(screen.getByRole('button', { name: 'mn_add...aaaa' })).toBeTruthy();
+        expect(screen.getByRole('button', { name: 'Disconnect' })).toHaveProperty('disabled', false);
+    });
+
+    it('shows "Disconnected" and an enabled connect button when not approved', async () => {
+        renderNavbar({ scenario: 'approvalRequired' });
+        await flush();
+
+        expect(indicatorState('Disconnected')).toBe('disconnected');
+        expect(screen.getByRole('button', { name: 'Connect Wallet' })).toHaveProperty('disabled', false);
+    });
+
+    it('renders a connected initial state straight away and keeps it once the check confirms it', async () => {
+        renderNavbar({ scenario: 'approved', latencyMs: 100 }, undefined, false, CONNECTED_HINT);
+
+        expect(indicatorState('Connected')).toBe('connected');
+        expect(screen.getByRole('button', { name: 'mn_add...aaaa' })).toBeTruthy();
+        expect(screen.getByRole('button', { name: 'Disconnect' })).toBeTruthy();
+
+        await flush(1000);
+
+        expect(indicatorState('Connected')).toBe('connected');
+        expect(screen.getByRole('button', { name: 'mn_add...aaaa' })).toBeTruthy();
+    });
+
+    it('falls back to the connect button when the initial state turns out stale', async () => {
+        renderNavbar({ scenario: 'approvalRequired' }, undefined, false, CONNECTED_HINT);
+        expect(indicatorState('Connected')).toBe('connected');
+
+        await flush();
+
+        expect(indicatorState('Disconnected')).toBe('disconnected');
+        expect(screen.queryByRole('button', { name: 'mn_add...aaaa' })).toBeNull();
+        expect(screen.getByRole('button', { name: 'Connect Wallet' })).toHaveProperty('disabled', false);
+    });
+
+    it('opens the wallet picker from the connect button', async () => {
+        renderNavbar({ scenario: 'approvalRequired' });
+        await flush();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Connect Wallet' }));
+
+        expect(screen.getByRole('dialog')).toBeTruthy();
+        expect(screen.getByText('API v2.0.0')).toBeTruthy();
+    });
+
+    it('shows "Connecting..." while waiting for approval, then connects', async () => {
+        renderNavbar({ scenario: 'approvalRequired', approvalDelayMs: 2000 });
+        await flush();
+
+        await connectThroughPicker();
+
+        expect(indicatorState('Connecting...')).toBe('connecting');
+        expect(screen.getByRole('button', { name: 'Connecting...' })).toHaveProperty('disabled', true);
+
+        await flush(2000 + approvalMs);
+
+        expect(indicatorState('Connected')).toBe('connected');
+    });
+
+    it('shows the timeout error toast once approval polling gives up', async () => {
+        renderNavbar({ scenario: 'approvalTimeout' });
+        await flush();
+
+        await connectThroughPicker();
+        await flush(approvalTimeoutMs + approvalMs);
+
+        expect(indicatorState('Disconnected')).toBe('disconnected');
+        expect(screen.getByRole('alert').textContent).toMatch(/Connection timed out/);
+        expect(screen.getByRole('button', { name: 'Connect Wallet' })).toHaveProperty('disabled', false);
+    });
+
+    it('falls back to the connect button when the wallet revokes access', async () => {
+        const wallet = renderNavbar({ scenario: 'approved' });
+        await flush();
+        expect(indicatorState('Connected')).toBe('connected');
+
+        act(() => wallet.revoke());
+        await flush(statusMs);
+
+        expect(indicatorState('Disconnected')).toBe('disconnected');
+        expect(screen.getByRole('button', { name: 'Connect Wallet' })).toBeTruthy();
+    });
+
+    it('updates the account chip after an account switch', async () => {
+        const wallet = renderNavbar({ scenario: 'approved' });
+        await flush();
+
+        act(() => wallet.switchAccount());
+        await flush(stateMs);
+
+        expect(screen.getByRole('button', { name: 'mn_add...bbbb' })).toBeTruthy();
+    });
+
+    it('shows a blocking wrong-network warning while the wallet is on another network', async () => {
+        renderNavbar({ scenario: 'approved' }, 'testnet');
+        await flush();
+
+        expect(screen.getByRole('alert').textContent).toMatch(/connected to 'standalone', but this DApp runs on Testnet/);
+    });
+
+    it('shows no network warning when the wallet matches', async () => {
+        renderNavbar({ scenario: 'approved' }, 'standalone');
+        await flush();
+
+        expect(screen.queryByRole('alert')).toBeNull();
+    });
+
+    it('shows the tDUST balance chip once the wallet reports balances', async () => {
+        const otherToken = '02' + 'ab'.repeat(33);
+        renderNavbar({
+            scenario: 'approved',
+            balances: [{ [otherToken]: BigInt(12), [NATIVE_TOKEN_TYPE]: BigInt(1_250_500_000) }],
+        }, undefined, false, undefined, { showBalance: true });
+        await flush();
+
+        const chip = screen.getByText('1,250.5 tDUST');
+        expect(chip.getAttribute('title')).toBe('1,250.5 tDUST\n12 02abab…abab');
+    });
+
+    it('shows no balance chip for a wallet without balances', async () => {
+        renderNavbar({ scenario: 'approved' }, undefined, false, undefined, { showBalance: true });
+        await flush();
+
+        expect(screen.queryByText(/tDUST|No tokens/)).toBeNull();
+    });
+
+    it('leaves the balance chip out unless asked for', async () => {
+        renderNavbar({ scenario: 'approved', balances: [{ [NATIVE_TOKEN_TYPE]: BigInt(1_000_000) }] });
+        await flush();
+
+        expect(screen.queryByText(/tDUST/)).toBeNull();
+    });
+
+    it('shows "Degraded" while connected without a working proof server', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+        renderNavbar({ scenario: 'approved' }, undefined, { fallbackUris: ['http://localhost:6300'] });
+        await flush();
+
+        expect(indicatorState('Degraded')).toBe('degraded');
+        expect(screen.getByText('Proof server unavailable')).toBeTruthy();
+        expect(screen.getByRole('button', { name: 'Disconnect' })).toBeTruthy();
+    });
+
+    it('opens the diagnostics drawer and copies a JSON report', async () => {
+        const writeText = vi.fn(async () => {});
+        vi.stubGlobal('navigator', { ...navigator, clipboard: { writeText } });
+        const wallet = renderNavbar({ scenario: 'approved' });
+        await flush();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Diagnostics' }));
+        await flush();
+
+        const drawer = screen.getByRole('dialog');
+        expect(drawer.textContent).toContain(`Mock Wallet (${wallet.key}, API v2.0.0)`);
+        expect(drawer.textContent).toMatch(/isEnabled\(\): true/);
+        expect(drawer.textContent).toContain(`silent · ${wallet.key} · connected`);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Copy report' }));
+        await flush();
+
+        expect(screen.getByText('Copied to clipboard')).toBeTruthy();
+        const report = JSON.parse((writeText.mock.calls[0] as unknown as [string])[0]);
+        expect(report).toMatchObject({ status: 'connected', selectedWalletKey: wallet.key });
+    });
+
+    it('keeps focus in the diagnostics drawer and hands it back on Escape', async () => {
+        renderNavbar({ scenario: 'approved' });
+        await flush();
+
+        const trigger = screen.getByRole('button', { name: 'Diagnostics' });
+        trigger.focus();
+        fireEvent.click(trigger);
+        await flush();
+
+        const close = screen.getByRole('button', { name: 'Close' });
+        expect(document.activeElement).toBe(close);
+        fireEvent.keyDown(window, { key: 'Tab', shiftKey: true });
+        expect(document.activeElement).toBe(screen.getByRole('button', { name: 'Refresh' }));
+
+        fireEvent.keyDown(window, { key: 'Escape' });
+        await flush();
+
+        expect(screen.queryByRole('dialog')).toBeNull();
+        expect(document.activeElement).toBe(trigger);
+    });
+
+    it('shows queued submissions in a badge until the wallet accepts them', async () => {
+        const wallet = installMockWallet({ scenario: 'approved' });
+        render(
+            <ReactiveMidnightWalletProvider defaultWalletKey={wallet.key} autoReconnect="always" proverHealth={false}>
+                <Navbar />
+                <SubmitButton />
+            </ReactiveMidnightWalletProvider>
+        );
+        await flush();
+        expect(screen.queryByText(/queued/)).toBeNull();
+
+        wallet.setSubmitFailure(true);
+        fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+        await flush();
+
+        const badge = screen.getByText('1 queued');
+        expect(badge.getAttribute('title')).toBe("Increment: retrying (The wallet couldn't process the request. Please try again.)");
+
+        wallet.setSubmitFailure(false);
+        await flush(2000);
+
+        expect(screen.queryByText(/queued/)).toBeNull();
+        expect(wallet.calls.submitTransaction).toBe(2);
+    });
+});
@@ -0,0 +1,32 @@
+// src/components/NetworkMismatchBanner.tsx
+"use client";
+
+import React from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+
+// --- Network Mismatch Banner ---
+// Covers the page below the Navbar while the wallet is on the wrong network.
+// The Navbar sits above the overlay, so Disconnect stays reachable.
+export const NetworkMismatchBanner: React.FC = () => {
+    const { networkMismatch, networkId, expectedNetwork, walletName } = useReactiveMidnightWallet();
+
+    if (!networkMismatch || !expectedNetwork) return null;
+
+    const walletNetwork = networkId === 'unknown' ? 'an unrecognised network' : `'${networkId}'`;
+
+    return (
+        // Blocks interaction with the DApp underneath
+        <div className="fixed inset-0 z-20 flex items-start justify-center bg-mn-page/85 pt-24">
+            <div
+                role="alert"
+                className="mx-4 max-w-[560px] rounded-md border border-mn-warning bg-mn-warning-surface px-5 py-4 text-mn-text"
+            >
+                <strong className="mb-1 block text-mn-warning">Wrong network</strong>
+                <span className="text-sm">
+                    {walletName ?? 'Your wallet'} is connected to {walletNetwork}, but this DApp runs on {expectedNetwork.name}.
+                    Switch networks in the wallet; this page updates automatically.
+                </span>
+            </div>
+        </div>
+    );
+};
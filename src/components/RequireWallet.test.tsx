@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { ReactNode } from 'react';
+import { ReactiveMidnightWalletProvider } from '@/context/ReactiveMidnightWalletContext';
+import { RequireWallet, withWallet } from '@/components/RequireWallet';
+import { MockWalletOptions, installMockWallet } from '@/mocks/mockWallet';
+
+// Guards only need the router for redirectTo
+const replace = vi.fn();
+vi.mock('next/navigation', () => ({ useRouter: () => ({ replace }) }));
+
+const flush = (ms = 0) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+const renderGuarded = (options: MockWalletOptions, guard: ReactNode) => {
+    const wallet = installMockWallet(options);
+    render(
+        <ReactiveMidnightWalletProvider defaultWalletKey={wallet.key} autoReconnect="always" proverHealth={false}>
+            {guard}
+        </ReactiveMidnightWalletProvider>
+    );
+    return wallet;
+};
+
+describe('RequireWallet', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        replace.mockClear();
+    });
+
+    it('shows the checking slot, never the content, until a silent reconnect settles', async () => {
+        renderGuarded({ scenario: 'approved', latencyMs: 100 }, (
+            <RequireWallet checking={<p>Hold on</p>}>
+                <p>Secret</p>
+            </RequireWallet>
+        ));
+
+        expect(screen.getByText('Hold on')).toBeTruthy();
+        expect(screen.queryByText('Secret')).toBeNull();
+
+        await flush(1000);
+
+        expect(screen.getByText('Secret')).toBeTruthy();
+    });
+
+    it('renders a connect prompt while disconnected', async () => {
+        renderGuarded({ scenario: 'approvalRequired' }, (
+            <RequireWallet>
+                <p>Secret</p>
+            </RequireWallet>
+        ));
+        await flush();
+
+        expect(screen.getByText('Connect a Midnight wallet to continue.')).toBeTruthy();
+        expect(screen.getByRole('button', { name: 'Connect Wallet' })).toBeTruthy();
+        expect(screen.queryByText('Secret')).toBeNull();
+    });
+
+    it('uses the wrongNetwork slot when the wallet is on another network', async () => {
+        renderGuarded({ scenario: 'approved' }, (
+            <RequireWallet requirement={{ network: 'testnet' }} wrongNetwork={result => <p>{result.message}</p>}>
+                <p>Secret</p>
+            </RequireWallet>
+        ));
+        await flush();
+
+        expect(screen.getByText("This page needs 'testnet', but the wallet is on 'standalone'.")).toBeTruthy();
+    });
+
+    it('falls back for an account outside the allowlist', async () => {
+        renderGuarded({ scenario: 'approved' }, (
+            <RequireWallet requirement={{ allowlist: ['mn_addr_someone_else'] }} fallback={<p>No access</p>}>
+                <p>Secret</p>
+            </RequireWallet>
+        ));
+        await flush();
+
+        expect(screen.getByText('No access')).toBeTruthy();
+    });
+
+    it('redirects once the check settles when redirectTo is set', async () => {
+        renderGuarded({ scenario: 'approvalRequired', latencyMs: 100 }, (
+            <RequireWallet redirectTo="/">
+                <p>Secret</p>
+            </RequireWallet>
+        ));
+        expect(replace).not.toHaveBeenCalled();
+
+        await flush(1000);
+
+        expect(replace).toHaveBeenCalledWith('/');
+        expect(screen.queryByText('Secret')).toBeNull();
+    });
+
+    it('guards a whole component with withWallet', async () => {
+        const Dashboard = withWallet(({ title }: { title: string }) => <h2>{title}</h2>, { requirement: { minApiVersion: '2.0.0' } });
+        renderGuarded({ scenario: 'approved' }, <Dashboard title="Dashboard" />);
+        await flush();
+
+        expect(screen.getByRole('heading', { name: 'Dashboard' })).toBeTruthy();
+    });
+});
@@ -0,0 +1,83 @@
+// src/components/RequireWallet.tsx
+"use client";
+
+import React, { ReactNode, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useRequireWallet } from '@/context/ReactiveMidnightWalletContext';
+import { RequirementResult, WalletRequirement } from '@/lib/walletRequirements';
+import { ConnectButton, cx, panelClass } from '@/components/wallet';
+
+// A slot is either fixed content or rendered from the unmet result (client components only:
+// functions can't be passed from a Server Component)
+type GuardSlot = ReactNode | ((result: RequirementResult) => ReactNode);
+
+export interface RequireWalletOptions {
+    requirement?: WalletRequirement;
+    fallback?: GuardSlot;       // Any unmet requirement without its own slot; defaults to a connect prompt
+    checking?: ReactNode;       // While the initial connection check runs
+    wrongNetwork?: GuardSlot;   // Wallet on a network the requirement doesn't allow
+    redirectTo?: string;        // Replace the route instead of rendering a fallback
+}
+
+interface RequireWalletProps extends RequireWalletOptions {
+    children: ReactNode;
+}
+
+const renderSlot = (slot: GuardSlot, result: RequirementResult) => typeof slot === 'function' ? slot(result) : slot;
+
+// --- Default Slots ---
+const DefaultChecking: React.FC = () => (
+    <p role="status" className="text-sm text-mn-text-muted">Checking wallet status...</p>
+);
+
+// Explains what's missing; the button connects, or disconnects so the user can pick another account
+const ConnectPrompt: React.FC<{ message: string | null }> = ({ message }) => (
+    <div className={cx(panelClass, 'flex flex-col items-start gap-3 p-4')}>
+        <p className="text-sm">{message}</p>
+        <ConnectButton />
+    </div>
+);
+
+// --- Redirect ---
+// Its own component so useRouter is only called when a redirect is configured
+const WalletRedirect: React.FC<{ to: string }> = ({ to }) => {
+    const router = useRouter();
+    useEffect(() => {
+        router.replace(to);
+    }, [router, to]);
+    return null;
+};
+
+// --- Require Wallet ---
+// Renders children only once the requirement is met. Nothing gated renders while the status is
+// still being checked, so a returning user doesn't see a connect prompt flash before reconnecting.
+export const RequireWallet: React.FC<RequireWalletProps> = ({
+    requirement,
+    fallback,
+    checking,
+    wrongNetwork,
+    redirectTo,
+    children
+}) => {
+    const result = useRequireWallet(requirement);
+
+    if (result.status === 'met') return <>{children}</>;
+    if (result.status === 'checking') return <>{checking ?? <DefaultChecking />}</>;
+    if (redirectTo) return <WalletRedirect to={redirectTo} />;
+
+    if (result.reason === 'wrongNetwork' && wrongNetwork !== undefined) return <>{renderSlot(wrongNetwork, result)}</>;
+    if (fallback !== undefined) return <>{renderSlot(fallback, result)}</>;
+    return <ConnectPrompt message={result.message} />;
+};
+
+// --- HOC ---
+// For pages and components that are wallet-gated as a whole
+export const withWallet = <P extends object>(Component: React.ComponentType<P>, options: RequireWalletOptions = {}) => {
+    const Guarded: React.FC<P> = (props) => (
+        <RequireWallet {...options}>
+            <Component {...props} />
+        </RequireWallet>
+    );
+    Guarded.displayName = `withWallet(${Component.displayName || Component.name || 'Component'})`;
+    return Guarded;
+};
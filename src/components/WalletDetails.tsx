@@ -0,0 +1,21 @@
+// src/components/WalletDetails.tsx
+"use client";
+
+import React from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { cx, panelClass } from '@/components/wallet';
+
+// --- Wallet Details ---
+// Example of wallet-gated content: page.tsx only renders it inside <RequireWallet>, so it can assume a connection
+export const WalletDetails: React.FC = () => {
+    const { walletState, walletName, networkId } = useReactiveMidnightWallet();
+
+    return (
+        <div className={cx(panelClass, 'mt-8 p-4')}>
+            <h2 className="mb-2 font-semibold">Wallet Details</h2>
+            <p className="break-all text-sm">Address: {walletState?.address ?? 'N/A'}</p>
+            <p className="text-sm">Wallet: {walletName ?? 'N/A'}</p>
+            <p className="text-sm">Network: {networkId ?? 'N/A'}</p>
+        </div>
+    );
+};
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { ReactiveMidnightWalletProvider } from '@/context/ReactiveMidnightWalletContext';
+import { AccountChip } from '@/components/wallet/AccountChip';
+import { installMockWallet } from '@/mocks/mockWallet';
+
+const flush = (ms = 0) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+const renderChip = () => {
+    const wallet = installMockWallet({ scenario: 'approved' });
+    render(
+        <ReactiveMidnightWalletProvider defaultWalletKey={wallet.key} autoReconnect="always" proverHealth={false}>
+            <AccountChip />
+        </ReactiveMidnightWalletProvider>
+    );
+    return wallet;
+};
+
+describe('AccountChip', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('renders nothing while disconnected', async () => {
+        const wallet = installMockWallet({ scenario: 'approvalRequired' });
+        render(
+            <ReactiveMidnightWalletProvider defaultWalletKey={wallet.key} autoReconnect="always" proverHealth={false}>
+                <AccountChip />
+            </ReactiveMidnightWalletProvider>
+        );
+        await flush();
+
+        expect(screen.queryByRole('button')).toBeNull();
+    });
+
+    it('opens a popover with the full address and closes it on Escape', async () => {
+        renderChip();
+        await flush();
+
+        const chip = screen.getByRole('button', { name: 'mn_add...aaaa' });
+        expect(chip.getAttribute('aria-expanded')).toBe('false');
+
+        fireEvent.click(chip);
+        const popover = screen.getByRole('dialog', { name: 'Account details' });
+        expect(chip.getAttribute('aria-expanded')).toBe('true');
+        expect(popover.textContent).toContain('Mock Wallet');
+        expect(popover.textContent).toMatch(/mn_addr_\w*aaaa/);
+
+        fireEvent.keyDown(window, { key: 'Escape' });
+        expect(screen.queryByRole('dialog')).toBeNull();
+        expect(document.activeElement).toBe(chip);
+    });
+
+    it('copies the full address and announces it', async () => {
+        const writeText = vi.fn(async () => {});
+        vi.stubGlobal('navigator', { ...navigator, clipboard: { writeText } });
+        renderChip();
+        await flush();
+
+        const chip = screen.getByRole('button', { name: 'mn_add...aaaa' });
+        fireEvent.click(chip);
+        fireEvent.click(screen.getByRole('button', { name: 'Copy address' }));
+        await flush();
+
+        expect(writeText).toHaveBeenCalledWith(chip.getAttribute('title'));
+        expect(screen.getByRole('status').textContent).toBe('Address copied');
+    });
+});
@@ -0,0 +1,90 @@
+// src/components/wallet/AccountChip.tsx
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { buttonClass, cx, panelClass, shortenAddress } from '@/components/wallet/styles';
+
+interface AccountChipProps {
+    className?: string;
+}
+
+// --- Account Chip ---
+// Short address on a chip; clicking opens a popover with the full address and a copy button.
+// Renders nothing while disconnected; shows the optimistic address until the first check settles.
+export const AccountChip: React.FC<AccountChipProps> = ({ className }) => {
+    const { walletName: connectedName, optimisticState, displayAddress: address } = useReactiveMidnightWallet();
+    const walletName = connectedName ?? optimisticState?.walletName ?? null;
+    const [isOpen, setIsOpen] = useState(false);
+    const [copyStatus, setCopyStatus] = useState<string | null>(null);
+    const triggerRef = useRef<HTMLButtonElement>(null);
+    const popoverRef = useRef<HTMLDivElement>(null);
+
+    // Escape or a click outside closes the popover; Escape hands focus back to the chip
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key !== 'Escape') return;
+            setIsOpen(false);
+            triggerRef.current?.focus();
+        };
+        const handlePointerDown = (event: MouseEvent) => {
+            const target = event.target as Node;
+            if (popoverRef.current?.contains(target) || triggerRef.current?.contains(target)) return;
+            setIsOpen(false);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('mousedown', handlePointerDown);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('mousedown', handlePointerDown);
+        };
+    }, [isOpen]);
+
+    // A new account means the old copy confirmation no longer applies
+    useEffect(() => {
+        setCopyStatus(null);
+    }, [address]);
+
+    if (!address) return null;
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(address);
+            setCopyStatus('Address copied');
+        } catch {
+            setCopyStatus('Clipboard unavailable');
+        }
+    };
+
+    return (
+        <div className={cx('relative', className)}>
+            <button
+                ref={triggerRef}
+                onClick={() => setIsOpen(open => !open)}
+                aria-haspopup="dialog"
+                aria-expanded={isOpen}
+                title={address}
+                className={cx(buttonClass('secondary'), 'rounded-full px-3 py-1 font-mono text-mn-text')}
+            >
+                {shortenAddress(address)}
+            </button>
+
+            {isOpen && (
+                <div
+                    ref={popoverRef}
+                    role="dialog"
+                    aria-label="Account details"
+                    className={cx(panelClass, 'absolute right-0 z-40 mt-2 w-80 p-4')}
+                >
+                    {walletName && <p className="mb-1 text-xs text-mn-text-muted">{walletName}</p>}
+                    <p className="mb-3 break-all font-mono text-sm">{address}</p>
+                    <button onClick={handleCopy} className={buttonClass('primary')}>Copy address</button>
+                </div>
+            )}
+
+            {/* Outside the popover so the confirmation is still announced if it closes */}
+            <span role="status" aria-live="polite" className="sr-only">{copyStatus}</span>
+        </div>
+    );
+};
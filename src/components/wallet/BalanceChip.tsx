@@ -0,0 +1,30 @@
+// src/components/wallet/BalanceChip.tsx
+"use client";
+
+import React from 'react';
+import { useBalances } from '@/context/ReactiveMidnightWalletContext';
+import { TokenMetadata } from '@/lib/balances';
+import { cx } from '@/components/wallet/styles';
+
+interface BalanceChipProps {
+    tokens?: Record<string, TokenMetadata>;     // Extra token metadata, merged with the defaults
+    className?: string;
+}
+
+// --- Balance Chip ---
+// First token (tDUST when held) on the chip, every token in the tooltip; hidden until balances are known
+export const BalanceChip: React.FC<BalanceChipProps> = ({ tokens, className }) => {
+    const { balances, isAvailable } = useBalances(tokens);
+    if (!isAvailable) return null;
+
+    const [primary] = balances;
+    const label = primary ? `${primary.formatted} ${primary.symbol}` : 'No tokens';
+    return (
+        <span
+            className={cx('whitespace-nowrap rounded-full border border-mn-border bg-mn-surface-muted px-3 py-1 text-sm', className)}
+            title={balances.map(b => `${b.formatted} ${b.symbol}`).join('\n') || 'No tokens'}
+        >
+            {label}
+        </span>
+    );
+};
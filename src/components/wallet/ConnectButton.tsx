@@ -0,0 +1,56 @@
+// src/components/wallet/ConnectButton.tsx
+"use client";
+
+import React, { useCallback, useState } from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { WalletModal } from '@/components/wallet/WalletModal';
+import { buttonClass, cx } from '@/components/wallet/styles';
+
+interface ConnectButtonProps {
+    connectLabel?: string;
+    disconnectLabel?: string;
+    className?: string;
+}
+
+// --- Connect Button ---
+// Opens the wallet modal while disconnected and disconnects while connected.
+// Disabled during the initial check and manual attempts; aria-busy tells assistive tech why.
+// An optimistic state from the server is rendered as if it were settled, so a confirmed guess doesn't shift the layout.
+export const ConnectButton: React.FC<ConnectButtonProps> = ({
+    connectLabel = 'Connect Wallet',
+    disconnectLabel = 'Disconnect',
+    className
+}) => {
+    const { isConnecting, isCheckingStatus, optimisticState, displayAddress, disconnectWallet } = useReactiveMidnightWallet();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const handleCloseModal = useCallback(() => setIsModalOpen(false), []);
+
+    if (displayAddress) {
+        return (
+            <button
+                onClick={disconnectWallet}
+                className={cx(buttonClass('danger'), className)}
+                title={`Disconnect wallet: ${displayAddress}`}
+            >
+                {disconnectLabel}
+            </button>
+        );
+    }
+
+    const isChecking = isCheckingStatus && !optimisticState;
+    const isBusy = isConnecting || isChecking;
+    return (
+        <>
+            <button
+                onClick={() => setIsModalOpen(true)}
+                disabled={isBusy}
+                aria-busy={isBusy}
+                aria-haspopup="dialog"
+                className={cx(buttonClass('primary'), className)}
+            >
+                {isConnecting ? 'Connecting...' : isChecking ? 'Checking...' : connectLabel}
+            </button>
+            <WalletModal isOpen={isModalOpen} onClose={handleCloseModal} />
+        </>
+    );
+};
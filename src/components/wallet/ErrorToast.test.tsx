@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { ReactiveMidnightWalletProvider, useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { ErrorToast } from '@/components/wallet/ErrorToast';
+import { DEFAULT_POLLING_INTERVALS } from '@/lib/watcher';
+import { installMockWallet } from '@/mocks/mockWallet';
+
+const { approvalMs, approvalTimeoutMs } = DEFAULT_POLLING_INTERVALS;
+
+const flush = (ms = 0) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+const ConnectTrigger = () => {
+    const { connectWallet } = useReactiveMidnightWallet();
+    return <button onClick={() => connectWallet()}>Connect</button>;
+};
+
+// Times out an approval so the store holds an error
+const renderTimedOut = async (autoHideMs?: number) => {
+    const wallet = installMockWallet({ scenario: 'approvalTimeout' });
+    render(
+        <ReactiveMidnightWalletProvider defaultWalletKey={wallet.key} autoReconnect="always" proverHealth={false}>
+            <ConnectTrigger />
+            <ErrorToast autoHideMs={autoHideMs} />
+        </ReactiveMidnightWalletProvider>
+    );
+    await flush();
+    fireEvent.click(screen.getByRole('button', { name: 'Connect' }));
+    await flush(approvalTimeoutMs + approvalMs);
+};
+
+describe('ErrorToast', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    it('shows the error as an alert until dismissed', async () => {
+        await renderTimedOut();
+
+        expect(screen.getByRole('alert').textContent).toMatch(/Connection timed out/);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+        expect(screen.queryByRole('alert')).toBeNull();
+    });
+
+    it('hides itself after autoHideMs', async () => {
+        await renderTimedOut(5000);
+        expect(screen.getByRole('alert')).toBeTruthy();
+
+        await flush(5000);
+
+        expect(screen.queryByRole('alert')).toBeNull();
+    });
+});
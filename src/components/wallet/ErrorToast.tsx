@@ -0,0 +1,53 @@
+// src/components/wallet/ErrorToast.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { WalletError } from '@/lib/walletErrors';
+import { cx } from '@/components/wallet/styles';
+
+interface ErrorToastProps {
+    autoHideMs?: number;    // Dismiss on its own after this long (default: stay until dismissed)
+    className?: string;
+}
+
+// --- Error Toast ---
+// Shows the current wallet error as an alert in the corner. Dismissing only hides this error:
+// the store keeps it, and the next error shows a fresh toast.
+export const ErrorToast: React.FC<ErrorToastProps> = ({ autoHideMs, className }) => {
+    const { error, isConnecting, isCheckingStatus } = useReactiveMidnightWallet();
+    const [dismissed, setDismissed] = useState<WalletError | null>(null);
+
+    useEffect(() => {
+        if (!error || !autoHideMs) return;
+        const timer = setTimeout(() => setDismissed(error), autoHideMs);
+        return () => clearTimeout(timer);
+    }, [error, autoHideMs]);
+
+    // Hidden while a new attempt is in flight: the error belongs to the previous one
+    if (!error || error === dismissed || isConnecting || isCheckingStatus) return null;
+
+    return (
+        <div
+            role="alert"
+            className={cx(
+                'fixed bottom-4 right-4 z-50 flex max-w-sm items-start gap-3 rounded-lg border border-mn-danger',
+                'bg-mn-danger-surface p-4 text-sm text-mn-text shadow-lg',
+                className,
+            )}
+        >
+            <span aria-hidden="true">⚠️</span>
+            <div className="flex-1">
+                <p className="font-semibold text-mn-danger">{error.message}</p>
+                {error.detail && <p className="mt-1 text-xs text-mn-text-muted">{error.detail}</p>}
+            </div>
+            <button
+                onClick={() => setDismissed(error)}
+                aria-label="Dismiss"
+                className="cursor-pointer rounded px-1 text-mn-text-muted hover:text-mn-text focus-visible:outline-2 focus-visible:outline-mn-focus"
+            >
+                ×
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,59 @@
+// src/components/wallet/StatusIndicator.tsx
+"use client";
+
+import React from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { cx } from '@/components/wallet/styles';
+
+// --- Indicator States ---
+// Priority: Connecting > Checking > Degraded > Connected > Disconnected
+export type IndicatorState = 'connecting' | 'checking' | 'degraded' | 'connected' | 'disconnected';
+
+const INDICATOR: Record<IndicatorState, { label: string; dotClass: string; pulse: boolean }> = {
+    connecting: { label: 'Connecting...', dotClass: 'bg-mn-info', pulse: true },
+    checking: { label: 'Checking...', dotClass: 'bg-mn-info', pulse: true },
+    degraded: { label: 'Degraded', dotClass: 'bg-mn-degraded', pulse: false },
+    connected: { label: 'Connected', dotClass: 'bg-mn-success', pulse: false },
+    disconnected: { label: 'Disconnected', dotClass: 'bg-mn-warning', pulse: false },
+};
+
+interface StatusIndicatorProps {
+    showLabel?: boolean;    // Visually hide the text; screen readers still hear it
+    className?: string;
+}
+
+// --- Status Indicator ---
+// A dot plus label, announced politely to screen readers whenever it changes.
+// While an optimistic state is being confirmed it shows that state instead of 'Checking...'.
+export const StatusIndicator: React.FC<StatusIndicatorProps> = ({ showLabel = true, className }) => {
+    const { isConnected, isConnecting, isCheckingStatus, isDegraded, proverStatus, optimisticState } = useReactiveMidnightWallet();
+
+    let state: IndicatorState = 'disconnected';
+    if (isConnecting) state = 'connecting';
+    else if (optimisticState) state = optimisticState.status;
+    else if (isCheckingStatus) state = 'checking';
+    else if (isConnected && isDegraded) state = 'degraded';
+    else if (isConnected) state = 'connected';
+
+    const { label, dotClass, pulse } = INDICATOR[state];
+    const detail = state !== 'degraded' ? null
+        : proverStatus.state === 'unavailable' ? 'Proof server unavailable'
+        : `Proof server slow (${proverStatus.latencyMs}ms)`;
+
+    return (
+        <div
+            role="status"
+            aria-live="polite"
+            data-state={state}
+            title={label}
+            className={cx('flex items-center gap-2 text-sm text-mn-text', className)}
+        >
+            <span
+                aria-hidden="true"
+                className={cx('inline-block h-3 w-3 rounded-full border border-white/50', dotClass, pulse && 'animate-pulse')}
+            />
+            <span className={showLabel ? undefined : 'sr-only'}>{label}</span>
+            {detail && <span className="text-xs text-mn-degraded">{detail}</span>}
+        </div>
+    );
+};
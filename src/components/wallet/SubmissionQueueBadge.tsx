@@ -0,0 +1,42 @@
+// src/components/wallet/SubmissionQueueBadge.tsx
+"use client";
+
+import React from 'react';
+import { useSubmissionQueue } from '@/context/ReactiveMidnightWalletContext';
+import { cx } from '@/components/wallet/styles';
+
+interface SubmissionQueueBadgeProps {
+    className?: string;
+}
+
+// --- Submission Queue Badge ---
+// Counts of queued and failed submissions, each item and its state in the tooltip; hidden while the queue is empty
+export const SubmissionQueueBadge: React.FC<SubmissionQueueBadgeProps> = ({ className }) => {
+    const { submissions, pending, failed } = useSubmissionQueue();
+    if (pending.length === 0 && failed.length === 0) return null;
+
+    const label = [
+        pending.length > 0 && `${pending.length} queued`,
+        failed.length > 0 && `${failed.length} failed`,
+    ].filter(Boolean).join(', ');
+    const title = submissions
+        .filter(s => s.state !== 'submitted' && s.state !== 'included')
+        .map(s => `${s.label ?? 'Transaction'}: ${s.state}${s.error ? ` (${s.error.message})` : ''}`)
+        .join('\n');
+
+    return (
+        <span
+            role="status"
+            aria-live="polite"
+            data-state={failed.length > 0 ? 'failed' : 'pending'}
+            title={title}
+            className={cx(
+                'whitespace-nowrap rounded-full border px-3 py-1 text-sm',
+                failed.length > 0 ? 'border-mn-danger text-mn-danger' : 'border-mn-info text-mn-info',
+                className,
+            )}
+        >
+            {label}
+        </span>
+    );
+};
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { ReactiveMidnightWalletProvider, useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { TransactionReviewDialog } from '@/components/wallet/TransactionReviewDialog';
+import { NATIVE_TOKEN_TYPE } from '@/lib/balances';
+import { TransactionReviewOptions, TransactionSummary } from '@/lib/transactionReview';
+import { WalletTransaction } from '@/lib/transactions';
+import { installMockWallet } from '@/mocks/mockWallet';
+
+const flush = (ms = 0) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+const SUMMARY: TransactionSummary = {
+    calls: [{ kind: 'call', address: '0200aabbccddeeff', entryPoint: 'increment' }],
+    movements: [{ tokenType: NATIVE_TOKEN_TYPE, amount: BigInt(1_500_000) }],
+    estimatedFee: BigInt(2_500),
+    feeBasis: 'live',
+};
+const REVIEW = { decode: () => SUMMARY };
+
+const SubmitTrigger = () => {
+    const { submitTransaction, transactions } = useReactiveMidnightWallet();
+    return (
+        <>
+            <button onClick={() => submitTransaction({} as WalletTransaction, { label: 'Increment counter' })}>Submit</button>
+            <output>{transactions[0]?.stage}</output>
+        </>
+    );
+};
+
+const renderDialog = async (review: TransactionReviewOptions = REVIEW) => {
+    const wallet = installMockWallet({ scenario: 'approved' });
+    render(
+        <ReactiveMidnightWalletProvider defaultWalletKey={wallet.key} autoReconnect="always" proverHealth={false} transactionReview={review}>
+            <SubmitTrigger />
+            <TransactionReviewDialog />
+        </ReactiveMidnightWalletProvider>
+    );
+    await flush();
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await flush();
+    return wallet;
+};
+
+describe('TransactionReviewDialog', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    it('summarises the calls, amounts and fee, focusing Reject first', async () => {
+        await renderDialog();
+
+        const dialog = screen.getByRole('dialog', { name: 'Review transaction' });
+        expect(dialog.textContent).toContain('Increment counter');
+        expect(dialog.textContent).toContain('Call increment on 0200aa...eeff');
+        expect(dialog.textContent).toContain('You pay 1.5 tDUST');
+        expect(dialog.textContent).toContain('0.0025 tDUST');
+        expect(document.activeElement).toBe(screen.getByRole('button', { name: 'Reject' }));
+    });
+
+    it('marks a fee priced with default parameters as approximate', async () => {
+        await renderDialog({ decode: () => ({ ...SUMMARY, feeBasis: 'approximate' }) });
+
+        const dialog = screen.getByRole('dialog', { name: 'Review transaction' });
+        expect(dialog.textContent).toContain('About 0.0025 tDUST');
+        expect(dialog.textContent).toContain('Priced with default ledger parameters');
+    });
+
+    it('says when no fee estimate is available', async () => {
+        await renderDialog({ decode: () => ({ ...SUMMARY, estimatedFee: null, feeBasis: null }) });
+
+        expect(screen.getByRole('dialog').textContent).toContain('Not available; the wallet adds the fee');
+    });
+
+    it('hands the transaction to the wallet only after Approve', async () => {
+        const wallet = await renderDialog();
+        expect(wallet.calls.submitTransaction).toBe(0);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Approve' }));
+        await flush();
+
+        expect(screen.queryByRole('dialog')).toBeNull();
+        expect(wallet.calls.submitTransaction).toBe(1);
+        expect(screen.getByRole('status').textContent).toBe('submitted');
+    });
+
+    it('rejects on Escape', async () => {
+        const wallet = await renderDialog();
+
+        fireEvent.keyDown(window, { key: 'Escape' });
+        await flush();
+
+        expect(screen.queryByRole('dialog')).toBeNull();
+        expect(wallet.calls.submitTransaction).toBe(0);
+        expect(screen.getByRole('status').textContent).toBe('failed');
+    });
+});
@@ -0,0 +1,126 @@
+// src/components/wallet/TransactionReviewDialog.tsx
+"use client";
+
+import React, { useRef } from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { DEFAULT_TOKEN_METADATA, NATIVE_TOKEN_TYPE, TokenMetadata, describeToken, formatTokenAmount } from '@/lib/balances';
+import { ContractCallSummary, TransactionReview } from '@/lib/transactionReview';
+import { buttonClass, cx, panelClass, shortenAddress } from '@/components/wallet/styles';
+import { useDialogFocus } from '@/components/wallet/useDialogFocus';
+
+interface TransactionReviewDialogProps {
+    tokens?: Record<string, TokenMetadata>;     // Extra token metadata, merged with the defaults
+    className?: string;
+}
+
+const describeCall = (call: ContractCallSummary) => {
+    const address = shortenAddress(call.address);
+    if (call.kind === 'call') return <>Call <code>{call.entryPoint}</code> on {address}</>;
+    if (call.kind === 'deploy') return <>Deploy a contract at {address}</>;
+    return <>Update the contract at {address}</>;
+};
+
+// --- Review Panel ---
+// Keyed by review id, so focus resets for each queued transaction
+const ReviewPanel: React.FC<{ review: TransactionReview; metadata: Record<string, TokenMetadata>; className?: string }> = ({
+    review,
+    metadata,
+    className
+}) => {
+    const { approveReview, rejectReview } = useReactiveMidnightWallet();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    useDialogFocus(dialogRef, true, rejectReview);
+
+    const { summary } = review;
+    const formatAmount = (tokenType: string, amount: bigint) => {
+        const token = describeToken(tokenType, metadata);
+        return `${formatTokenAmount(amount, token.decimals)} ${token.symbol}`;
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+            <div
+                ref={dialogRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="transaction-review-title"
+                className={cx(panelClass, 'w-full max-w-md p-6', className)}
+            >
+                <h2 id="transaction-review-title" className="mb-1 text-lg font-semibold">Review transaction</h2>
+                {review.label && <p className="mb-3 text-sm text-mn-text-muted">{review.label}</p>}
+
+                {summary ? (
+                    <dl className="mb-4 flex flex-col gap-3 text-sm">
+                        <div>
+                            <dt className="font-semibold">Contract calls</dt>
+                            <dd className="m-0">
+                                {summary.calls.length === 0 ? 'None' : (
+                                    <ul className="m-0 list-none p-0">
+                                        {summary.calls.map((call, i) => <li key={i}>{describeCall(call)}</li>)}
+                                    </ul>
+                                )}
+                            </dd>
+                        </div>
+                        <div>
+                            <dt className="font-semibold">Tokens</dt>
+                            <dd className="m-0">
+                                {summary.movements.length === 0 ? 'No tokens move' : (
+                                    <ul className="m-0 list-none p-0">
+                                        {summary.movements.map(m => (
+                                            <li key={m.tokenType}>
+                                                {m.amount > BigInt(0)
+                                                    ? `You pay ${formatAmount(m.tokenType, m.amount)}`
+                                                    : `You receive ${formatAmount(m.tokenType, -m.amount)}`}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </dd>
+                        </div>
+                        <div>
+                            <dt className="font-semibold">Estimated fee</dt>
+                            <dd className="m-0">
+                                {summary.estimatedFee === null ? 'Not available; the wallet adds the fee' : (
+                                    summary.feeBasis === 'approximate'
+                                        ? <>
+                                            About {formatAmount(NATIVE_TOKEN_TYPE, summary.estimatedFee)}
+                                            <span className="block text-xs text-mn-text-muted">
+                                                Priced with default ledger parameters; the network may charge a different fee.
+                                            </span>
+                                        </>
+                                        : formatAmount(NATIVE_TOKEN_TYPE, summary.estimatedFee)
+                                )}
+                            </dd>
+                        </div>
+                    </dl>
+                ) : (
+                    <p role="alert" className="mb-4 text-sm text-mn-danger">
+                        This transaction couldn&apos;t be decoded{review.decodeError ? `: ${review.decodeError}` : ''}. Only approve it if you started it.
+                    </p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    <button onClick={rejectReview} className={buttonClass('secondary')}>Reject</button>
+                    <button onClick={approveReview} className={buttonClass('primary')}>Approve</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Transaction Review Dialog ---
+// Shows pendingReview from the context; nothing renders unless transactionReview is enabled and a
+// transaction is waiting. Escape rejects, and the wallet is only asked to balance after Approve.
+export const TransactionReviewDialog: React.FC<TransactionReviewDialogProps> = ({ tokens, className }) => {
+    const { pendingReview } = useReactiveMidnightWallet();
+    if (!pendingReview) return null;
+
+    return (
+        <ReviewPanel
+            key={pendingReview.id}
+            review={pendingReview}
+            metadata={{ ...DEFAULT_TOKEN_METADATA, ...tokens }}
+            className={className}
+        />
+    );
+};
@@ -0,0 +1,102 @@
+// src/components/wallet/WalletModal.tsx
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { buttonClass, cx, panelClass } from '@/components/wallet/styles';
+import { useDialogFocus } from '@/components/wallet/useDialogFocus';
+
+interface WalletModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    className?: string;     // Added to the dialog panel
+}
+
+// --- Wallet Modal ---
+// Lists every connector found under window.midnight and connects the one the user picks.
+// Focus moves into the dialog on open, stays there while Tab cycles, and returns to the trigger on close.
+export const WalletModal: React.FC<WalletModalProps> = ({ isOpen, onClose, className }) => {
+    const {
+        availableWallets,
+        selectedWalletKey,
+        refreshWallets,
+        connectWallet,
+    } = useReactiveMidnightWallet();
+    const dialogRef = useRef<HTMLDivElement>(null);
+
+    // Re-scan when opened: extensions can inject their connector after the first check
+    useEffect(() => {
+        if (isOpen) refreshWallets();
+    }, [isOpen, refreshWallets]);
+
+    useDialogFocus(dialogRef, isOpen, onClose);
+
+    if (!isOpen) return null;
+
+    const handleSelect = (walletKey: string) => {
+        onClose();
+        connectWallet(walletKey);
+    };
+
+    return (
+        <div
+            onClick={onClose} // Backdrop click closes the modal
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+        >
+            <div
+                ref={dialogRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="wallet-modal-title"
+                onClick={(event) => event.stopPropagation()}
+                className={cx(panelClass, 'w-full max-w-sm p-6', className)}
+            >
+                <h2 id="wallet-modal-title" className="mb-4 text-lg font-semibold">Select a Midnight wallet</h2>
+
+                {availableWallets.length === 0 ? (
+                    <p className="text-sm text-mn-text-muted">
+                        No Midnight wallets detected. Install a wallet extension such as Lace and reload the page.
+                    </p>
+                ) : (
+                    <ul className="m-0 flex list-none flex-col gap-2 p-0">
+                        {availableWallets.map((wallet) => (
+                            <li key={wallet.key}>
+                                <button
+                                    onClick={() => handleSelect(wallet.key)}
+                                    disabled={wallet.unsupported !== null} // No adapter for its connector version
+                                    title={wallet.unsupported?.message}
+                                    className={cx(
+                                        'flex w-full cursor-pointer items-center gap-3 rounded-md border bg-mn-surface-muted p-3 text-left text-mn-text',
+                                        'focus-visible:outline-2 focus-visible:outline-mn-focus disabled:cursor-not-allowed disabled:opacity-60',
+                                        wallet.key === selectedWalletKey ? 'border-mn-primary' : 'border-mn-border',
+                                    )}
+                                >
+                                    {wallet.icon ? (
+                                        // Icons are usually data URIs supplied by the extension, so next/image can't optimise them
+                                        // eslint-disable-next-line @next/next/no-img-element
+                                        <img src={wallet.icon} alt="" width={28} height={28} className="rounded" />
+                                    ) : (
+                                        <span className="inline-block h-7 w-7 rounded bg-mn-border" />
+                                    )}
+                                    <span className="flex-1">
+                                        <span className="block font-bold">{wallet.name}</span>
+                                        <span className="block text-xs text-mn-text-muted">
+                                            API v{wallet.apiVersion}{wallet.unsupported && ' · Unsupported version'}
+                                        </span>
+                                    </span>
+                                    {wallet.key === selectedWalletKey && (
+                                        <span className="text-xs text-mn-info">Last used</span>
+                                    )}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="mt-4 flex justify-end">
+                    <button onClick={onClose} className={buttonClass('secondary')}>Cancel</button>
+                </div>
+            </div>
+        </div>
+    );
+};
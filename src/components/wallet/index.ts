@@ -0,0 +1,15 @@
+// src/components/wallet/index.ts
+// Wallet UI kit: drop-in components driven by ReactiveMidnightWalletContext and themed through the --mn-* tokens
+
+export { AccountChip } from '@/components/wallet/AccountChip';
+export { BalanceChip } from '@/components/wallet/BalanceChip';
+export { ConnectButton } from '@/components/wallet/ConnectButton';
+export { ErrorToast } from '@/components/wallet/ErrorToast';
+export { StatusIndicator } from '@/components/wallet/StatusIndicator';
+export type { IndicatorState } from '@/components/wallet/StatusIndicator';
+export { SubmissionQueueBadge } from '@/components/wallet/SubmissionQueueBadge';
+export { TransactionReviewDialog } from '@/components/wallet/TransactionReviewDialog';
+export { WalletModal } from '@/components/wallet/WalletModal';
+export { buttonClass, cx, panelClass, shortenAddress } from '@/components/wallet/styles';
+export type { ButtonVariant } from '@/components/wallet/styles';
+export { useDialogFocus } from '@/components/wallet/useDialogFocus';
@@ -0,0 +1,28 @@
+// src/components/wallet/styles.ts
+// Shared class names for the wallet UI kit. Colours come from the --mn-* tokens in globals.css,
+// so restyling means overriding tokens, not editing components.
+
+export const cx = (...classes: (string | false | null | undefined)[]): string => classes.filter(Boolean).join(' ');
+
+// --- Buttons ---
+export type ButtonVariant = 'primary' | 'danger' | 'secondary';
+
+const BUTTON_VARIANTS: Record<ButtonVariant, string> = {
+    primary: 'bg-mn-primary text-mn-primary-text border-transparent hover:opacity-90',
+    danger: 'bg-mn-danger text-mn-primary-text border-transparent hover:opacity-90',
+    secondary: 'bg-transparent text-mn-text-muted border-mn-border hover:text-mn-text',
+};
+
+export const buttonClass = (variant: ButtonVariant = 'primary'): string => cx(
+    'inline-flex items-center gap-2 whitespace-nowrap rounded border px-4 py-2 text-sm transition',
+    'focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-mn-focus',
+    'disabled:cursor-not-allowed disabled:opacity-60 cursor-pointer',
+    BUTTON_VARIANTS[variant],
+);
+
+// --- Surfaces ---
+export const panelClass = 'rounded-lg border border-mn-border bg-mn-surface text-mn-text shadow-lg';
+
+// --- Addresses ---
+export const shortenAddress = (address: string): string =>
+    address.length > 12 ? `${address.substring(0, 6)}...${address.substring(address.length - 4)}` : address;
@@ -0,0 +1,42 @@
+// src/components/wallet/useDialogFocus.ts
+"use client";
+
+import { RefObject, useEffect } from 'react';
+
+const FOCUSABLE = 'button:not([disabled]), [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+// --- Dialog Focus ---
+// Moves focus into the dialog when it opens and back to the trigger when it closes.
+// While open, Escape calls onEscape and Tab wraps around inside the dialog.
+export const useDialogFocus = (dialogRef: RefObject<HTMLElement | null>, isOpen: boolean, onEscape: () => void) => {
+    useEffect(() => {
+        if (!isOpen) return;
+        const trigger = document.activeElement as HTMLElement | null;
+        dialogRef.current?.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+        return () => trigger?.focus?.();
+    }, [dialogRef, isOpen]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onEscape();
+                return;
+            }
+            if (event.key !== 'Tab' || !dialogRef.current) return;
+            const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+            if (focusable.length === 0) return;
+            const first = focusable[0];
+            const last = focusable[focusable.length - 1];
+            if (event.shiftKey && document.activeElement === first) {
+                event.preventDefault();
+                last.focus();
+            } else if (!event.shiftKey && document.activeElement === last) {
+                event.preventDefault();
+                first.focus();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [dialogRef, isOpen, onEscape]);
+};
@@ -0,0 +1,237 @@
+// src/context/ContractContext.tsx
+"use client";
+
+import React, {
+    createContext,
+    useState,
+    useContext,
+    ReactNode,
+    useCallback,
+    useEffect,
+    useMemo,
+    useRef
+} from 'react';
+import {
+    Contract,
+    InitialStateParameters,
+    PrivateState,
+    PrivateStateId
+} from '@midnight-ntwrk/midnight-js-types';
+import {
+    ContractProviders,
+    FoundContract,
+    deployContract,
+    findDeployedContract
+} from '@midnight-ntwrk/midnight-js-contracts';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { useContractState } from '@/context/IndexerContext';
+import {
+    ContractArtifacts,
+    WalletContractProviders,
+    applyMidnightNetworkId,
+    createContractProviders,
+    createWalletContractProviders,
+    parseLedgerState
+} from '@/lib/contractProviders';
+import { PrivateStateStore, createPrivateStateStore } from '@/lib/privateStateStore';
+import { WalletError, notConnectedError, toWalletError } from '@/lib/walletErrors';
+
+// --- Context Creation ---
+interface ContractContextValue {
+    providers: WalletContractProviders | null; // null while no wallet is connected
+    privateStateStore: PrivateStateStore;
+}
+
+const ContractContext = createContext<ContractContextValue | null>(null);
+
+// --- Provider Props ---
+interface ContractProviderProps {
+    children: ReactNode;
+    privateStateStore?: PrivateStateStore; // Defaults to an unencrypted IndexedDB store
+}
+
+// --- Provider Component ---
+// Must sit inside ReactiveMidnightWalletProvider. Rebuilds the providers when the wallet,
+// its keys, its service URIs or the selected prover change.
+export const ContractProvider: React.FC<ContractProviderProps> = ({ children, privateStateStore: externalStore }) => {
+    const { isConnected, walletApi, walletState, serviceUris, networkId, proverStatus, reviewTransaction, logger } = useReactiveMidnightWallet();
+    const [ownStore] = useState(() => externalStore ?? createPrivateStateStore({ logger }));
+    const privateStateStore = externalStore ?? ownStore;
+
+    const address = isConnected ? walletState?.address ?? null : null;
+    const coinPublicKey = walletState?.coinPublicKey;
+    const encryptionPublicKey = walletState?.encryptionPublicKey;
+    const proverUri = proverStatus.uri;
+
+    // --- Private State Namespace ---
+    useEffect(() => {
+        privateStateStore.setAccount(address);
+    }, [privateStateStore, address]);
+
+    // --- Network Id ---
+    // midnight-js reads it from a global when it (de)serialises, so it is set outside render
+    useEffect(() => {
+        if (isConnected) applyMidnightNetworkId(networkId, logger);
+    }, [isConnected, networkId, logger]);
+
+    const providers = useMemo(() => {
+        if (!isConnected || !walletApi || !coinPublicKey || !encryptionPublicKey || !serviceUris) return null;
+        return createWalletContractProviders({
+            walletApi,
+            walletKeys: { coinPublicKey, encryptionPublicKey },
+            // Prove with the prover the health check picked, which may be a fallback
+            serviceUris: proverUri ? { ...serviceUris, proverServerUri: proverUri } : serviceUris,
+            privateStateProvider: privateStateStore,
+            reviewTransaction,  // A no-op unless the wallet provider enables transactionReview
+        });
+    }, [isConnected, walletApi, coinPublicKey, encryptionPublicKey, serviceUris, proverUri, privateStateStore, reviewTransaction]);
+
+    const value = useMemo(() => ({ providers, privateStateStore }), [providers, privateStateStore]);
+
+    return (
+        <ContractContext.Provider value={value}>
+            {children}
+        </ContractContext.Provider>
+    );
+};
+
+const useContractContext = (hookName: string): ContractContextValue => {
+    const context = useContext(ContractContext);
+    if (!context) {
+        throw new Error(`${hookName} must be used within a ContractProvider`);
+    }
+    return context;
+};
+
+// --- Providers Hook ---
+export const useContractProviders = (): WalletContractProviders | null =>
+    useContractContext('useContractProviders').providers;
+
+// --- Private State Hook ---
+// For backup export/import UIs; the namespace follows the connected account
+export const usePrivateStateStore = (): PrivateStateStore =>
+    useContractContext('usePrivateStateStore').privateStateStore;
+
+// --- Contract Hook ---
+export type ContractStatus = 'idle' | 'deploying' | 'joining' | 'ready' | 'error';
+
+interface UseContractOptions<C extends Contract> {
+    privateStateId: PrivateStateId;
+    initialPrivateState: PrivateState<C>;
+}
+
+interface UseContractResult<C extends Contract, L> {
+    status: ContractStatus;
+    contractAddress: string | null;
+    ledgerState: L | null;                    // Decoded public ledger, live from the indexer
+    callTx: FoundContract<C>['callTx'] | null; // One typed function per impure circuit
+    error: WalletError | null;
+    canDeploy: boolean;                       // A wallet is connected
+    deploy: (...args: InitialStateParameters<C>) => Promise<string | null>;
+    join: (contractAddress: string) => Promise<boolean>;
+    leave: () => void;
+}
+
+// Define `artifacts` outside the component so its identity is stable across renders
+export const useContract = <C extends Contract, L>(
+    artifacts: ContractArtifacts<C, L>,
+    { privateStateId, initialPrivateState }: UseContractOptions<C>
+): UseContractResult<C, L> => {
+    const { providers: shared, privateStateStore } = useContractContext('useContract');
+    const { logger } = useReactiveMidnightWallet();
+    const [status, setStatus] = useState<ContractStatus>('idle');
+    const [found, setFound] = useState<FoundContract<C> | null>(null);
+    const [error, setError] = useState<WalletError | null>(null);
+    const attemptRef = useRef(0);
+
+    const providers = useMemo(
+        () => shared ? createContractProviders<C>(shared, artifacts.zkConfigUrl) : null,
+        [shared, artifacts.zkConfigUrl]
+    );
+
+    // --- Leave ---
+    // Calls are bound to the providers they were created with, so drop the contract when those go
+    const leave = useCallback(() => {
+        attemptRef.current++;
+        setFound(null);
+        setStatus('idle');
+        setError(null);
+    }, []);
+
+    useEffect(() => {
+        leave();
+    }, [providers, leave]);
+
+    // --- Shared Attempt Flow ---
+    const run = useCallback(async (nextStatus: 'deploying' | 'joining', action: (ready: ContractProviders<C>) => Promise<FoundContract<C>>) => {
+        if (!providers) {
+            setError(notConnectedError());
+            setStatus('error');
+            return null;
+        }
+        const attemptId = ++attemptRef.current;
+        setStatus(nextStatus);
+        setError(null);
+        try {
+            const contract = await action(providers);
+            if (attemptId !== attemptRef.current) return null;
+            setFound(contract);
+            setStatus('ready');
+            return contract;
+        } catch (err) {
+            logger.error(`Contract ${nextStatus === 'deploying' ? 'deployment' : 'join'} failed:`, err);
+            if (attemptId !== attemptRef.current) return null;
+            setError(toWalletError(err));
+            setStatus('error');
+            return null;
+        }
+    }, [providers, logger]);
+
+    // --- Deploy ---
+    const deploy = useCallback(async (...args: InitialStateParameters<C>) => {
+        // Private state is kept per contract, and this view learns its address once deployed
+        const contract = await run('deploying', (ready) => deployContract({ ...ready, privateStateProvider: privateStateStore.forContract() }, {
+            contract: artifacts.contract,
+            privateStateId,
+            initialPrivateState,
+            args,
+        }));
+        return contract?.deployTxData.public.contractAddress ?? null;
+    }, [run, privateStateStore, artifacts.contract, privateStateId, initialPrivateState]);
+
+    // --- Join ---
+    const join = useCallback(async (contractAddress: string) => {
+        const contract = await run('joining', (ready) => findDeployedContract({ ...ready, privateStateProvider: privateStateStore.forContract(contractAddress) }, {
+            contract: artifacts.contract,
+            contractAddress,
+            privateStateId,
+            initialPrivateState,
+        }));
+        return contract !== null;
+    }, [run, privateStateStore, artifacts.contract, privateStateId, initialPrivateState]);
+
+    // --- Ledger State ---
+    const contractAddress = found?.deployTxData.public.contractAddress ?? null;
+    const { state: stateHex } = useContractState(contractAddress);
+    const ledgerState = useMemo(() => {
+        if (!stateHex) return null;
+        try {
+            return parseLedgerState(stateHex, artifacts.ledger);
+        } catch (err) {
+            logger.error("Could not decode contract ledger state:", err);
+            return null;
+        }
+    }, [stateHex, artifacts.ledger, logger]);
+
+    return {
+        status,
+        contractAddress,
+        ledgerState,
+        callTx: found?.callTx ?? null,
+        error,
+        canDeploy: providers !== null,
+        deploy,
+        join,
+        leave,
+    };
+};
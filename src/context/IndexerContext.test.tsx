@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { ReactiveMidnightWalletProvider } from '@/context/ReactiveMidnightWalletContext';
+import { IndexerProvider, useContractState } from '@/context/IndexerContext';
+import { IndexerClient, SubscriptionHandlers } from '@/lib/indexerClient';
+
+const ADDRESS = '02' + 'c'.repeat(64);
+
+const contractAction = (state: string, height: number) => ({
+    address: ADDRESS,
+    state,
+    transaction: { hash: `tx${height}`, block: { height, hash: `block${height}` } },
+});
+
+// The query answers only when the test says so; the subscription pushes whatever the test hands it
+const createFakeClient = () => {
+    let answerQuery: (data: unknown) => void = () => {};
+    let handlers: SubscriptionHandlers<unknown> | null = null;
+    const client: IndexerClient = {
+        uri: 'http://indexer.test/api/v1/graphql',
+        wsUri: 'ws://indexer.test/api/v1/graphql/ws',
+        query: <T,>() => new Promise<T>(resolve => { answerQuery = data => resolve(data as T); }),
+        subscribe: (_query, _variables, next) => {
+            handlers = next as SubscriptionHandlers<unknown>;
+            return () => { handlers = null; };
+        },
+        close: vi.fn(),
+    };
+    return {
+        client,
+        answerQuery: (data: unknown) => act(async () => answerQuery(data)),
+        push: (data: unknown) => act(async () => handlers?.next(data)),
+    };
+};
+
+const ContractStateProbe = () => {
+    const { state, blockHeight } = useContractState(ADDRESS);
+    return <output>{state ?? 'none'}@{blockHeight ?? '-'}</output>;
+};
+
+const renderProbe = (client: IndexerClient) => render(
+    <ReactiveMidnightWalletProvider proverHealth={false}>
+        <IndexerProvider client={client}>
+            <ContractStateProbe />
+        </IndexerProvider>
+    </ReactiveMidnightWalletProvider>
+);
+
+describe('useContractState', () => {
+    it('keeps a pushed state when an older fetch answers late', async () => {
+        const fake = createFakeClient();
+        renderProbe(fake.client);
+
+        await fake.push({ contractActions: contractAction('0b', 12) });
+        await fake.answerQuery({ contractAction: contractAction('0a', 10) });
+
+        expect(screen.getByRole('status').textContent).toBe('0b@12');
+    });
+
+    it('takes a fetched state that is newer than the pushed one', async () => {
+        const fake = createFakeClient();
+        renderProbe(fake.client);
+
+        await fake.push({ contractActions: contractAction('0b', 12) });
+        await fake.answerQuery({ contractAction: contractAction('0c', 13) });
+
+        expect(screen.getByRole('status').textContent).toBe('0c@13');
+    });
+});
@@ -0,0 +1,175 @@
+// src/context/IndexerContext.tsx
+"use client";
+
+import React, {
+    createContext,
+    useState,
+    useContext,
+    ReactNode,
+    useEffect
+} from 'react';
+import { useReactiveMidnightWallet } from '@/context/ReactiveMidnightWalletContext';
+import { IndexerClient, createIndexerClient } from '@/lib/indexerClient';
+import {
+    ContractStateUpdate,
+    IndexedBlock,
+    TransactionApplyStage,
+    fetchContractState,
+    fetchTransactionInclusion,
+    subscribeContractState,
+    subscribeTransactionInclusion
+} from '@/lib/indexerQueries';
+
+// --- Context Creation ---
+// null while no wallet is connected, since the indexer URIs come from the wallet
+const IndexerContext = createContext<IndexerClient | null | undefined>(undefined);
+
+// --- Provider Props ---
+interface IndexerProviderProps {
+    children: ReactNode;
+    client?: IndexerClient; // Use a fixed client instead of the wallet's serviceUris
+}
+
+// --- Provider Component ---
+// Must sit inside ReactiveMidnightWalletProvider. A new client (and socket) is created
+// whenever the connection or the wallet's indexer URIs change.
+export const IndexerProvider: React.FC<IndexerProviderProps> = ({ children, client: externalClient }) => {
+    const { isConnected, serviceUris, logger } = useReactiveMidnightWallet();
+    const [ownClient, setOwnClient] = useState<IndexerClient | null>(null);
+
+    const indexerUri = isConnected && !externalClient ? serviceUris?.indexerUri ?? null : null;
+    const indexerWsUri = isConnected && !externalClient ? serviceUris?.indexerWsUri ?? null : null;
+
+    useEffect(() => {
+        if (!indexerUri || !indexerWsUri) {
+            setOwnClient(null);
+            return;
+        }
+        const client = createIndexerClient({ uri: indexerUri, wsUri: indexerWsUri, logger });
+        setOwnClient(client);
+        return () => client.close();
+    }, [indexerUri, indexerWsUri, logger]);
+
+    return (
+        <IndexerContext.Provider value={externalClient ?? ownClient}>
+            {children}
+        </IndexerContext.Provider>
+    );
+};
+
+// --- Client Hook ---
+export const useIndexerClient = (): IndexerClient | null => {
+    const client = useContext(IndexerContext);
+    if (client === undefined) {
+        throw new Error('useIndexerClient must be used within an IndexerProvider');
+    }
+    return client;
+};
+
+// --- Contract State Hook ---
+// Latest state of a deployed contract, kept live through a subscription
+interface ContractStateResult {
+    state: string | null;
+    blockHeight: number | null;
+    txHash: string | null;
+    isLoading: boolean;
+    error: Error | null;
+}
+
+const EMPTY_CONTRACT_STATE: ContractStateResult = { state: null, blockHeight: null, txHash: null, isLoading: false, error: null };
+
+export const useContractState = (address: string | null | undefined): ContractStateResult => {
+    const client = useIndexerClient();
+    const [result, setResult] = useState<ContractStateResult>(EMPTY_CONTRACT_STATE);
+
+    useEffect(() => {
+        if (!client || !address) {
+            setResult(EMPTY_CONTRACT_STATE);
+            return;
+        }
+
+        let active = true;
+        // The fetch can answer after a newer pushed state; whatever is older than what's shown is dropped
+        let appliedHeight: number | null = null;
+        const apply = (update: ContractStateUpdate | null) => {
+            if (!active) return;
+            if (appliedHeight !== null && (update === null || update.blockHeight < appliedHeight)) return;
+            appliedHeight = update?.blockHeight ?? appliedHeight;
+            setResult({
+                state: update?.state ?? null,
+                blockHeight: update?.blockHeight ?? null,
+                txHash: update?.txHash ?? null,
+                isLoading: false,
+                error: null,
+            });
+        };
+        const fail = (err: Error) => {
+            if (active) setResult(prev => ({ ...prev, isLoading: false, error: err }));
+        };
+
+        setResult({ ...EMPTY_CONTRACT_STATE, isLoading: true });
+        const unsubscribe = subscribeContractState(client, address, apply, fail);
+        fetchContractState(client, address).then(apply, fail);
+
+        return () => {
+            active = false;
+            unsubscribe();
+        };
+    }, [client, address]);
+
+    return result;
+};
+
+// --- Transaction Confirmation Hook ---
+// Follows a submitted transaction (by the txId from submitTransaction) until a block includes it
+export type TxConfirmationStatus = 'idle' | 'pending' | 'confirmed' | 'failed';
+
+interface TxConfirmationResult {
+    status: TxConfirmationStatus;
+    block: IndexedBlock | null;
+    applyStage: TransactionApplyStage | null;
+    error: Error | null;
+}
+
+const IDLE_CONFIRMATION: TxConfirmationResult = { status: 'idle', block: null, applyStage: null, error: null };
+
+export const useTxConfirmation = (txId: string | null | undefined): TxConfirmationResult => {
+    const client = useIndexerClient();
+    const [result, setResult] = useState<TxConfirmationResult>(IDLE_CONFIRMATION);
+
+    useEffect(() => {
+        if (!client || !txId) {
+            setResult(IDLE_CONFIRMATION);
+            return;
+        }
+
+        let active = true;
+        let unsubscribe = () => {};
+        const settle = (inclusion: { block: IndexedBlock; applyStage: TransactionApplyStage } | null) => {
+            if (!active || !inclusion) return;
+            active = false;
+            unsubscribe();
+            setResult({
+                status: inclusion.applyStage === 'FailEntirely' ? 'failed' : 'confirmed',
+                block: inclusion.block,
+                applyStage: inclusion.applyStage,
+                error: null,
+            });
+        };
+        const fail = (err: Error) => {
+            if (active) setResult(prev => ({ ...prev, error: err }));
+        };
+
+        setResult({ ...IDLE_CONFIRMATION, status: 'pending' });
+        // Subscribe before querying so a block landing in between isn't missed
+        unsubscribe = subscribeTransactionInclusion(client, txId, settle, fail);
+        fetchTransactionInclusion(client, txId).then(settle, fail);
+
+        return () => {
+            active = false;
+            unsubscribe();
+        };
+    }, [client, txId]);
+
+    return result;
+};
@@ -6,37 +6,102 @@ import React, {
     useState,
     useContext,
     ReactNode,
-    useCallback,
     useEffect,
-    useRef
+    useMemo,
+    useRef,
+    useSyncExternalStore
 } from 'react';
 import {
-    DAppConnectorAPI,
     DAppConnectorWalletAPI,
     DAppConnectorWalletState,
-    ServiceUriConfig,
-    APIError,
-    ErrorCodes
+    ServiceUriConfig
 } from '@midnight-ntwrk/dapp-connector-api';
-
-const STATUS_POLLING_INTERVAL_MS = 3000;
-const STATE_POLLING_INTERVAL_MS = 5000;
-const APPROVAL_POLLING_INTERVAL_MS = 500;
-const APPROVAL_POLLING_TIMEOUT_MS = 15000; // 15 seconds
+import { DiscoveredWallet } from '@/lib/walletDiscovery';
+import {
+    TrackedTransaction,
+    SubmitTransactionOptions,
+    WalletTransaction
+} from '@/lib/transactions';
+import { WalletError } from '@/lib/walletErrors';
+import { PollingIntervals } from '@/lib/watcher';
+import { NetworkProfile } from '@/lib/networks';
+import { AutoReconnectPolicy } from '@/lib/walletSession';
+import {
+    BalanceSource,
+    DEFAULT_TOKEN_METADATA,
+    TokenBalances,
+    TokenMetadata,
+    describeToken,
+    formatTokenAmount
+} from '@/lib/balances';
+import {
+    WalletEvent,
+    WalletEventListener,
+    WalletEventOf,
+    WalletEventType
+} from '@/lib/walletEvents';
+import { WalletLogger } from '@/lib/walletLogger';
+import { ProverHealthOptions, ProverStatus } from '@/lib/proverHealth';
+import { ConnectionAttempt, DiagnosticsReport } from '@/lib/diagnostics';
+import { RequirementResult, WalletRequirement, evaluateRequirement } from '@/lib/walletRequirements';
+import { TransactionReview, TransactionReviewOptions } from '@/lib/transactionReview';
+import { WalletHydrationState } from '@/lib/walletHydration';
+import { QueuedSubmission, SubmissionQueueOptions } from '@/lib/submissionQueue';
+import {
+    MidnightWalletStore,
+    ReviewTransactionOptions,
+    ServerSessionState,
+    WalletStatus,
+    createMidnightWalletStore
+} from '@/lib/walletStore';
 
 // --- Context State Definition ---
 interface ReactiveMidnightWalletContextState {
+    status: WalletStatus;
     walletApi: DAppConnectorWalletAPI | null;
     serviceUris: ServiceUriConfig | null;
     walletState: DAppConnectorWalletState | null;
     isConnected: boolean;
     isConnecting: boolean;
     isCheckingStatus: boolean;
-    error: string | null;
+    error: WalletError | null;
     infoMessage: string | null; // For guiding user during -3 error approval wait
     walletName: string | null;
-    connectWallet: () => Promise<void>;
+    availableWallets: DiscoveredWallet[]; // Every connector found under window.midnight
+    selectedWalletKey: string | null;     // Remembered across sessions
+    selectWallet: (walletKey: string) => void;
+    refreshWallets: () => DiscoveredWallet[];
+    connectWallet: (walletKey?: string) => Promise<void>;
     disconnectWallet: () => void;
+    transactions: TrackedTransaction[]; // Newest first
+    submitTransaction: (tx: WalletTransaction, options?: SubmitTransactionOptions) => Promise<TrackedTransaction>;
+    clearTransactions: () => void;
+    submissions: QueuedSubmission[];    // Proven transactions waiting for, or past, submission; oldest first
+    retrySubmission: (id: string) => void;
+    discardSubmission: (id: string) => Promise<void>;
+    clearSubmissions: () => void;
+    pendingReview: TransactionReview | null;   // Shown by TransactionReviewDialog until approved or rejected
+    reviewTransaction: (tx: unknown, options?: ReviewTransactionOptions) => Promise<boolean>;
+    approveReview: () => void;
+    rejectReview: () => void;
+    expectedNetwork: NetworkProfile | null;
+    networkId: string | null;    // Network the wallet's services belong to ('unknown' if unrecognised)
+    networkMismatch: boolean;    // Wallet is on a different network than expectedNetwork
+    serverSession: ServerSessionState; // Signed session with the app's server, see sessionEndpoint
+    signIn: () => Promise<boolean>;
+    signOut: () => Promise<void>;
+    balances: TokenBalances | null;    // Per token type, in the smallest unit; null while unknown
+    refreshBalances: () => Promise<void>;
+    onWalletEvent: (listener: WalletEventListener) => () => void; // Prefer useWalletEvent in components
+    logger: WalletLogger;        // The provider's logger, for app code that wants the same output
+    proverStatus: ProverStatus;  // Which proof server to use and how it's doing
+    isDegraded: boolean;         // Connected, but proving is slow or unavailable
+    checkProver: () => Promise<void>;
+    connectionAttempts: ConnectionAttempt[];   // Recent connects and silent checks, newest first
+    collectDiagnostics: () => Promise<DiagnosticsReport>;
+    hydrated: boolean;           // The first connection check on this client has settled
+    optimisticState: WalletHydrationState | null; // initialState, shown while the first check runs
+    displayAddress: string | null; // The connected address, or the optimistic one until hydrated
 }
 
 // --- Context Creation ---
@@ -45,302 +110,117 @@ const ReactiveMidnightWalletContext = createContext<ReactiveMidnightWalletContex
 // --- Provider Props ---
 interface ReactiveMidnightWalletProviderProps {
     children: ReactNode;
-    targetWalletName?: string;
+    defaultWalletKey?: string; // Used when the user hasn't picked a wallet yet
+    pollingIntervals?: Partial<PollingIntervals>;
+    changeDetection?: 'auto' | 'poll'; // 'auto' uses pushed state updates when the wallet offers them
+    expectedNetwork?: string | NetworkProfile; // Preset id ('testnet', 'standalone') or a custom profile
+    autoReconnect?: AutoReconnectPolicy;       // 'always' | 'remembered' (default) | 'never'
+    sessionEndpoint?: string | null;           // Route handlers for signIn(), e.g. DEFAULT_SESSION_ENDPOINT
+    balanceSource?: BalanceSource;             // Where balances come from; defaults to the wallet itself
+    logger?: WalletLogger;                     // Replaces the console output, e.g. createWalletLogger({ level: 'warn' })
+    proverHealth?: Partial<ProverHealthOptions> | false; // Fallback prover URIs and probe timing; false disables the checks
+    transactionReview?: TransactionReviewOptions | boolean; // Confirm a decoded summary before the wallet sees each transaction
+    submissionQueue?: Partial<SubmissionQueueOptions> | false; // Retry policy and storage for proven transactions; read once
+    // Lifecycle callbacks; onEvent receives every event, e.g. for analytics
+    onConnected?: (event: WalletEventOf<'connected'>) => void;
+    onDisconnected?: (event: WalletEventOf<'disconnected'>) => void;
+    onAccountChanged?: (event: WalletEventOf<'accountChanged'>) => void;
+    onApprovalTimeout?: (event: WalletEventOf<'approvalTimeout'>) => void;
+    onError?: (event: WalletEventOf<'error'>) => void;
+    onEvent?: (event: WalletEvent) => void;
+    initialState?: WalletHydrationState | null; // Rendered until the first check settles, e.g. from getWalletHydrationState()
+    store?: MidnightWalletStore;       // Share a store with non-React code; one is created otherwise
 }
 
 // --- Provider Component ---
+// A thin binding over MidnightWalletStore: all connection logic lives in the store
 export const ReactiveMidnightWalletProvider: React.FC<ReactiveMidnightWalletProviderProps> = ({
     children,
-    targetWalletName = 'mnLace'
+    defaultWalletKey,
+    pollingIntervals,
+    changeDetection,
+    expectedNetwork,
+    autoReconnect,
+    sessionEndpoint,
+    balanceSource,
+    logger,
+    proverHealth,
+    transactionReview,
+    submissionQueue,
+    onConnected,
+    onDisconnected,
+    onAccountChanged,
+    onApprovalTimeout,
+    onError,
+    onEvent,
+    initialState,
+    store: externalStore
 }) => {
-    // --- State Management ---
-    const [walletApi, setWalletApi] = useState<DAppConnectorWalletAPI | null>(null);
-    const [serviceUris, setServiceUris] = useState<ServiceUriConfig | null>(null);
-    const [walletState, setWalletState] = useState<DAppConnectorWalletState | null>(null);
-    const [isConnecting, setIsConnecting] = useState<boolean>(false);
-    const [isCheckingStatus, setIsCheckingStatus] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null);
-    const [infoMessage, setInfoMessage] = useState<string | null>(null); // To guide user
-    const [walletName, setWalletName] = useState<string | null>(null);
-
-    const isConnected = !!walletApi;
-    const statusPollIntervalRef = useRef<NodeJS.Timeout | null>(null);
-    const statePollIntervalRef = useRef<NodeJS.Timeout | null>(null);
-    const approvalPollIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-    // --- Get Connector ---
-    const getConnector = useCallback((): DAppConnectorAPI | null => {
-        if (typeof window !== 'undefined' && window.midnight && window.midnight[targetWalletName]) {
-            return window.midnight[targetWalletName];
-        }
-        return null;
-    }, [targetWalletName]);
-
-    // --- Clear All Intervals ---
-    const clearAllIntervals = useCallback(() => {
-        if (statusPollIntervalRef.current) clearInterval(statusPollIntervalRef.current);
-        if (statePollIntervalRef.current) clearInterval(statePollIntervalRef.current);
-        if (approvalPollIntervalRef.current) clearInterval(approvalPollIntervalRef.current);
-        statusPollIntervalRef.current = null;
-        statePollIntervalRef.current = null;
-        approvalPollIntervalRef.current = null;
-    }, []);
-
-     // --- Internal Function to Fetch State/URIs ---
-     const _fetchDetails = useCallback(async (connector: DAppConnectorAPI, enabledApi: DAppConnectorWalletAPI) => {
-        console.log("Fetching wallet state and URIs...");
-        try {
-            const [fetchedState, fetchedUris] = await Promise.all([
-                enabledApi.state(),
-                connector.serviceUriConfig()
-            ]);
-             setWalletState(fetchedState);
-             setServiceUris(fetchedUris);
-             console.log(`Details fetched. Address: ${fetchedState.address}`);
-             return true;
-        } catch (fetchErr) {
-             console.error("Error fetching details after enable:", fetchErr);
-             setError("Connected, but failed to fetch wallet details.");
-             setWalletState(null);
-             setServiceUris(null);
-             return false;
-        }
-    }, []);
-
-
-    // --- Establish Connection Logic (Internal) ---
-    // Tries to get API, then fetches details. Returns success status.
-    const _establishConnection = useCallback(async (connector: DAppConnectorAPI, isInitialCheck: boolean = false): Promise<boolean> => {
-        console.log(`_establishConnection called (isInitialCheck: ${isInitialCheck})`);
-        // Don't clear error/info here, let the caller manage UI state
-
-        try {
-            const enabledApi = await connector.enable();
-            console.log("enable() successful.");
-            setWalletApi(enabledApi);
-            setWalletName(connector.name);
-
-            // Fetch details and update state
-            const detailsFetched = await _fetchDetails(connector, enabledApi);
-
-            // Only consider fully connected if details were also fetched
-            if (detailsFetched) {
-                 setError(null); // Clear errors on full success
-                 setInfoMessage(null);
-                 return true; // Full success
-            } else {
-                 // State already updated with error by _fetchDetails
-                 return false; // Partial success (API obtained, but details failed)
-            }
+    const [ownStore] = useState(() => externalStore ?? createMidnightWalletStore({ defaultWalletKey, pollingIntervals, changeDetection, expectedNetwork, autoReconnect, sessionEndpoint, balanceSource, logger, proverHealth, transactionReview, initialState, submissionQueue }));
+    const store = externalStore ?? ownStore;
 
-        } catch (err) {
-            console.error("Error during _establishConnection:", err);
-            const apiError = err as APIError;
-            const code = (err as { code?: number | string }).code;
-            const msg = (err instanceof Error ? err.message : '') || apiError?.reason || 'Unknown connection error';
-
-            // Reset partial state from this attempt
-            setWalletApi(null); setServiceUris(null); setWalletState(null); setWalletName(null);
-
-            const isApprovalError = code === -3 || String(msg).includes('enable() first');
-
-            if (isApprovalError && !isInitialCheck) {
-                // Signal specifically that approval polling should start for manual attempts
-                console.warn("Detected -3 error during manual connection attempt.");
-                return false; // Indicate failure that should trigger polling
-            } else if (!isInitialCheck) {
-                // For other errors during manual attempt, set the error state
-                setError(`Connection failed: ${msg}${code ? ` (Code: ${code})` : ''}`);
-                return false; // Indicate failure
-            } else {
-                 // For errors during initial check (including -3), fail silently
-                 console.log("Initial check failed to establish connection silently.");
-                 return false;
-            }
-        }
-    }, [targetWalletName, _fetchDetails]); // Added _fetchDetails
-
-    // --- Start Polling for Approval after -3 Error ---
-    const _startApprovalPolling = useCallback((connector: DAppConnectorAPI) => {
-        clearAllIntervals();
-        // Set info message *before* clearing intervals potentially set by _establishConnection error
-        setInfoMessage(`Connection prompt likely appeared in ${connector.name}. Please approve it. Checking status...`);
-        // Keep isConnecting true
-
-        let attempts = 0;
-        const maxAttempts = APPROVAL_POLLING_TIMEOUT_MS / APPROVAL_POLLING_INTERVAL_MS;
-
-        approvalPollIntervalRef.current = setInterval(async () => {
-            attempts++;
-            console.log(`Polling for approval: attempt ${attempts}`);
-            if (attempts > maxAttempts) {
-                console.log("Approval polling timed out.");
-                clearAllIntervals();
-                setError("Connection timed out. Did you approve the request in the wallet?");
-                setInfoMessage(null);
-                setIsConnecting(false); // Stop loading
-                return;
-            }
-
-            try {
-                const enabled = await connector.isEnabled();
-                console.log(`Approval poll check: isEnabled() = ${enabled}`);
-                if (enabled) {
-                    console.log("Approval detected! Re-attempting connection.");
-                    clearAllIntervals(); // Stop this poll
-                    setInfoMessage("Approval detected. Finalizing connection...");
-                    // Try establishing connection again
-                    const success = await _establishConnection(connector, false);
-                    setInfoMessage(null); // Clear info message now
-                    setIsConnecting(false); // Stop loading
-                }
-            } catch (pollErr) {
-                console.error("Error during approval polling:", pollErr);
-                clearAllIntervals();
-                setError("An error occurred while checking wallet approval status.");
-                setInfoMessage(null);
-                setIsConnecting(false);
-            }
-        }, APPROVAL_POLLING_INTERVAL_MS);
-
-    }, [clearAllIntervals, _establishConnection]);
-
-    // --- Manual Connect Function (Public) ---
-    const connectWallet = useCallback(async () => {
-        if (isConnecting || isConnected) return;
-
-        console.log("Manual connectWallet triggered.");
-        setIsConnecting(true);
-        setError(null);
-        setInfoMessage(null);
-        clearAllIntervals(); // Stop background polling
-
-        const connector = getConnector();
-        if (!connector) {
-            setError(`Wallet connector '${targetWalletName}' not found.`);
-            setIsConnecting(false);
-            return;
-        }
-
-        const success = await _establishConnection(connector, false);
-
-        if (!success && !error) {
-             // Failure without a specific error message implies the -3 code occurred
-             _startApprovalPolling(connector);
-             // Leave isConnecting = true; polling will set it false
-        } else {
-             // Success or other error occurred, stop the manual connecting indicator
-             setIsConnecting(false);
-        }
+    const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot);
 
-    }, [isConnected, isConnecting, getConnector, targetWalletName, _establishConnection, _startApprovalPolling, error, clearAllIntervals]);
-
-    // --- Disconnect Function (Public) ---
-    const disconnectWallet = useCallback(() => {
-        // ... (same as before) ...
-        console.log("Disconnecting wallet...");
-        clearAllIntervals();
-        setWalletApi(null);
-        setServiceUris(null);
-        setWalletState(null);
-        setError(null);
-        setInfoMessage(null);
-        setIsConnecting(false);
-        setIsCheckingStatus(false);
-        setWalletName(null);
-    }, [clearAllIntervals]);
-
-    // --- Initial Load Check ---
+    // --- Runtime Options ---
+    // The store ignores calls that don't change anything, so an inline pollingIntervals object is fine
     useEffect(() => {
-        console.log("Effect: Initial load check mounting.");
-        setIsCheckingStatus(true);
-        const connector = getConnector();
-
-        if (connector) {
-            connector.isEnabled()
-                .then(enabled => {
-                    console.log(`Initial isEnabled: ${enabled}`);
-                    if (enabled) {
-                        // Attempt to establish connection silently
-                        return _establishConnection(connector, true);
-                    }
-                    return false;
-                })
-                .catch(err => {
-                    console.error("Error during initial isEnabled check:", err);
-                })
-                .finally(() => {
-                    setIsCheckingStatus(false); // Initial check complete
-                });
-        } else {
-            console.log("No wallet connector found on mount.");
-            setIsCheckingStatus(false);
+        store.configure({ defaultWalletKey, pollingIntervals, changeDetection, expectedNetwork, autoReconnect, balanceSource, logger, proverHealth, transactionReview });
+    }, [store, defaultWalletKey, pollingIntervals, changeDetection, expectedNetwork, autoReconnect, balanceSource, logger, proverHealth, transactionReview]);
+
+    // --- Lifecycle Callbacks ---
+    // Read through a ref so inline callbacks don't resubscribe on every render
+    const callbacksRef = useRef({ onConnected, onDisconnected, onAccountChanged, onApprovalTimeout, onError, onEvent });
+    callbacksRef.current = { onConnected, onDisconnected, onAccountChanged, onApprovalTimeout, onError, onEvent };
+
+    useEffect(() => store.onEvent((event) => {
+        const callbacks = callbacksRef.current;
+        switch (event.type) {
+            case 'connected': callbacks.onConnected?.(event); break;
+            case 'disconnected': callbacks.onDisconnected?.(event); break;
+            case 'accountChanged': callbacks.onAccountChanged?.(event); break;
+            case 'approvalTimeout': callbacks.onApprovalTimeout?.(event); break;
+            case 'error': callbacks.onError?.(event); break;
         }
-        // Cleanup function for safety
-        return () => { clearAllIntervals() };
-    }, [getConnector, _establishConnection, clearAllIntervals]); // Dependencies
+        callbacks.onEvent?.(event);
+    }), [store]);
 
-    // --- Background Polling Effect ---
+    // --- Store Lifecycle ---
     useEffect(() => {
-        clearAllIntervals(); // Clear any previous intervals first
-
-        if (isConnected && walletApi) {
-            console.log("Effect: Starting background status & state polling.");
-            setIsCheckingStatus(true); // Use this to indicate background activity
-
-            // Poll isEnabled
-            statusPollIntervalRef.current = setInterval(async () => {
-                const connector = getConnector();
-                if (!connector) { disconnectWallet(); return; }
-                try {
-                    if (!(await connector.isEnabled())) {
-                        console.log("Background poll detected wallet disabled. Disconnecting.");
-                        disconnectWallet();
-                    }
-                } catch (pollError) { console.error("Error polling isEnabled:", pollError); disconnectWallet(); }
-            }, STATUS_POLLING_INTERVAL_MS);
-
-            // Poll state
-            statePollIntervalRef.current = setInterval(async () => {
-                 const currentWalletApi = walletApi;
-                 if (currentWalletApi) {
-                    try {
-                        const newState = await currentWalletApi.state();
-                        if (newState.address !== (walletState ? walletState.address : null)) {
-                            console.log("Background poll detected account switch. Updating state.");
-                            setWalletState(newState);
-                        }
-                    } catch (pollError) { console.error("Error polling wallet state:", pollError); disconnectWallet(); }
-                 }
-            }, STATE_POLLING_INTERVAL_MS);
-
-            setIsCheckingStatus(false); // Background polling is running, not actively 'checking' in terms of UI blocking
-
-        } else {
-             setIsCheckingStatus(false); // Ensure false if not connected
-        }
-
-        // Cleanup function
-        return () => {
-            console.log("Effect cleanup: Clearing background polling intervals.");
-            clearAllIntervals();
-        };
-    }, [isConnected, walletApi, walletState?.address, getConnector, disconnectWallet, clearAllIntervals]);
+        store.start();
+        return () => store.stop();
+    }, [store]);
 
     // --- Context Value ---
-    const value: ReactiveMidnightWalletContextState = {
-        walletApi,
-        serviceUris,
-        walletState,
-        isConnected,
-        isConnecting,
-        isCheckingStatus,
-        error,
-        infoMessage, // Provide info message for the -3 flow
-        walletName,
-        connectWallet,
-        disconnectWallet,
-    };
+    const value = useMemo<ReactiveMidnightWalletContextState>(() => ({
+        ...snapshot,
+        isConnected: snapshot.status === 'connected',
+        isConnecting: snapshot.status === 'connecting' || snapshot.status === 'awaitingApproval',
+        isCheckingStatus: snapshot.status === 'checking',
+        isDegraded: snapshot.status === 'connected'
+            && (snapshot.proverStatus.state === 'degraded' || snapshot.proverStatus.state === 'unavailable'),
+        displayAddress: snapshot.status === 'connected'
+            ? snapshot.walletState?.address ?? null
+            : snapshot.optimisticState?.address ?? null,
+        selectWallet: store.selectWallet,
+        refreshWallets: store.refreshWallets,
+        connectWallet: store.connect,
+        disconnectWallet: store.disconnect,
+        submitTransaction: store.submitTransaction,
+        clearTransactions: store.clearTransactions,
+        retrySubmission: store.retrySubmission,
+        discardSubmission: store.discardSubmission,
+        clearSubmissions: store.clearSubmissions,
+        reviewTransaction: store.reviewTransaction,
+        approveReview: store.approveReview,
+        rejectReview: store.rejectReview,
+        signIn: store.signIn,
+        signOut: store.signOut,
+        refreshBalances: store.refreshBalances,
+        onWalletEvent: store.onEvent,
+        logger: store.logger,
+        checkProver: store.checkProver,
+        collectDiagnostics: store.collectDiagnostics,
+    }), [snapshot, store]);
 
     // --- Render Provider ---
     return (
@@ -357,4 +237,96 @@ export const useReactiveMidnightWallet = (): ReactiveMidnightWalletContextState
         throw new Error('useReactiveMidnightWallet must be used within a ReactiveMidnightWalletProvider');
     }
     return context;
-};
\ No newline at end of file
+};
+
+// --- Event Hook ---
+// Runs the handler for every event of one type while the component is mounted
+export const useWalletEvent = <T extends WalletEventType>(type: T, handler: (event: WalletEventOf<T>) => void) => {
+    const { onWalletEvent } = useReactiveMidnightWallet();
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+
+    useEffect(() => onWalletEvent((event) => {
+        if (event.type === type) handlerRef.current(event as WalletEventOf<T>);
+    }), [onWalletEvent, type]);
+};
+
+// --- Transactions Hook ---
+// Progress and history of transactions sent through submitTransaction
+export const useTransactions = () => {
+    const { transactions, submitTransaction, clearTransactions } = useReactiveMidnightWallet();
+    const pending = transactions.filter(t => t.stage !== 'submitted' && t.stage !== 'failed');
+    return {
+        transactions,
+        pending,
+        latest: transactions[0] ?? null,
+        submitTransaction,
+        clearTransactions,
+    };
+};
+
+// --- Submission Queue Hook ---
+// Proven transactions the wallet hasn't accepted yet, and those that ran out of retries
+export const useSubmissionQueue = () => {
+    const { submissions, retrySubmission, discardSubmission, clearSubmissions } = useReactiveMidnightWallet();
+    const pending = submissions.filter(s => s.state === 'queued' || s.state === 'submitting' || s.state === 'retrying');
+    const failed = submissions.filter(s => s.state === 'failed');
+    return {
+        submissions,
+        pending,
+        failed,
+        retrySubmission,
+        discardSubmission,
+        clearSubmissions,
+    };
+};
+
+// --- Balances Hook ---
+// One entry per token the wallet holds, known tokens first (tokens adds to the built-in metadata), formatted with the token's decimals.
+// isAvailable stays false until a read succeeds, and for wallets that don't report balances.
+export interface TokenBalance extends TokenMetadata {
+    tokenType: string;
+    amount: bigint;
+    formatted: string;      // e.g. "1,250.5"
+}
+
+// A fresh {} default would change every render and rebuild the list each time
+const NO_TOKENS: Record<string, TokenMetadata> = {};
+
+export const useBalances = (tokens: Record<string, TokenMetadata> = NO_TOKENS) => {
+    const { balances, refreshBalances } = useReactiveMidnightWallet();
+    const list = useMemo<TokenBalance[]>(() => {
+        const metadata = { ...DEFAULT_TOKEN_METADATA, ...tokens };
+        return Object.entries(balances ?? {})
+            .map(([tokenType, amount]) => {
+                const token = describeToken(tokenType, metadata);
+                return { tokenType, amount, ...token, formatted: formatTokenAmount(amount, token.decimals) };
+            })
+            .sort((a, b) => Number(b.tokenType in metadata) - Number(a.tokenType in metadata) || a.tokenType.localeCompare(b.tokenType));
+    }, [balances, tokens]);
+    return {
+        balances: list,
+        isAvailable: balances !== null,
+        refreshBalances,
+    };
+};
+
+// --- Requirement Hook ---
+// Checks the wallet against a requirement on every render. status is 'checking' until the
+// initial connection check settles, so callers can hold back gated content instead of flashing it.
+export const useRequireWallet = (requirement: WalletRequirement = {}) => {
+    const { status, walletState, networkId, availableWallets, selectedWalletKey, connectWallet } = useReactiveMidnightWallet();
+    const apiVersion = availableWallets.find(w => w.key === selectedWalletKey)?.apiVersion ?? null;
+    const result: RequirementResult = evaluateRequirement(requirement, {
+        status,
+        address: walletState?.address ?? null,
+        networkId,
+        apiVersion,
+    });
+    return {
+        ...result,
+        isMet: result.status === 'met',
+        isChecking: result.status === 'checking',
+        connectWallet,
+    };
+};
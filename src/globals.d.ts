@@ -1,11 +1,13 @@
 // src/globals.d.ts
-import type { DAppConnectorAPI } from '@midnight-ntwrk/dapp-connector-api';
 
 declare global {
   interface Window {
+    // Whatever extensions inject: any connector version, or not a connector at all.
+    // discoverWallets() and lookupConnector() check each entry and wrap it in its version adapter.
     midnight?: {
-      [key: string]: DAppConnectorAPI | undefined;
+      [key: string]: unknown;
     };
   }
 }
-// export {}; // Ensure module mode
\ No newline at end of file
+
+export {};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DAppConnectorWalletAPI, DAppConnectorWalletState } from '@midnight-ntwrk/dapp-connector-api';
+import { NATIVE_TOKEN_TYPE, describeToken, formatTokenAmount, walletBalanceSource } from '@/lib/balances';
+import { MOCK_ACCOUNTS } from '@/mocks/mockWallet';
+
+describe('formatTokenAmount', () => {
+    it('places the decimal point and groups thousands', () => {
+        expect(formatTokenAmount(BigInt(1_250_500_000), 6)).toBe('1,250.5');
+        expect(formatTokenAmount(BigInt(42), 6)).toBe('0.000042');
+        expect(formatTokenAmount(BigInt(3_000_000), 6)).toBe('3');
+        expect(formatTokenAmount(BigInt(-1_500_000), 6)).toBe('-1.5');
+        expect(formatTokenAmount(BigInt(1234567), 0)).toBe('1,234,567');
+    });
+
+    it('stays exact beyond Number precision and can truncate the fraction', () => {
+        expect(formatTokenAmount(BigInt('123456789012345678901234'), 6)).toBe('123,456,789,012,345,678.901234');
+        expect(formatTokenAmount(BigInt(1_234_567), 6, 2)).toBe('1.23');
+    });
+});
+
+describe('describeToken', () => {
+    it('knows tDUST and shortens unknown token types', () => {
+        expect(describeToken(NATIVE_TOKEN_TYPE)).toEqual({ symbol: 'tDUST', decimals: 6 });
+        expect(describeToken('02' + 'ab'.repeat(33))).toEqual({ symbol: '02abab…abab', decimals: 0 });
+    });
+});
+
+describe('walletBalanceSource', () => {
+    const context = (walletApi: object, walletState: object = MOCK_ACCOUNTS[0]) => ({
+        walletApi: walletApi as DAppConnectorWalletAPI,
+        walletState: walletState as DAppConnectorWalletState,
+        serviceUris: null,
+    });
+
+    it('reads a balances() method and normalises its amounts to bigints', async () => {
+        const walletApi = { balances: async () => ({ [NATIVE_TOKEN_TYPE]: '5000000' }) };
+        expect(await walletBalanceSource(context(walletApi))).toEqual({ [NATIVE_TOKEN_TYPE]: BigInt(5_000_000) });
+    });
+
+    it('falls back to a balances map in the wallet state, then to null', async () => {
+        const walletState = { ...MOCK_ACCOUNTS[0], balances: { [NATIVE_TOKEN_TYPE]: 7 } };
+        expect(await walletBalanceSource(context({}, walletState))).toEqual({ [NATIVE_TOKEN_TYPE]: BigInt(7) });
+        expect(await walletBalanceSource(context({}))).toBeNull();
+    });
+});
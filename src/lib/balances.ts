@@ -0,0 +1,69 @@
+// src/lib/balances.ts
+// Token balances for the connected wallet: where they come from, and how to display them.
+// Amounts are bigints in the token's smallest unit, keyed by token type (hex).
+import {
+    DAppConnectorWalletAPI,
+    DAppConnectorWalletState,
+    ServiceUriConfig
+} from '@midnight-ntwrk/dapp-connector-api';
+
+export type TokenBalances = Record<string, bigint>;
+
+// --- Token Metadata ---
+// Same value as nativeToken() from the ledger, without loading its WASM in the browser bundle
+export const NATIVE_TOKEN_TYPE = '02' + '0'.repeat(66);
+
+export interface TokenMetadata {
+    symbol: string;
+    decimals: number;
+}
+
+// 1 tDUST = 1,000,000 specks
+export const DEFAULT_TOKEN_METADATA: Record<string, TokenMetadata> = {
+    [NATIVE_TOKEN_TYPE]: { symbol: 'tDUST', decimals: 6 },
+};
+
+// Unknown tokens show a shortened type and whole units
+export const describeToken = (tokenType: string, metadata: Record<string, TokenMetadata> = DEFAULT_TOKEN_METADATA): TokenMetadata =>
+    metadata[tokenType] ?? { symbol: `${tokenType.slice(0, 6)}…${tokenType.slice(-4)}`, decimals: 0 };
+
+// --- Formatting ---
+// Exact for any size of amount: no floating point involved
+export const formatTokenAmount = (amount: bigint, decimals: number, maxFractionDigits = decimals): string => {
+    const negative = amount < BigInt(0);
+    const abs = negative ? -amount : amount;
+    const digits = abs.toString().padStart(decimals + 1, '0');
+    const whole = digits.slice(0, digits.length - decimals).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    const fraction = digits.slice(digits.length - decimals, digits.length - decimals + maxFractionDigits).replace(/0+$/, '');
+    return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+// --- Sources ---
+// Apps can plug in their own source. There is no indexer-backed default: shielded coins can only be
+// found with the wallet's viewing key, and the v2 connector never gives it to the dApp.
+export interface BalanceSourceContext {
+    walletApi: DAppConnectorWalletAPI;
+    walletState: DAppConnectorWalletState;
+    serviceUris: ServiceUriConfig | null;
+}
+
+export type BalanceSource = (context: BalanceSourceContext) => Promise<TokenBalances | null>;
+
+// Values crossing the extension boundary may arrive as strings or numbers
+type RawBalances = Record<string, bigint | string | number>;
+
+export const normalizeBalances = (raw: RawBalances): TokenBalances =>
+    Object.fromEntries(Object.entries(raw).map(([tokenType, amount]) => [tokenType, BigInt(amount)]));
+
+// Not part of the v2 connector API. Wallets built on the wallet SDK may expose balances()
+// or include its `balances` map in state(); either is used when present.
+interface BalanceCapableWalletAPI {
+    balances?: () => Promise<RawBalances>;
+}
+
+export const walletBalanceSource: BalanceSource = async ({ walletApi, walletState }) => {
+    const { balances } = walletApi as DAppConnectorWalletAPI & BalanceCapableWalletAPI;
+    if (typeof balances === 'function') return normalizeBalances(await balances.call(walletApi));
+    const fromState = (walletState as DAppConnectorWalletState & { balances?: RawBalances }).balances;
+    return fromState ? normalizeBalances(fromState) : null;
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { DAppConnectorAPI, DAppConnectorWalletState } from '@midnight-ntwrk/dapp-connector-api';
+import { compareApiVersions, isVersionInRange, negotiateConnector } from '@/lib/connectorAdapters';
+import { MOCK_ACCOUNTS, MOCK_SERVICE_URIS } from '@/mocks/mockWallet';
+
+// A bare connector at the given version; enable() hands out walletApi
+const rawConnector = (apiVersion: unknown, walletApi: Record<string, unknown>, overrides: Record<string, unknown> = {}) => ({
+    name: 'Test Wallet',
+    apiVersion,
+    isEnabled: async () => true,
+    serviceUriConfig: async () => MOCK_SERVICE_URIS,
+    enable: async () => walletApi,
+    ...overrides,
+}) as unknown as DAppConnectorAPI;
+
+const walletApiWith = (state: unknown, extra: Record<string, unknown> = {}) => ({
+    state: async () => state,
+    submitTransaction: async () => 'tx-1',
+    ...extra,
+});
+
+const adapt = (connector: DAppConnectorAPI) => {
+    const negotiated = negotiateConnector(connector, 'Test Wallet');
+    if (!negotiated.connector) throw new Error(negotiated.error.message);
+    return negotiated;
+};
+
+describe('compareApiVersions', () => {
+    it('compares numerically and ignores pre-release suffixes', () => {
+        expect(compareApiVersions('1.10.0', '1.9.0')).toBe(1);
+        expect(compareApiVersions('1.2', '1.2.0')).toBe(0);
+        expect(compareApiVersions('2.0.0-beta.1', '2.0.0')).toBe(0);
+        expect(compareApiVersions('0.9.9', '1.0.0')).toBe(-1);
+    });
+
+    it('only puts well-formed versions in a range', () => {
+        const range = { min: '1.0.0', below: '2.0.0' };
+        expect(isVersionInRange('1.4.2', range)).toBe(true);
+        expect(isVersionInRange('2.0.0', range)).toBe(false);
+        expect(isVersionInRange('latest', range)).toBe(false);
+    });
+});
+
+describe('negotiateConnector', () => {
+    it('picks the adapter for each supported major version', () => {
+        expect(adapt(rawConnector('1.1.0', walletApiWith(MOCK_ACCOUNTS[0]))).adapter).toBe('legacy');
+        expect(adapt(rawConnector('2.0.0', walletApiWith(MOCK_ACCOUNTS[0]))).adapter).toBe('current');
+        expect(adapt(rawConnector('2.4.1', walletApiWith(MOCK_ACCOUNTS[0]))).adapter).toBe('current');
+    });
+
+    it('explains unsupported and missing versions', () => {
+        expect(negotiateConnector(rawConnector('3.0.0', {}), 'Test Wallet').error).toMatchObject({
+            kind: 'UnsupportedVersion',
+            message: "Test Wallet uses connector API v3.0.0, which this DApp doesn't support.",
+            detail: 'Supported connector API versions: >=1.0.0 <3.0.0',
+        });
+        expect(negotiateConnector(rawConnector(undefined, {}), 'Test Wallet').error?.message)
+            .toBe("Test Wallet doesn't report a connector API version, so this DApp can't use it.");
+    });
+
+    it('keeps optional wallet capabilities reachable through the adapter', async () => {
+        const signData = vi.fn(async (message: string) => ({ signature: `signed:${message}`, verifyingKey: 'vk' }));
+        const { connector } = adapt(rawConnector('2.0.0', walletApiWith(MOCK_ACCOUNTS[0], { signData })));
+
+        const api = await connector.enable() as unknown as { signData: typeof signData };
+
+        expect(await api.signData('hi')).toEqual({ signature: 'signed:hi', verifyingKey: 'vk' });
+    });
+
+    it('checks the shape of state, service URIs and isEnabled()', async () => {
+        const { connector } = adapt(rawConnector('2.0.0', walletApiWith({ address: 'mn_addr' }), {
+            isEnabled: async () => 'yes',
+            serviceUriConfig: async () => ({ ...MOCK_SERVICE_URIS, indexerUri: undefined }),
+        }));
+
+        await expect(connector.isEnabled()).rejects.toThrow('Test Wallet returned string from isEnabled(), expected a boolean.');
+        await expect(connector.serviceUriConfig()).rejects.toThrow("Test Wallet returned invalid service URIs: missing 'indexerUri'.");
+        const api = await connector.enable();
+        await expect(api.state()).rejects.toThrow("missing 'coinPublicKey', 'encryptionPublicKey'");
+    });
+
+    it('rejects an enable() result that is not a wallet API', async () => {
+        const { connector } = adapt(rawConnector('2.0.0', {}, { enable: async () => null }));
+
+        await expect(connector.enable()).rejects.toThrow('Test Wallet returned an invalid wallet API from enable()');
+    });
+
+    it('fills current fields from legacy ones and composes balanceAndProveTransaction for 1.0 wallets', async () => {
+        const legacyState = { addressLegacy: 'hex-address', coinPublicKeyLegacy: 'hex-cpk', encryptionPublicKeyLegacy: 'hex-epk' };
+        const balanceTransaction = vi.fn(async () => ({ type: 'TransactionToProve', transaction: 'balanced' }));
+        const proveTransaction = vi.fn(async () => 'proven');
+        const { connector } = adapt(rawConnector('1.0.0', walletApiWith(legacyState, { balanceTransaction, proveTransaction })));
+
+        const api = await connector.enable();
+
+        expect(await api.state()).toMatchObject({ address: 'hex-address', coinPublicKey: 'hex-cpk', encryptionPublicKey: 'hex-epk' });
+        expect(await api.balanceAndProveTransaction('tx' as never, [])).toBe('proven');
+        expect(proveTransaction).toHaveBeenCalledWith({ type: 'TransactionToProve', transaction: 'balanced' });
+    });
+
+    it('drops pushed states that fail the shape check', async () => {
+        let push: (state: unknown) => void = () => {};
+        const onStateChange = (listener: (state: unknown) => void) => { push = listener; return () => {}; };
+        const { connector } = adapt(rawConnector('2.0.0', walletApiWith(MOCK_ACCOUNTS[0], { onStateChange })));
+        const api = await connector.enable() as unknown as { onStateChange: typeof onStateChange };
+        const received: DAppConnectorWalletState[] = [];
+
+        api.onStateChange(state => received.push(state as DAppConnectorWalletState));
+        push({ address: 'partial' });
+        push(MOCK_ACCOUNTS[1]);
+
+        expect(received).toEqual([MOCK_ACCOUNTS[1]]);
+    });
+});
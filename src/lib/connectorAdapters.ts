@@ -0,0 +1,185 @@
+// src/lib/connectorAdapters.ts
+import type {
+    DAppConnectorAPI,
+    DAppConnectorWalletAPI,
+    DAppConnectorWalletState,
+    ServiceUriConfig
+} from '@midnight-ntwrk/dapp-connector-api';
+import type { CoinInfo, Transaction } from '@midnight-ntwrk/zswap';
+import { UnsupportedVersionError, unsupportedVersionError } from '@/lib/walletErrors';
+
+// --- Version Ranges ---
+// Semver range as >=min <below; pre-release and build suffixes are ignored
+export interface ApiVersionRange {
+    min: string;
+    below: string;
+}
+
+const VERSION_PATTERN = /^\d+(\.\d+){0,2}([-+].*)?$/;
+
+export const compareApiVersions = (a: string, b: string): number => {
+    const parse = (version: string) => version.split(/[-+]/)[0].split('.').map(part => parseInt(part, 10) || 0);
+    const [left, right] = [parse(a), parse(b)];
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] ?? 0) - (right[i] ?? 0);
+        if (diff !== 0) return Math.sign(diff);
+    }
+    return 0;
+};
+
+export const isVersionInRange = (version: string, range: ApiVersionRange): boolean =>
+    VERSION_PATTERN.test(version)
+    && compareApiVersions(version, range.min) >= 0
+    && compareApiVersions(version, range.below) < 0;
+
+export const formatVersionRange = (range: ApiVersionRange): string => `>=${range.min} <${range.below}`;
+
+// --- Shape Checks ---
+// Connectors are third-party code, so whatever they return is checked before the store relies on it
+const describeValue = (value: unknown): string => value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+const requireStrings = <T extends object>(value: unknown, fields: (keyof T & string)[], what: string, walletName: string): T => {
+    if (!value || typeof value !== 'object') {
+        throw new Error(`${walletName} returned invalid ${what}: expected an object, got ${describeValue(value)}.`);
+    }
+    const missing = fields.filter(field => typeof (value as Record<string, unknown>)[field] !== 'string' || !(value as Record<string, unknown>)[field]);
+    if (missing.length > 0) {
+        throw new Error(`${walletName} returned invalid ${what}: missing ${missing.map(field => `'${field}'`).join(', ')}.`);
+    }
+    return value as T;
+};
+
+export const checkWalletState = (value: unknown, walletName: string): DAppConnectorWalletState =>
+    requireStrings<DAppConnectorWalletState>(value, ['address', 'coinPublicKey', 'encryptionPublicKey'], 'wallet state', walletName);
+
+export const checkServiceUris = (value: unknown, walletName: string): ServiceUriConfig =>
+    requireStrings<ServiceUriConfig>(value, ['indexerUri', 'indexerWsUri', 'proverServerUri', 'substrateNodeUri'], 'service URIs', walletName);
+
+const checkBoolean = (value: unknown, method: string, walletName: string): boolean => {
+    if (typeof value !== 'boolean') throw new Error(`${walletName} returned ${describeValue(value)} from ${method}, expected a boolean.`);
+    return value;
+};
+
+const checkWalletApi = (value: unknown, walletName: string): Record<string | symbol, unknown> => {
+    const api = value as Record<string, unknown> | null;
+    if (!api || typeof api !== 'object' || typeof api.state !== 'function' || typeof api.submitTransaction !== 'function') {
+        throw new Error(`${walletName} returned an invalid wallet API from enable(): expected state() and submitTransaction().`);
+    }
+    return api;
+};
+
+// --- Wrapping ---
+// A Proxy keeps every member the adapter doesn't override (signData, balances, onStateChange, ...)
+// reachable, so optional capabilities are still detected on the adapted API
+const withOverrides = <T extends object>(target: Record<string | symbol, unknown>, overrides: Record<string, unknown>): T =>
+    new Proxy(target, {
+        get: (raw, prop) => {
+            if (typeof prop === 'string' && prop in overrides) return overrides[prop];
+            const value = Reflect.get(raw, prop);
+            return typeof value === 'function' ? value.bind(raw) : value;
+        },
+    }) as unknown as T;
+
+// State pushed through onStateChange is checked like state() results; invalid pushes are dropped
+type StateListener = (state: DAppConnectorWalletState) => void;
+type StateNormaliser = (value: unknown) => DAppConnectorWalletState;
+
+const adaptWalletApi = (
+    api: Record<string | symbol, unknown>,
+    normaliseState: StateNormaliser,
+    extra: Record<string, unknown> = {}
+): DAppConnectorWalletAPI => {
+    const state = api.state as () => Promise<unknown>;
+    const overrides: Record<string, unknown> = {
+        state: async () => normaliseState(await state.call(api)),
+        ...extra,
+    };
+    if (typeof api.onStateChange === 'function') {
+        const onStateChange = api.onStateChange as (listener: (raw: unknown) => void) => () => void;
+        overrides.onStateChange = (listener: StateListener) => onStateChange.call(api, (raw: unknown) => {
+            try {
+                listener(normaliseState(raw));
+            } catch {
+                // Not a usable state; the next poll reads it again through state()
+            }
+        });
+    }
+    return withOverrides<DAppConnectorWalletAPI>(api, overrides);
+};
+
+const adaptConnector = (
+    raw: DAppConnectorAPI,
+    walletName: string,
+    adaptApi: (api: Record<string | symbol, unknown>) => DAppConnectorWalletAPI
+): DAppConnectorAPI => withOverrides<DAppConnectorAPI>(raw as unknown as Record<string | symbol, unknown>, {
+    isEnabled: async () => checkBoolean(await raw.isEnabled(), 'isEnabled()', walletName),
+    serviceUriConfig: async () => checkServiceUris(await raw.serviceUriConfig(), walletName),
+    enable: async () => adaptApi(checkWalletApi(await raw.enable(), walletName)),
+});
+
+// --- Adapters ---
+// Each adapter turns one range of connector versions into the current DAppConnectorAPI shape
+export interface ConnectorAdapter {
+    id: string;
+    range: ApiVersionRange;
+    adapt: (raw: DAppConnectorAPI, walletName: string) => DAppConnectorAPI;
+}
+
+// 1.x wallets may only fill the legacy (hex) key fields, and before 1.1 had no balanceAndProveTransaction
+const legacyAdapter: ConnectorAdapter = {
+    id: 'legacy',
+    range: { min: '1.0.0', below: '2.0.0' },
+    adapt: (raw, walletName) => adaptConnector(raw, walletName, (api) => {
+        const normaliseState: StateNormaliser = (value) => {
+            const state = value as Partial<DAppConnectorWalletState> | null;
+            return checkWalletState(state && typeof state === 'object' ? {
+                ...state,
+                address: state.address || state.addressLegacy,
+                coinPublicKey: state.coinPublicKey || state.coinPublicKeyLegacy,
+                encryptionPublicKey: state.encryptionPublicKey || state.encryptionPublicKeyLegacy,
+            } : value, walletName);
+        };
+        const extra: Record<string, unknown> = {};
+        if (typeof api.balanceAndProveTransaction !== 'function'
+            && typeof api.balanceTransaction === 'function'
+            && typeof api.proveTransaction === 'function') {
+            const { balanceTransaction, proveTransaction } = api as unknown as DAppConnectorWalletAPI;
+            extra.balanceAndProveTransaction = async (tx: Transaction, newCoins: CoinInfo[]) =>
+                proveTransaction.call(api, await balanceTransaction.call(api, tx, newCoins));
+        }
+        return adaptWalletApi(api, normaliseState, extra);
+    }),
+};
+
+// 2.x is the shape this app is written against, so only the results are checked
+const currentAdapter: ConnectorAdapter = {
+    id: 'current',
+    range: { min: '2.0.0', below: '3.0.0' },
+    adapt: (raw, walletName) => adaptConnector(raw, walletName, (api) =>
+        adaptWalletApi(api, (value) => checkWalletState(value, walletName))),
+};
+
+export const CONNECTOR_ADAPTERS: ConnectorAdapter[] = [legacyAdapter, currentAdapter];
+
+export const SUPPORTED_API_RANGE: ApiVersionRange = { min: '1.0.0', below: '3.0.0' };
+
+// --- Negotiation ---
+// Picks the adapter for the connector's apiVersion, or explains why there is none
+export type ConnectorNegotiation =
+    | { adapter: string; connector: DAppConnectorAPI; error: null }
+    | { adapter: null; connector: null; error: UnsupportedVersionError };
+
+export const negotiateConnector = (
+    raw: DAppConnectorAPI,
+    walletName: string,
+    adapters: ConnectorAdapter[] = CONNECTOR_ADAPTERS
+): ConnectorNegotiation => {
+    const apiVersion = typeof raw.apiVersion === 'string' ? raw.apiVersion : null;
+    const adapter = apiVersion !== null && isVersionInRange(apiVersion, SUPPORTED_API_RANGE)
+        ? adapters.find(a => isVersionInRange(apiVersion, a.range))
+        : undefined;
+    if (!adapter) {
+        return { adapter: null, connector: null, error: unsupportedVersionError(walletName, apiVersion, formatVersionRange(SUPPORTED_API_RANGE)) };
+    }
+    return { adapter: adapter.id, connector: adapter.adapt(raw, walletName), error: null };
+};
@@ -0,0 +1,96 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DAppConnectorWalletAPI } from '@midnight-ntwrk/dapp-connector-api';
+import type { PrivateStateProvider, UnbalancedTransaction } from '@midnight-ntwrk/midnight-js-types';
+import { getLedgerNetworkId, getZswapNetworkId } from '@midnight-ntwrk/midnight-js-network-id';
+import { createWalletContractProviders } from '@/lib/contractProviders';
+import { MOCK_SERVICE_URIS } from '@/mocks/mockWallet';
+
+// The provider packages talk to the indexer and the proof server; here they only record how they were built
+vi.mock('@midnight-ntwrk/midnight-js-indexer-public-data-provider', () => ({
+    indexerPublicDataProvider: vi.fn((uri: string, wsUri: string) => ({ kind: 'indexer', uri, wsUri })),
+}));
+vi.mock('@midnight-ntwrk/midnight-js-http-client-proof-provider', () => ({
+    httpClientProofProvider: vi.fn((uri: string) => ({ kind: 'prover', uri })),
+}));
+vi.mock('@midnight-ntwrk/midnight-js-utils', () => ({ fromHex: vi.fn() }));
+
+// Transactions can't be built without a proof server, so the two Transaction classes hand back markers
+const { ledgerDeserialize, zswapDeserialize } = vi.hoisted(() => ({
+    ledgerDeserialize: vi.fn((raw: Uint8Array) => ({ kind: 'ledger', raw })),
+    zswapDeserialize: vi.fn((raw: Uint8Array) => ({ kind: 'zswap', raw })),
+}));
+vi.mock('@midnight-ntwrk/ledger', async (importOriginal) => ({
+    ...await importOriginal<object>(),
+    Transaction: { deserialize: ledgerDeserialize },
+}));
+vi.mock('@midnight-ntwrk/zswap', async (importOriginal) => ({
+    ...await importOriginal<object>(),
+    Transaction: { deserialize: zswapDeserialize },
+}));
+
+const UNBALANCED_BYTES = new Uint8Array([1]);
+const BALANCED_BYTES = new Uint8Array([2]);
+
+const unbalancedTx = {
+    serialize: vi.fn(() => UNBALANCED_BYTES),
+    contractCalls: [{ address: '0200aa', entryPoint: 'increment' }],
+} as unknown as UnbalancedTransaction;
+
+const setup = (reviewTransaction?: (tx: unknown) => Promise<boolean>) => {
+    const walletApi = {
+        balanceAndProveTransaction: vi.fn(async () => ({ serialize: () => BALANCED_BYTES })),
+        submitTransaction: vi.fn(async () => 'tx-1'),
+    } as unknown as DAppConnectorWalletAPI;
+    const providers = createWalletContractProviders({
+        walletApi,
+        walletKeys: { coinPublicKey: 'cpk', encryptionPublicKey: 'epk' },
+        serviceUris: MOCK_SERVICE_URIS,
+        privateStateProvider: {} as PrivateStateProvider,
+        reviewTransaction,
+    });
+    return { walletApi, providers };
+};
+
+describe('createWalletContractProviders', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('builds the indexer and prover providers from the wallet service URIs', async () => {
+        const { walletApi, providers } = setup();
+
+        expect(providers.publicDataProvider).toEqual({ kind: 'indexer', uri: MOCK_SERVICE_URIS.indexerUri, wsUri: MOCK_SERVICE_URIS.indexerWsUri });
+        expect(providers.proofProvider).toEqual({ kind: 'prover', uri: MOCK_SERVICE_URIS.proverServerUri });
+        expect(providers.walletProvider).toMatchObject({ coinPublicKey: 'cpk', encryptionPublicKey: 'epk' });
+
+        const balanced = { kind: 'balanced' } as never;
+        expect(await providers.midnightProvider.submitTx(balanced)).toBe('tx-1');
+        expect(walletApi.submitTransaction).toHaveBeenCalledWith(balanced);
+    });
+
+    it('converts to zswap for the wallet and back to ledger for midnight-js', async () => {
+        const { walletApi, providers } = setup();
+        const newCoins = [{ type: 'native', nonce: 'n', value: BigInt(1) }];
+
+        const result = await providers.walletProvider.balanceTx(unbalancedTx, newCoins);
+
+        expect(unbalancedTx.serialize).toHaveBeenCalledWith(getLedgerNetworkId());
+        expect(zswapDeserialize).toHaveBeenCalledWith(UNBALANCED_BYTES, getZswapNetworkId());
+        expect(walletApi.balanceAndProveTransaction).toHaveBeenCalledWith({ kind: 'zswap', raw: UNBALANCED_BYTES }, newCoins);
+        expect(ledgerDeserialize).toHaveBeenCalledWith(BALANCED_BYTES, getLedgerNetworkId());
+        expect(result).toMatchObject({ kind: 'ledger', raw: BALANCED_BYTES });
+    });
+
+    it('reviews the ledger transaction first and never asks the wallet when the user rejects it', async () => {
+        const reviewTransaction = vi.fn(async () => false);
+        const { walletApi, providers } = setup(reviewTransaction);
+
+        await expect(providers.walletProvider.balanceTx(unbalancedTx, [])).rejects.toMatchObject({ kind: 'Cancelled' });
+
+        expect(reviewTransaction).toHaveBeenCalledWith(unbalancedTx, {
+            summary: expect.objectContaining({ calls: [{ kind: 'call', address: '0200aa', entryPoint: 'increment' }] }),
+        });
+        expect(walletApi.balanceAndProveTransaction).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,115 @@
+// src/lib/contractProviders.ts
+// Builds the midnight-js providers a Compact contract needs from what the wallet connection already has
+import type {
+    DAppConnectorWalletAPI,
+    DAppConnectorWalletState,
+    ServiceUriConfig
+} from '@midnight-ntwrk/dapp-connector-api';
+import { ContractState, StateValue } from '@midnight-ntwrk/compact-runtime';
+import { LedgerParameters, Transaction } from '@midnight-ntwrk/ledger';
+import { CoinInfo, Transaction as ZswapTransaction } from '@midnight-ntwrk/zswap';
+import {
+    BalancedTransaction,
+    Contract,
+    ImpureCircuitId,
+    MidnightProviders,
+    PrivateState,
+    PrivateStateId,
+    PrivateStateProvider,
+    UnbalancedTransaction,
+    createBalancedTx
+} from '@midnight-ntwrk/midnight-js-types';
+import {
+    NetworkId,
+    getLedgerNetworkId,
+    getRuntimeNetworkId,
+    getZswapNetworkId,
+    setNetworkId
+} from '@midnight-ntwrk/midnight-js-network-id';
+import { FetchZkConfigProvider } from '@midnight-ntwrk/midnight-js-fetch-zk-config-provider';
+import { httpClientProofProvider } from '@midnight-ntwrk/midnight-js-http-client-proof-provider';
+import { indexerPublicDataProvider } from '@midnight-ntwrk/midnight-js-indexer-public-data-provider';
+import { fromHex } from '@midnight-ntwrk/midnight-js-utils';
+import { decodeTransaction } from '@/lib/transactionReview';
+import { cancelledError } from '@/lib/walletErrors';
+import { WalletLogger, defaultLogger } from '@/lib/walletLogger';
+import type { ReviewTransactionOptions } from '@/lib/walletStore';
+
+// --- Contract Artifacts ---
+// What `compactc` produces for a contract, as the app imports and serves it
+export interface ContractArtifacts<C extends Contract, L> {
+    contract: C;                          // Instance of the compiled Contract class, built with its witnesses
+    ledger: (state: StateValue) => L;     // The compiled module's ledger() function
+    zkConfigUrl: string;                  // Base URL serving the compiler's keys/ and zkir/ folders
+}
+
+// --- Shared Providers ---
+// Everything except the ZK config, which belongs to a single contract
+export type WalletContractProviders = Omit<MidnightProviders, 'zkConfigProvider'>;
+
+export interface WalletContractProvidersConfig {
+    walletApi: DAppConnectorWalletAPI;
+    walletKeys: Pick<DAppConnectorWalletState, 'coinPublicKey' | 'encryptionPublicKey'>;
+    serviceUris: ServiceUriConfig;
+    privateStateProvider: PrivateStateProvider;
+    reviewTransaction?: (tx: unknown, options?: ReviewTransactionOptions) => Promise<boolean>;  // Asked before the wallet balances
+}
+
+// --- Network Id ---
+// midnight-js keeps the network id in a global that (de)serialisation reads
+const NETWORK_IDS: Record<string, NetworkId> = {
+    testnet: NetworkId.TestNet,
+    devnet: NetworkId.DevNet,
+    standalone: NetworkId.Undeployed,
+};
+
+export const applyMidnightNetworkId = (networkId: string | null, logger: WalletLogger = defaultLogger) => {
+    const midnightNetworkId = networkId ? NETWORK_IDS[networkId] : undefined;
+    if (midnightNetworkId) setNetworkId(midnightNetworkId);
+    else logger.warn(`No midnight-js network id for network '${networkId}'. Keeping the current one.`);
+};
+
+// --- Create Providers ---
+export const createWalletContractProviders = ({
+    walletApi,
+    walletKeys,
+    serviceUris,
+    privateStateProvider,
+    reviewTransaction
+}: WalletContractProvidersConfig): WalletContractProviders => ({
+    privateStateProvider,
+    publicDataProvider: indexerPublicDataProvider(serviceUris.indexerUri, serviceUris.indexerWsUri),
+    proofProvider: httpClientProofProvider(serviceUris.proverServerUri),
+    walletProvider: {
+        coinPublicKey: walletKeys.coinPublicKey,
+        encryptionPublicKey: walletKeys.encryptionPublicKey,
+        // The wallet works with zswap transactions, midnight-js with ledger ones
+        balanceTx: async (tx: UnbalancedTransaction, newCoins: CoinInfo[]): Promise<BalancedTransaction> => {
+            // The ledger transaction still names its contract calls, so review it before the zswap conversion.
+            // Its fee is priced with the ledger's default parameters, so the summary marks it approximate.
+            if (reviewTransaction) {
+                const summary = decodeTransaction(tx, { feeParameters: LedgerParameters.dummyParameters(), feeBasis: 'approximate' });
+                if (!await reviewTransaction(tx, { summary })) throw cancelledError();
+            }
+            const zswapTx = ZswapTransaction.deserialize(tx.serialize(getLedgerNetworkId()), getZswapNetworkId());
+            const balanced = await walletApi.balanceAndProveTransaction(zswapTx, newCoins);
+            return createBalancedTx(Transaction.deserialize(balanced.serialize(getZswapNetworkId()), getLedgerNetworkId()));
+        },
+    },
+    midnightProvider: {
+        submitTx: (tx: BalancedTransaction) => walletApi.submitTransaction(tx),
+    },
+});
+
+export const createContractProviders = <C extends Contract>(
+    shared: WalletContractProviders,
+    zkConfigUrl: string
+): MidnightProviders<ImpureCircuitId<C>, PrivateStateId, PrivateState<C>> => ({
+    ...shared,
+    zkConfigProvider: new FetchZkConfigProvider<ImpureCircuitId<C>>(zkConfigUrl, fetch.bind(window)),
+});
+
+// --- Ledger State ---
+// Decodes the hex contract state the indexer returns into the contract's typed ledger
+export const parseLedgerState = <L>(stateHex: string, ledger: (state: StateValue) => L): L =>
+    ledger(ContractState.deserialize(fromHex(stateHex), getRuntimeNetworkId()).data);
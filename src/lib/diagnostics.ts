@@ -0,0 +1,113 @@
+// src/lib/diagnostics.ts
+// What the diagnostics drawer shows and what "Copy report" puts on the clipboard:
+// detected connectors, recent connection attempts, service URIs and polling settings.
+import { ServiceUriConfig } from '@midnight-ntwrk/dapp-connector-api';
+import { DiscoveredWallet } from '@/lib/walletDiscovery';
+import { WalletError } from '@/lib/walletErrors';
+import { PollingIntervals } from '@/lib/watcher';
+import { AutoReconnectPolicy } from '@/lib/walletSession';
+import { ProverStatus } from '@/lib/proverHealth';
+
+// --- Connection Attempts ---
+// silent: the reconnect check on load (or following another tab); manual: connect()
+export type ConnectionAttemptKind = 'silent' | 'manual';
+
+// notEnabled: the silent check found the DApp not enabled and didn't prompt
+// abandoned:  superseded by a disconnect or a newer attempt before it finished
+export type ConnectionAttemptOutcome = 'pending' | 'connected' | 'notEnabled' | 'failed' | 'abandoned';
+
+export interface AttemptErrorSummary {
+    kind: WalletError['kind'];
+    code: string | number | null;   // The wallet's own error code, e.g. 'Rejected' or -3
+    message: string;
+    detail: string | null;
+}
+
+export interface ConnectionAttempt {
+    id: number;
+    kind: ConnectionAttemptKind;
+    walletKey: string | null;
+    startedAt: number;
+    endedAt: number | null;
+    durationMs: number | null;
+    approvalRequested: boolean;     // The wallet showed an approval prompt during this attempt
+    outcome: ConnectionAttemptOutcome;
+    error: AttemptErrorSummary | null;
+}
+
+export const DEFAULT_ATTEMPT_HISTORY_SIZE = 10;
+
+export const summarizeAttemptError = (error: WalletError): AttemptErrorSummary => {
+    const code = error.apiError?.code ?? (error.cause as { code?: unknown } | null)?.code;
+    return {
+        kind: error.kind,
+        code: typeof code === 'string' || typeof code === 'number' ? code : null,
+        message: error.message,
+        detail: error.detail,
+    };
+};
+
+// --- Connector Inspection ---
+// isEnabled() is asked fresh, so the report shows what the wallet says right now
+export interface ConnectorReport {
+    key: string;
+    name: string;
+    apiVersion: string;
+    adapter: string | null;         // Version adapter in use; null when the version is unsupported
+    unsupported: string | null;     // Why the DApp can't use this connector
+    isEnabled: boolean | null;      // null when the call failed or timed out
+    isEnabledMs: number | null;
+    error: string | null;
+}
+
+export const inspectConnector = async (wallet: DiscoveredWallet, timeoutMs = 3000): Promise<ConnectorReport> => {
+    const base = {
+        key: wallet.key,
+        name: wallet.name,
+        apiVersion: wallet.apiVersion,
+        adapter: wallet.adapter,
+        unsupported: wallet.unsupported ? `${wallet.unsupported.message} ${wallet.unsupported.detail}` : null,
+    };
+    const startedAt = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+        const isEnabled = await Promise.race([
+            wallet.connector.isEnabled(),
+            new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`isEnabled() did not answer within ${timeoutMs}ms`)), timeoutMs);
+            }),
+        ]);
+        return { ...base, isEnabled, isEnabledMs: Date.now() - startedAt, error: null };
+    } catch (err) {
+        return { ...base, isEnabled: null, isEnabledMs: null, error: err instanceof Error ? err.message : String(err) };
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+// --- Report ---
+export interface DiagnosticsReport {
+    generatedAt: string;
+    userAgent: string | null;
+    status: string;
+    walletName: string | null;
+    selectedWalletKey: string | null;
+    address: string | null;
+    connectors: ConnectorReport[];
+    connectionAttempts: ConnectionAttempt[];    // Newest first
+    serviceUris: ServiceUriConfig | null;
+    networkId: string | null;
+    expectedNetworkId: string | null;
+    proverStatus: ProverStatus;
+    settings: {
+        pollingIntervals: PollingIntervals;
+        changeDetection: 'auto' | 'poll';
+        autoReconnect: AutoReconnectPolicy;
+        tabSync: string | false;
+    };
+    error: AttemptErrorSummary | null;
+}
+
+// Pretty JSON for bug reports. Bigints become strings, since JSON has no bigint.
+export const serializeDiagnosticsReport = (report: DiagnosticsReport): string =>
+    JSON.stringify(report, (_key, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
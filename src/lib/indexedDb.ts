@@ -0,0 +1,22 @@
+// src/lib/indexedDb.ts
+// Promise wrappers over the IndexedDB callback API, shared by the stores that persist to it
+
+export const idbRequest = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+export const idbTransactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted.'));
+});
+
+// Missing during SSR and in workers without it; access can throw in privacy modes
+export const getBrowserIndexedDB = (): IDBFactory | null => {
+    try {
+        return typeof window !== 'undefined' && window.indexedDB ? window.indexedDB : null;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,198 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { Server, createServer } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { IndexerClient, WebSocketConstructor, createIndexerClient } from '@/lib/indexerClient';
+import {
+    ContractStateUpdate,
+    TransactionInclusion,
+    fetchContractState,
+    fetchTransactionInclusion,
+    subscribeContractState,
+    subscribeTransactionInclusion
+} from '@/lib/indexerQueries';
+
+const ADDRESS = '02' + 'c'.repeat(64);
+const TX_ID = 'ab'.repeat(32);
+
+const contractAction = (state: string, height: number) => ({
+    address: ADDRESS,
+    state,
+    transaction: { hash: `tx${height}`, block: { height, hash: `block${height}` } },
+});
+
+// --- Stand-in Indexer ---
+// Answers HTTP queries from `queries` and speaks graphql-transport-ws on /ws
+interface StandInIndexer {
+    uri: string;
+    wsUri: string;
+    queries: Record<string, unknown>;                         // operation name -> data
+    lastVariables: Record<string, unknown> | undefined;
+    subscriptions: Map<string, { operationName: string; socket: WebSocket }>;
+    connections: number;
+    push: (operationName: string, data: unknown) => void;
+    dropConnections: () => void;
+    close: () => Promise<void>;
+}
+
+const operationName = (query: string) => /(?:query|subscription)\s+(\w+)/.exec(query)?.[1] ?? '';
+
+const startStandInIndexer = async (): Promise<StandInIndexer> => {
+    const indexer = {
+        queries: {},
+        lastVariables: undefined,
+        subscriptions: new Map(),
+        connections: 0,
+    } as StandInIndexer;
+
+    const server: Server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            const { query, variables } = JSON.parse(body);
+            indexer.lastVariables = variables;
+            const name = operationName(query);
+            const payload = name in indexer.queries
+                ? { data: indexer.queries[name] }
+                : { errors: [{ message: `Unknown operation ${name}` }] };
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        });
+    });
+
+    const wss = new WebSocketServer({ server, path: '/ws' });
+    wss.on('connection', socket => {
+        indexer.connections++;
+        socket.on('message', raw => {
+            const message = JSON.parse(String(raw));
+            if (message.type === 'connection_init') socket.send(JSON.stringify({ type: 'connection_ack' }));
+            if (message.type === 'subscribe') {
+                indexer.subscriptions.set(message.id, { operationName: operationName(message.payload.query), socket });
+            }
+            if (message.type === 'complete') indexer.subscriptions.delete(message.id);
+        });
+        socket.on('close', () => {
+            indexer.subscriptions.forEach((sub, id) => {
+                if (sub.socket === socket) indexer.subscriptions.delete(id);
+            });
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    indexer.uri = `http://127.0.0.1:${port}/api/v1/graphql`;
+    indexer.wsUri = `ws://127.0.0.1:${port}/ws`;
+    indexer.push = (name, data) => {
+        indexer.subscriptions.forEach((sub, id) => {
+            if (sub.operationName === name) sub.socket.send(JSON.stringify({ id, type: 'next', payload: { data } }));
+        });
+    };
+    indexer.dropConnections = () => wss.clients.forEach(client => client.terminate());
+    indexer.close = () => new Promise(resolve => {
+        wss.clients.forEach(client => client.terminate());
+        wss.close(() => server.close(() => resolve()));
+    });
+    return indexer;
+};
+
+describe('createIndexerClient', () => {
+    let indexer: StandInIndexer;
+    let client: IndexerClient;
+
+    const setup = async () => {
+        indexer = await startStandInIndexer();
+        client = createIndexerClient({
+            uri: indexer.uri,
+            wsUri: indexer.wsUri,
+            WebSocket: WebSocket as unknown as WebSocketConstructor,
+            reconnectInitialDelayMs: 10,
+        });
+    };
+
+    afterEach(async () => {
+        client?.close();
+        await indexer?.close();
+    });
+
+    it('reads the current contract state', async () => {
+        await setup();
+        indexer.queries.ContractState = { contractAction: contractAction('0a0b', 7) };
+
+        const state = await fetchContractState(client, ADDRESS);
+
+        expect(indexer.lastVariables).toEqual({ address: ADDRESS });
+        expect(state).toEqual({ address: ADDRESS, state: '0a0b', txHash: 'tx7', blockHeight: 7 });
+    });
+
+    it('returns null for a contract the indexer does not know', async () => {
+        await setup();
+        indexer.queries.ContractState = { contractAction: null };
+
+        expect(await fetchContractState(client, ADDRESS)).toBeNull();
+    });
+
+    it('surfaces GraphQL errors from queries', async () => {
+        await setup();
+
+        await expect(fetchTransactionInclusion(client, TX_ID)).rejects.toThrow(/Unknown operation TransactionByIdentifier/);
+    });
+
+    it('streams contract state updates over the subscription', async () => {
+        await setup();
+        const updates: ContractStateUpdate[] = [];
+        subscribeContractState(client, ADDRESS, update => updates.push(update));
+        await vi.waitFor(() => expect(indexer.subscriptions.size).toBe(1));
+
+        indexer.push('ContractStateUpdates', { contractActions: contractAction('01', 8) });
+        indexer.push('ContractStateUpdates', { contractActions: contractAction('02', 9) });
+
+        await vi.waitFor(() => expect(updates.map(u => u.state)).toEqual(['01', '02']));
+    });
+
+    it('reports the block that includes a transaction and ignores other blocks', async () => {
+        await setup();
+        const inclusions: TransactionInclusion[] = [];
+        subscribeTransactionInclusion(client, TX_ID, inclusion => inclusions.push(inclusion));
+        await vi.waitFor(() => expect(indexer.subscriptions.size).toBe(1));
+
+        indexer.push('Blocks', { blocks: { height: 10, hash: 'block10', transactions: [] } });
+        indexer.push('Blocks', {
+            blocks: {
+                height: 11,
+                hash: 'block11',
+                transactions: [{ hash: 'tx11', identifiers: [TX_ID], applyStage: 'SucceedEntirely' }],
+            },
+        });
+
+        await vi.waitFor(() => expect(inclusions).toHaveLength(1));
+        expect(inclusions[0]).toEqual({ txHash: 'tx11', applyStage: 'SucceedEntirely', block: { height: 11, hash: 'block11' } });
+    });
+
+    it('reconnects and resubscribes after the socket drops', async () => {
+        await setup();
+        const updates: ContractStateUpdate[] = [];
+        subscribeContractState(client, ADDRESS, update => updates.push(update));
+        await vi.waitFor(() => expect(indexer.subscriptions.size).toBe(1));
+
+        indexer.dropConnections();
+        await vi.waitFor(() => expect(indexer.connections).toBe(2));
+        await vi.waitFor(() => expect(indexer.subscriptions.size).toBe(1));
+
+        indexer.push('ContractStateUpdates', { contractActions: contractAction('03', 12) });
+        await vi.waitFor(() => expect(updates.map(u => u.state)).toEqual(['03']));
+    });
+
+    it('closes the socket once the last subscription ends', async () => {
+        await setup();
+        const unsubscribe = subscribeContractState(client, ADDRESS, () => {});
+        await vi.waitFor(() => expect(indexer.subscriptions.size).toBe(1));
+
+        unsubscribe();
+
+        await vi.waitFor(() => expect(indexer.subscriptions.size).toBe(0));
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(indexer.connections).toBe(1);
+    });
+});
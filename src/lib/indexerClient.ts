@@ -0,0 +1,201 @@
+// src/lib/indexerClient.ts
+// Minimal GraphQL client for the Midnight indexer: queries over HTTP, subscriptions over
+// the graphql-transport-ws protocol. Subscriptions survive dropped sockets by reconnecting
+// with backoff and re-subscribing.
+import { WalletLogger, defaultLogger } from '@/lib/walletLogger';
+
+const WS_PROTOCOL = 'graphql-transport-ws';
+
+// --- GraphQL Wire Types ---
+export interface GraphQLErrorShape {
+    message: string;
+    path?: (string | number)[];
+}
+
+export interface GraphQLResponse<T> {
+    data?: T | null;
+    errors?: GraphQLErrorShape[];
+}
+
+type ServerMessage =
+    | { type: 'connection_ack' }
+    | { type: 'ping' }
+    | { type: 'pong' }
+    | { type: 'next'; id: string; payload: GraphQLResponse<unknown> }
+    | { type: 'error'; id: string; payload: GraphQLErrorShape[] }
+    | { type: 'complete'; id: string };
+
+// --- Client Types ---
+export type WebSocketConstructor = new (url: string, protocols?: string | string[]) => WebSocket;
+
+export interface IndexerClientOptions {
+    uri: string;                          // ServiceUriConfig.indexerUri
+    wsUri: string;                        // ServiceUriConfig.indexerWsUri
+    fetch?: typeof fetch;                 // Defaults to the global fetch
+    WebSocket?: WebSocketConstructor;     // Defaults to the global WebSocket
+    reconnectInitialDelayMs?: number;
+    reconnectMaxDelayMs?: number;
+    logger?: WalletLogger;                // Defaults to the shared console logger
+}
+
+export interface SubscriptionHandlers<T> {
+    next: (data: T) => void;
+    error?: (err: Error) => void;
+    complete?: () => void;
+}
+
+export interface IndexerClient {
+    uri: string;
+    wsUri: string;
+    query: <T>(query: string, variables?: Record<string, unknown>) => Promise<T>;
+    subscribe: <T>(query: string, variables: Record<string, unknown> | undefined, handlers: SubscriptionHandlers<T>) => () => void;
+    close: () => void;
+}
+
+const toError = (errors: GraphQLErrorShape[]): Error =>
+    new Error(`Indexer error: ${errors.map(e => e.message).join('; ')}`);
+
+// --- Create Client ---
+export const createIndexerClient = (options: IndexerClientOptions): IndexerClient => {
+    const {
+        uri,
+        wsUri,
+        reconnectInitialDelayMs = 1000,
+        reconnectMaxDelayMs = 30000,
+        logger = defaultLogger,
+    } = options;
+    const fetchImpl = options.fetch ?? fetch;
+    const WebSocketImpl = options.WebSocket ?? (typeof WebSocket !== 'undefined' ? WebSocket : null);
+
+    const subscriptions = new Map<string, { payload: { query: string; variables?: Record<string, unknown> }; handlers: SubscriptionHandlers<unknown> }>();
+    let socket: WebSocket | null = null;
+    let acknowledged = false;
+    let closed = false;
+    let nextId = 1;
+    let reconnectDelayMs = reconnectInitialDelayMs;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // --- Queries ---
+    const query = async <T>(queryText: string, variables?: Record<string, unknown>): Promise<T> => {
+        const response = await fetchImpl(uri, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+            body: JSON.stringify({ query: queryText, variables }),
+        });
+        if (!response.ok) throw new Error(`Indexer request failed with HTTP ${response.status}.`);
+
+        const body = await response.json() as GraphQLResponse<T>;
+        if (body.errors?.length) throw toError(body.errors);
+        if (body.data == null) throw new Error('Indexer returned no data.');
+        return body.data;
+    };
+
+    // --- WebSocket Connection ---
+    const sendSubscribe = (id: string) => {
+        const subscription = subscriptions.get(id);
+        if (socket && acknowledged && subscription) {
+            socket.send(JSON.stringify({ id, type: 'subscribe', payload: subscription.payload }));
+        }
+    };
+
+    const scheduleReconnect = () => {
+        if (closed || reconnectTimer || subscriptions.size === 0) return;
+        logger.info(`Indexer socket closed. Reconnecting in ${reconnectDelayMs}ms...`);
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+        }, reconnectDelayMs);
+        reconnectDelayMs = Math.min(reconnectDelayMs * 2, reconnectMaxDelayMs);
+    };
+
+    const handleMessage = (message: ServerMessage) => {
+        switch (message.type) {
+            case 'connection_ack':
+                acknowledged = true;
+                reconnectDelayMs = reconnectInitialDelayMs;
+                subscriptions.forEach((_, id) => sendSubscribe(id));
+                break;
+            case 'ping':
+                socket?.send(JSON.stringify({ type: 'pong' }));
+                break;
+            case 'next': {
+                const subscription = subscriptions.get(message.id);
+                if (!subscription) break;
+                if (message.payload.errors?.length) subscription.handlers.error?.(toError(message.payload.errors));
+                else if (message.payload.data != null) subscription.handlers.next(message.payload.data);
+                break;
+            }
+            case 'error':
+                subscriptions.get(message.id)?.handlers.error?.(toError(message.payload));
+                subscriptions.delete(message.id);
+                break;
+            case 'complete':
+                subscriptions.get(message.id)?.handlers.complete?.();
+                subscriptions.delete(message.id);
+                break;
+        }
+    };
+
+    const connect = () => {
+        if (closed || socket) return;
+        if (!WebSocketImpl) {
+            subscriptions.forEach(({ handlers }) => handlers.error?.(new Error('WebSocket is not available in this environment.')));
+            subscriptions.clear();
+            return;
+        }
+
+        const ws = new WebSocketImpl(wsUri, WS_PROTOCOL);
+        socket = ws;
+        acknowledged = false;
+
+        ws.onopen = () => ws.send(JSON.stringify({ type: 'connection_init' }));
+        ws.onmessage = (event: MessageEvent) => {
+            try {
+                handleMessage(JSON.parse(String(event.data)) as ServerMessage);
+            } catch (parseErr) {
+                logger.error("Unreadable indexer socket message:", parseErr);
+            }
+        };
+        // onerror is always followed by onclose, which handles the retry
+        ws.onerror = () => logger.warn("Indexer socket error.");
+        ws.onclose = () => {
+            if (socket !== ws) return;
+            socket = null;
+            acknowledged = false;
+            scheduleReconnect();
+        };
+    };
+
+    // Closes the socket once nothing listens; the next subscribe() reopens it
+    const closeSocket = () => {
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+        const ws = socket;
+        socket = null;
+        acknowledged = false;
+        ws?.close();
+    };
+
+    // --- Subscriptions ---
+    const subscribe = <T>(queryText: string, variables: Record<string, unknown> | undefined, handlers: SubscriptionHandlers<T>) => {
+        if (closed) throw new Error('Indexer client is closed.');
+        const id = String(nextId++);
+        subscriptions.set(id, { payload: { query: queryText, variables }, handlers: handlers as SubscriptionHandlers<unknown> });
+        if (acknowledged) sendSubscribe(id);
+        else connect();
+
+        return () => {
+            if (!subscriptions.delete(id)) return;
+            if (socket && acknowledged) socket.send(JSON.stringify({ id, type: 'complete' }));
+            if (subscriptions.size === 0) closeSocket();
+        };
+    };
+
+    const close = () => {
+        closed = true;
+        subscriptions.clear();
+        closeSocket();
+    };
+
+    return { uri, wsUri, query, subscribe, close };
+};
@@ -0,0 +1,125 @@
+// src/lib/indexerQueries.ts
+// Typed queries and subscriptions against the Midnight indexer GraphQL API (v1)
+import { IndexerClient } from '@/lib/indexerClient';
+
+// --- Result Types ---
+export interface IndexedBlock {
+    height: number;
+    hash: string;
+}
+
+export interface ContractStateUpdate {
+    address: string;
+    state: string;              // Hex-encoded contract state
+    txHash: string;             // Transaction that produced this state
+    blockHeight: number;
+}
+
+export type TransactionApplyStage = 'SucceedEntirely' | 'SucceedPartially' | 'FailEntirely';
+
+export interface TransactionInclusion {
+    txHash: string;
+    applyStage: TransactionApplyStage;
+    block: IndexedBlock;
+}
+
+// --- GraphQL Documents ---
+const CONTRACT_ACTION_FIELDS = `
+    address
+    state
+    transaction { hash block { height hash } }
+`;
+
+export const CONTRACT_STATE_QUERY = `
+    query ContractState($address: HexEncoded!) {
+        contractAction(address: $address) { ${CONTRACT_ACTION_FIELDS} }
+    }
+`;
+
+export const CONTRACT_STATE_SUBSCRIPTION = `
+    subscription ContractStateUpdates($address: HexEncoded!) {
+        contractActions(address: $address) { ${CONTRACT_ACTION_FIELDS} }
+    }
+`;
+
+export const TRANSACTION_BY_IDENTIFIER_QUERY = `
+    query TransactionByIdentifier($identifier: HexEncoded!) {
+        transactions(offset: { identifier: $identifier }) {
+            hash
+            applyStage
+            block { height hash }
+        }
+    }
+`;
+
+export const BLOCKS_SUBSCRIPTION = `
+    subscription Blocks {
+        blocks {
+            height
+            hash
+            transactions { hash identifiers applyStage }
+        }
+    }
+`;
+
+// --- Raw Shapes ---
+interface RawContractAction {
+    address: string;
+    state: string;
+    transaction: { hash: string; block: IndexedBlock };
+}
+
+interface RawTransaction {
+    hash: string;
+    applyStage: TransactionApplyStage;
+    block: IndexedBlock;
+}
+
+interface RawBlock extends IndexedBlock {
+    transactions: { hash: string; identifiers: string[]; applyStage: TransactionApplyStage }[];
+}
+
+const toContractState = (action: RawContractAction): ContractStateUpdate => ({
+    address: action.address,
+    state: action.state,
+    txHash: action.transaction.hash,
+    blockHeight: action.transaction.block.height,
+});
+
+// --- Contract State ---
+export const fetchContractState = async (client: IndexerClient, address: string): Promise<ContractStateUpdate | null> => {
+    const data = await client.query<{ contractAction: RawContractAction | null }>(CONTRACT_STATE_QUERY, { address });
+    return data.contractAction ? toContractState(data.contractAction) : null;
+};
+
+export const subscribeContractState = (
+    client: IndexerClient,
+    address: string,
+    onUpdate: (update: ContractStateUpdate) => void,
+    onError?: (err: Error) => void
+) => client.subscribe<{ contractActions: RawContractAction }>(CONTRACT_STATE_SUBSCRIPTION, { address }, {
+    next: data => onUpdate(toContractState(data.contractActions)),
+    error: onError,
+});
+
+// --- Transaction Inclusion ---
+// txId is the identifier returned by the wallet's submitTransaction
+export const fetchTransactionInclusion = async (client: IndexerClient, txId: string): Promise<TransactionInclusion | null> => {
+    const data = await client.query<{ transactions: RawTransaction[] }>(TRANSACTION_BY_IDENTIFIER_QUERY, { identifier: txId });
+    const tx = data.transactions[0];
+    return tx ? { txHash: tx.hash, applyStage: tx.applyStage, block: tx.block } : null;
+};
+
+// Watches new blocks and reports the first one that includes txId
+export const subscribeTransactionInclusion = (
+    client: IndexerClient,
+    txId: string,
+    onIncluded: (inclusion: TransactionInclusion) => void,
+    onError?: (err: Error) => void
+) => client.subscribe<{ blocks: RawBlock }>(BLOCKS_SUBSCRIPTION, undefined, {
+    next: ({ blocks: block }) => {
+        const tx = block.transactions.find(t => t.identifiers.includes(txId));
+        if (tx) onIncluded({ txHash: tx.hash, applyStage: tx.applyStage, block: { height: block.height, hash: block.hash } });
+    },
+    error: onError,
+});
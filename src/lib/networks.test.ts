@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { NETWORK_PRESETS, NetworkProfile, classifyServiceUris, resolveNetworkProfile } from '@/lib/networks';
+import { MOCK_SERVICE_URIS } from '@/mocks/mockWallet';
+
+const testnetUris = {
+    ...NETWORK_PRESETS.testnet,
+    indexerWsUri: NETWORK_PRESETS.testnet.indexerWsUri,
+    proverServerUri: 'http://localhost:6300',
+};
+
+describe('classifyServiceUris', () => {
+    it('recognises a preset network without an expected profile', () => {
+        expect(classifyServiceUris(testnetUris, null)).toEqual({ networkId: 'testnet', networkMismatch: false });
+    });
+
+    it('recognises devnet, including its local prover', () => {
+        const devnetUris = { ...NETWORK_PRESETS.devnet, proverServerUri: 'http://127.0.0.1:6300' };
+        expect(classifyServiceUris(devnetUris, NETWORK_PRESETS.devnet)).toEqual({ networkId: 'devnet', networkMismatch: false });
+        expect(classifyServiceUris(testnetUris, NETWORK_PRESETS.devnet)).toEqual({ networkId: 'testnet', networkMismatch: true });
+    });
+
+    it('treats localhost aliases, schemes and trailing slashes as the same service', () => {
+        const uris = {
+            ...MOCK_SERVICE_URIS,
+            indexerUri: 'https://localhost:8088/api/v1/graphql/',
+            substrateNodeUri: 'ws://localhost:9944',
+        };
+        expect(classifyServiceUris(uris, NETWORK_PRESETS.standalone)).toEqual({ networkId: 'standalone', networkMismatch: false });
+    });
+
+    it('flags a mismatch when the wallet is on another network', () => {
+        expect(classifyServiceUris(MOCK_SERVICE_URIS, NETWORK_PRESETS.testnet)).toEqual({ networkId: 'standalone', networkMismatch: true });
+    });
+
+    it('reports unknown services as a mismatch against a custom profile', () => {
+        const custom: NetworkProfile = {
+            id: 'custom',
+            name: 'Custom network',
+            indexerUri: 'https://indexer.custom.example/api/v1/graphql',
+            substrateNodeUri: 'https://rpc.custom.example',
+        };
+        const uris = { ...testnetUris, indexerUri: 'https://indexer.other.example/api/v1/graphql' };
+        expect(classifyServiceUris(uris, custom)).toEqual({ networkId: 'unknown', networkMismatch: true });
+    });
+
+    it('only checks the prover when the profile names one', () => {
+        const withProver = { ...NETWORK_PRESETS.standalone, proverServerUri: 'http://127.0.0.1:6301' };
+        expect(classifyServiceUris(MOCK_SERVICE_URIS, withProver).networkMismatch).toBe(true);
+    });
+});
+
+describe('resolveNetworkProfile', () => {
+    it('resolves preset ids and passes profiles through', () => {
+        expect(resolveNetworkProfile('testnet')).toBe(NETWORK_PRESETS.testnet);
+        expect(resolveNetworkProfile(NETWORK_PRESETS.standalone)).toBe(NETWORK_PRESETS.standalone);
+        expect(resolveNetworkProfile(undefined)).toBeNull();
+        expect(resolveNetworkProfile('nope')).toBeNull();
+    });
+});
@@ -0,0 +1,102 @@
+// src/lib/networks.ts
+import type { ServiceUriConfig } from '@midnight-ntwrk/dapp-connector-api';
+import { WalletLogger, defaultLogger } from '@/lib/walletLogger';
+
+// --- Network Profile ---
+// The services a DApp expects the wallet to use. Unset URIs are not checked.
+export interface NetworkProfile {
+    id: string;
+    name: string;
+    indexerUri: string;
+    indexerWsUri?: string;
+    substrateNodeUri: string;
+    proverServerUri?: string;   // Usually the user's own proof server, so only checked when given
+}
+
+// --- Presets ---
+export const NETWORK_PRESETS = {
+    testnet: {
+        id: 'testnet',
+        name: 'Testnet',
+        indexerUri: 'https://indexer.testnet-02.midnight.network/api/v1/graphql',
+        indexerWsUri: 'wss://indexer.testnet-02.midnight.network/api/v1/graphql/ws',
+        substrateNodeUri: 'https://rpc.testnet-02.midnight.network',
+    },
+    devnet: {
+        id: 'devnet',
+        name: 'Devnet',
+        indexerUri: 'https://indexer.devnet.midnight.network/api/v1/graphql',
+        indexerWsUri: 'wss://indexer.devnet.midnight.network/api/v1/graphql/ws',
+        substrateNodeUri: 'https://rpc.devnet.midnight.network',
+        proverServerUri: 'http://localhost:6300',   // Devnet has no hosted prover; wallets prove locally
+    },
+    standalone: {
+        id: 'standalone',
+        name: 'Local standalone node',
+        indexerUri: 'http://127.0.0.1:8088/api/v1/graphql',
+        indexerWsUri: 'ws://127.0.0.1:8088/api/v1/graphql/ws',
+        substrateNodeUri: 'http://127.0.0.1:9944',
+    },
+} satisfies Record<string, NetworkProfile>;
+
+export type NetworkPresetId = keyof typeof NETWORK_PRESETS;
+
+// --- Resolve Profile ---
+// Accepts a preset id (e.g. from NEXT_PUBLIC_MIDNIGHT_NETWORK) or a full profile
+export const resolveNetworkProfile = (
+    network: string | NetworkProfile | null | undefined,
+    logger: WalletLogger = defaultLogger
+): NetworkProfile | null => {
+    if (!network) return null;
+    if (typeof network !== 'string') return network;
+    if (network in NETWORK_PRESETS) return NETWORK_PRESETS[network as NetworkPresetId];
+    logger.warn(`Unknown Midnight network preset '${network}'. Pass a NetworkProfile for custom networks.`);
+    return null;
+};
+
+// --- URI Comparison ---
+// Scheme (http/ws, secure or not), trailing slashes and localhost aliases don't make a different service
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const normaliseUri = (uri: string): string => {
+    try {
+        const url = new URL(uri);
+        const hostname = LOCAL_HOSTS.includes(url.hostname) ? 'localhost' : url.hostname;
+        const port = url.port ? `:${url.port}` : '';
+        return `${hostname}${port}${url.pathname.replace(/\/+$/, '')}`.toLowerCase();
+    } catch {
+        return uri.trim().replace(/\/+$/, '').toLowerCase();
+    }
+};
+
+export const serviceUrisMatch = (uris: ServiceUriConfig, profile: NetworkProfile): boolean => {
+    const checks: [string, string | undefined][] = [
+        [uris.indexerUri, profile.indexerUri],
+        [uris.indexerWsUri, profile.indexerWsUri],
+        [uris.substrateNodeUri, profile.substrateNodeUri],
+        [uris.proverServerUri, profile.proverServerUri],
+    ];
+    return checks.every(([actual, expected]) => expected === undefined || normaliseUri(actual) === normaliseUri(expected));
+};
+
+// --- Classify ---
+// networkId is the expected profile's id, a preset's id, or 'unknown' when nothing matches
+export interface NetworkClassification {
+    networkId: string;
+    networkMismatch: boolean;   // Only ever true when an expected profile was given
+}
+
+export const classifyServiceUris = (
+    uris: ServiceUriConfig,
+    expected: NetworkProfile | null
+): NetworkClassification => {
+    const candidates: NetworkProfile[] = [
+        ...(expected ? [expected] : []),
+        ...Object.values(NETWORK_PRESETS),
+    ];
+    const match = candidates.find(profile => serviceUrisMatch(uris, profile));
+    return {
+        networkId: match?.id ?? 'unknown',
+        networkMismatch: !!expected && match !== expected,
+    };
+};
@@ -0,0 +1,188 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { PrivateStatePassphraseError, PrivateStateStoreOptions, createPrivateStateStore } from '@/lib/privateStateStore';
+import { silentLogger } from '@/lib/walletLogger';
+
+const ALICE = 'mn_addr_alice';
+const BOB = 'mn_addr_bob';
+const CONTRACT = '02' + 'c'.repeat(64);
+const OTHER_CONTRACT = '02' + 'd'.repeat(64);
+
+const privateState = { secretKey: new Uint8Array([1, 2, 3]), round: BigInt(7), label: 'counter' };
+
+// Each test gets its own in-memory IndexedDB
+const setup = (options: PrivateStateStoreOptions = {}) => {
+    const indexedDB = new IDBFactory();
+    return { indexedDB, store: createPrivateStateStore({ indexedDB, ...options }) };
+};
+
+describe('createPrivateStateStore', () => {
+    it('refuses access while locked', async () => {
+        const { store } = setup();
+
+        await expect(store.get('counter')).rejects.toThrow(/locked/);
+
+        await store.unlock(ALICE);
+        store.lock();
+        await expect(store.set('counter', privateState)).rejects.toThrow(/locked/);
+    });
+
+    it('round-trips private state, including bigints and byte arrays', async () => {
+        const { store } = setup();
+        await store.unlock(ALICE);
+
+        await store.set('counter', privateState);
+
+        expect(await store.get('counter')).toEqual(privateState);
+        expect(await store.get('missing')).toBeNull();
+    });
+
+    it('keeps each wallet address in its own namespace', async () => {
+        const { store } = setup();
+        await store.unlock(ALICE);
+        await store.set('counter', privateState);
+        await store.setSigningKey(CONTRACT, 'alice-key');
+
+        await store.unlock(BOB);
+        expect(store.getActiveAddress()).toBe(BOB);
+        expect(await store.get('counter')).toBeNull();
+        expect(await store.getSigningKey(CONTRACT)).toBeNull();
+
+        await store.unlock(ALICE);
+        expect(await store.getSigningKey(CONTRACT)).toBe('alice-key');
+    });
+
+    it('leaves the store locked when the passphrase is refused, and asks again next time', async () => {
+        const passphrase = vi.fn()
+            .mockRejectedValueOnce(new Error('Dismissed.'))
+            .mockResolvedValue('correct horse');
+        const { store } = setup({ passphrase });
+
+        await expect(store.unlock(ALICE)).rejects.toThrow('Dismissed.');
+        expect(store.getActiveAddress()).toBeNull();
+        await expect(store.get('counter')).rejects.toThrow(/locked/);
+
+        await store.unlock(ALICE);
+        expect(passphrase).toHaveBeenCalledTimes(2);
+        expect(store.getActiveAddress()).toBe(ALICE);
+    });
+
+    it('follows the connected account, locking on disconnect', async () => {
+        const { store } = setup({ logger: silentLogger });
+
+        store.setAccount(ALICE);
+        await vi.waitFor(() => expect(store.getActiveAddress()).toBe(ALICE));
+        await store.set('counter', privateState);
+
+        store.setAccount(null);
+        expect(store.getActiveAddress()).toBeNull();
+        await expect(store.get('counter')).rejects.toThrow(/locked/);
+    });
+
+    it('keeps the same private state id apart for each contract', async () => {
+        const { store } = setup();
+        await store.unlock(ALICE);
+
+        await store.forContract(CONTRACT).set('counter', privateState);
+
+        expect(await store.forContract(CONTRACT).get('counter')).toEqual(privateState);
+        expect(await store.forContract(OTHER_CONTRACT).get('counter')).toBeNull();
+        expect(await store.get('counter')).toBeNull();
+
+        await store.forContract(OTHER_CONTRACT).set('counter', { round: BigInt(1) });
+        await store.forContract(OTHER_CONTRACT).clear();
+        expect(await store.forContract(CONTRACT).get('counter')).toEqual(privateState);
+    });
+
+    it('files a deployment\'s initial state under the address its signing key names', async () => {
+        const { store } = setup();
+        await store.unlock(ALICE);
+        const deploying = store.forContract();
+
+        // The order midnight-js uses after a successful deploy
+        await deploying.set('counter', privateState);
+        expect(await deploying.get('counter')).toEqual(privateState);
+        await deploying.setSigningKey(CONTRACT, 'alice-key');
+
+        expect(await store.forContract(CONTRACT).get('counter')).toEqual(privateState);
+        expect(await store.getSigningKey(CONTRACT)).toBe('alice-key');
+        await deploying.set('counter', { round: BigInt(8) });
+        expect(await store.forContract(CONTRACT).get('counter')).toEqual({ round: BigInt(8) });
+    });
+
+    it('clears only the active namespace', async () => {
+        const { store } = setup();
+        await store.unlock(ALICE);
+        await store.set('counter', privateState);
+        await store.unlock(BOB);
+        await store.set('counter', privateState);
+
+        await store.clear();
+
+        expect(await store.get('counter')).toBeNull();
+        await store.unlock(ALICE);
+        expect(await store.get('counter')).toEqual(privateState);
+    });
+
+    it('encrypts at rest and rejects the wrong passphrase', async () => {
+        const { indexedDB, store } = setup({ passphrase: 'correct horse' });
+        await store.unlock(ALICE);
+        await store.set('counter', privateState);
+
+        const backup = JSON.parse(await store.exportBackup());
+        expect(backup.privateStates[0].value.encrypted).toBe(true);
+        expect(backup.privateStates[0].value.data).not.toContain('counter');
+
+        const intruder = createPrivateStateStore({ indexedDB, passphrase: 'wrong' });
+        await expect(intruder.unlock(ALICE)).rejects.toBeInstanceOf(PrivateStatePassphraseError);
+        await expect(intruder.get('counter')).rejects.toThrow(/locked/);
+    });
+
+    it('writes nothing under a wrong passphrase, so the namespace keeps a single key', async () => {
+        const { indexedDB, store } = setup({ passphrase: 'correct horse' });
+        await store.unlock(ALICE);
+        await store.set('counter', privateState);
+
+        const intruder = createPrivateStateStore({ indexedDB, passphrase: 'wrong', logger: silentLogger });
+        intruder.setAccount(ALICE);
+        await expect(intruder.set('other', privateState)).rejects.toBeInstanceOf(PrivateStatePassphraseError);
+        await expect(intruder.unlock(ALICE)).rejects.toMatchObject({ name: 'PrivateStatePassphraseError', address: ALICE });
+        await expect(intruder.forContract(CONTRACT).set('counter', privateState)).rejects.toThrow(/locked/);
+
+        const owner = createPrivateStateStore({ indexedDB, passphrase: 'correct horse' });
+        await owner.unlock(ALICE);
+        expect(await owner.get('counter')).toEqual(privateState);
+        expect(JSON.parse(await owner.exportBackup()).privateStates).toHaveLength(1);
+    });
+
+    it('exports a versioned backup and imports it into a fresh database', async () => {
+        const source = setup({ passphrase: address => `pass-${address}` }).store;
+        await source.unlock(ALICE);
+        await source.set('counter', privateState);
+        await source.forContract(CONTRACT).set('counter', { round: BigInt(1) });
+        await source.setSigningKey(CONTRACT, 'alice-key');
+        const json = await source.exportBackup();
+
+        expect(JSON.parse(json)).toMatchObject({ format: 'midnight-private-state-backup', version: 1, address: ALICE });
+
+        const target = setup({ passphrase: address => `pass-${address}` }).store;
+        await target.unlock(ALICE);
+        expect(await target.importBackup(json)).toBe(3);
+        expect(await target.get('counter')).toEqual(privateState);
+        expect(await target.forContract(CONTRACT).get('counter')).toEqual({ round: BigInt(1) });
+        expect(await target.getSigningKey(CONTRACT)).toBe('alice-key');
+    });
+
+    it('rejects backups for another address or an unknown version', async () => {
+        const { store } = setup();
+        await store.unlock(ALICE);
+        const json = await store.exportBackup();
+
+        await store.unlock(BOB);
+        await expect(store.importBackup(json)).rejects.toThrow(/different wallet address/);
+
+        await store.unlock(ALICE);
+        await expect(store.importBackup(JSON.stringify({ ...JSON.parse(json), version: 99 }))).rejects.toThrow(/Unsupported backup version 99/);
+    });
+});
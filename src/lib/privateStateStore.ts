@@ -0,0 +1,390 @@
+// src/lib/privateStateStore.ts
+// IndexedDB-backed private state for Compact contracts, namespaced by wallet address, scoped by
+// contract address and optionally encrypted at rest. Implements midnight-js's PrivateStateProvider.
+import type { PrivateStateId, PrivateStateProvider } from '@midnight-ntwrk/midnight-js-types';
+import { getBrowserIndexedDB, idbRequest, idbTransactionDone } from '@/lib/indexedDb';
+import { WalletLogger, defaultLogger } from '@/lib/walletLogger';
+
+const DEFAULT_DB_NAME = 'midnight-private-state';
+const DB_VERSION = 1;
+const NAMESPACES = 'namespaces';
+const PRIVATE_STATES = 'privateStates';
+const SIGNING_KEYS = 'signingKeys';
+
+// Contract scope of states set on the store itself rather than through forContract()
+const UNSCOPED = '';
+
+type RecordStoreName = typeof PRIVATE_STATES | typeof SIGNING_KEYS;
+
+// Record keys after the wallet address: [contractAddress, id] for private states, [contractAddress] for signing keys
+const recordFields = (storeName: RecordStoreName, key: string[]) =>
+    storeName === PRIVATE_STATES ? { contractAddress: key[0], id: key[1] } : { contractAddress: key[0] };
+
+export const BACKUP_FORMAT = 'midnight-private-state-backup';
+export const BACKUP_VERSION = 1;
+
+// --- Stored Shapes ---
+// Values are serialised to tagged JSON, then encrypted when a passphrase is configured
+type StoredValue =
+    | { encrypted: false; data: string }
+    | { encrypted: true; iv: string; data: string };
+
+interface NamespaceRecord {
+    address: string;
+    salt: string;                   // Base64 PBKDF2 salt, created with the namespace
+    verifier: StoredValue | null;   // NAMESPACE_CHECK sealed with the namespace's key; null while it has none
+}
+
+// Sealed into the namespace record, so unlock can tell a wrong passphrase before anything is written
+const NAMESPACE_CHECK = 'midnight-private-state';
+
+export class PrivateStatePassphraseError extends Error {
+    constructor(readonly address: string) {
+        super('Could not unlock private state. Is the passphrase correct?');
+        this.name = 'PrivateStatePassphraseError';
+    }
+}
+
+interface PrivateStateRecord {
+    address: string;
+    contractAddress: string;    // UNSCOPED for states set on the store itself
+    id: PrivateStateId;
+    value: StoredValue;
+}
+
+interface SigningKeyRecord {
+    address: string;
+    contractAddress: string;
+    value: StoredValue;
+}
+
+// --- Backup File ---
+// Records are exported as stored, so an encrypted backup needs the same passphrase to import
+export interface PrivateStateBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    address: string;
+    exportedAt: string;
+    salt: string;
+    privateStates: { contractAddress: string; id: PrivateStateId; value: StoredValue }[];
+    signingKeys: { contractAddress: string; value: StoredValue }[];
+}
+
+// --- Store Types ---
+export interface PrivateStateStoreOptions {
+    dbName?: string;
+    indexedDB?: IDBFactory | null;        // Defaults to window.indexedDB
+    // Enables encryption at rest; a function is asked once per account when it is unlocked
+    passphrase?: string | ((address: string) => string | Promise<string>);
+    logger?: WalletLogger;                // Defaults to the shared console logger
+}
+
+// The store's own PrivateStateProvider methods share one unscoped set of states per wallet;
+// useContract works through forContract() so two contracts never read each other's state
+export interface PrivateStateStore extends PrivateStateProvider {
+    getActiveAddress: () => string | null;
+    unlock: (address: string) => Promise<void>;   // Switch to this wallet's namespace
+    lock: () => void;                              // Drop the active namespace and its key
+    setAccount: (address: string | null) => void; // Follow the connected account: unlock its namespace, or lock on null
+    forContract: (contractAddress?: string) => PrivateStateProvider;  // Omit the address for a contract being deployed
+    exportBackup: () => Promise<string>;           // Versioned JSON for the active namespace
+    importBackup: (json: string) => Promise<number>;
+}
+
+// --- Serialisation ---
+// Private state commonly holds bigints and byte arrays, which plain JSON can't carry
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export const serializePrivateState = (value: unknown): string =>
+    JSON.stringify(value, (_key, v: unknown) => {
+        if (typeof v === 'bigint') return { $bigint: v.toString() };
+        if (v instanceof Uint8Array) return { $bytes: toBase64(v) };
+        return v;
+    });
+
+export const deserializePrivateState = (json: string): unknown =>
+    JSON.parse(json, (_key, v: unknown) => {
+        if (v && typeof v === 'object') {
+            if ('$bigint' in v && typeof v.$bigint === 'string') return BigInt(v.$bigint);
+            if ('$bytes' in v && typeof v.$bytes === 'string') return fromBase64(v.$bytes);
+        }
+        return v;
+    });
+
+// --- Encryption ---
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: 210000, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const seal = async (value: unknown, key: CryptoKey | null): Promise<StoredValue> => {
+    const data = serializePrivateState(value);
+    if (!key) return { encrypted: false, data };
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(data));
+    return { encrypted: true, iv: toBase64(iv), data: toBase64(new Uint8Array(cipher)) };
+};
+
+const unseal = async (stored: StoredValue, key: CryptoKey | null): Promise<unknown> => {
+    if (!stored.encrypted) return deserializePrivateState(stored.data);
+    if (!key) throw new Error('Private state is encrypted but no passphrase is configured.');
+    try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+        return deserializePrivateState(new TextDecoder().decode(plain));
+    } catch {
+        throw new Error('Could not decrypt private state. Is the passphrase correct?');
+    }
+};
+
+// --- IndexedDB ---
+const openDatabase = (factory: IDBFactory, name: string): Promise<IDBDatabase> => {
+    const req = factory.open(name, DB_VERSION);
+    req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore(NAMESPACES, { keyPath: 'address' });
+        db.createObjectStore(SIGNING_KEYS, { keyPath: ['address', 'contractAddress'] }).createIndex('address', 'address');
+        const privateStates = db.createObjectStore(PRIVATE_STATES, { keyPath: ['address', 'contractAddress', 'id'] });
+        privateStates.createIndex('address', 'address');
+        privateStates.createIndex('contract', ['address', 'contractAddress']);
+    };
+    return idbRequest(req);
+};
+
+// --- Create Store ---
+export const createPrivateStateStore = (options: PrivateStateStoreOptions = {}): PrivateStateStore => {
+    const { dbName = DEFAULT_DB_NAME, passphrase, logger = defaultLogger } = options;
+    const factory = options.indexedDB === undefined ? getBrowserIndexedDB() : options.indexedDB;
+
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    // Operations capture the namespace they started with, so a switch mid-call can't leak across accounts
+    let active: Promise<{ address: string; salt: string; key: CryptoKey | null }> | null = null;
+    let activeAddress: string | null = null;
+
+    const db = () => {
+        if (!factory) return Promise.reject(new Error('IndexedDB is not available in this environment.'));
+        dbPromise ??= openDatabase(factory, dbName);
+        return dbPromise;
+    };
+
+    const namespace = () => {
+        if (!active) return Promise.reject(new Error('Private state is locked. Connect a wallet to unlock it.'));
+        return active;
+    };
+
+    // --- Namespace Switching ---
+    const keyFor = async (address: string, salt: string) => {
+        if (passphrase === undefined) return null;
+        const secret = typeof passphrase === 'function' ? await passphrase(address) : passphrase;
+        return deriveKey(secret, fromBase64(salt));
+    };
+
+    const saveNamespace = async (record: NamespaceRecord) => {
+        const database = await db();
+        const tx = database.transaction(NAMESPACES, 'readwrite');
+        tx.objectStore(NAMESPACES).put(record);
+        await idbTransactionDone(tx);
+    };
+
+    // The key is checked against the namespace's verifier; the first key a namespace sees becomes its own
+    const loadNamespace = async (address: string) => {
+        const database = await db();
+        const existing = await idbRequest<NamespaceRecord | undefined>(database.transaction(NAMESPACES).objectStore(NAMESPACES).get(address));
+        const salt = existing?.salt ?? toBase64(crypto.getRandomValues(new Uint8Array(16)));
+        const key = await keyFor(address, salt);
+        if (existing?.verifier) {
+            const check = await unseal(existing.verifier, key).catch(() => null);
+            if (check !== NAMESPACE_CHECK) throw new PrivateStatePassphraseError(address);
+        } else if (!existing || key) {
+            await saveNamespace({ address, salt, verifier: key ? await seal(NAMESPACE_CHECK, key) : null });
+        }
+        return { address, salt, key };
+    };
+
+    const unlock = async (address: string) => {
+        if (activeAddress === address && active) {
+            await active;
+            return;
+        }
+        logger.debug(`Private state: switching to namespace ${address}`);
+        const loading = loadNamespace(address);
+        activeAddress = address;
+        active = loading;
+        try {
+            await loading;
+        } catch (err) {
+            // A rejected passphrase leaves the store locked, so the next unlock asks again
+            if (active === loading) {
+                activeAddress = null;
+                active = null;
+            }
+            throw err;
+        }
+    };
+
+    const lock = () => {
+        if (activeAddress) logger.debug("Private state: locked.");
+        activeAddress = null;
+        active = null;
+    };
+
+    // An account switch swaps namespaces, a disconnect locks them
+    const setAccount = (address: string | null) => {
+        if (!address) {
+            lock();
+            return;
+        }
+        unlock(address).catch(err => logger.error("Could not unlock private state:", err));
+    };
+
+    // --- Record Access ---
+    // Each call resolves the namespace once, so its key and address always belong together
+    const getRecord = async (storeName: RecordStoreName, recordKey: string[]) => {
+        const { address, key } = await namespace();
+        const database = await db();
+        const record = await idbRequest<PrivateStateRecord | SigningKeyRecord | undefined>(
+            database.transaction(storeName).objectStore(storeName).get([address, ...recordKey])
+        );
+        return record ? unseal(record.value, key) : null;
+    };
+
+    const putRecord = async (storeName: RecordStoreName, recordKey: string[], value: unknown) => {
+        const { address, key } = await namespace();
+        const sealed = await seal(value, key);
+        const database = await db();
+        const tx = database.transaction(storeName, 'readwrite');
+        tx.objectStore(storeName).put({ address, ...recordFields(storeName, recordKey), value: sealed });
+        await idbTransactionDone(tx);
+    };
+
+    const deleteRecord = async (storeName: RecordStoreName, recordKey: string[]) => {
+        const { address } = await namespace();
+        const database = await db();
+        const tx = database.transaction(storeName, 'readwrite');
+        tx.objectStore(storeName).delete([address, ...recordKey]);
+        await idbTransactionDone(tx);
+    };
+
+    // Private states are cleared for one contract scope, signing keys for the whole namespace
+    const clearRecords = async (storeName: RecordStoreName, contractAddress?: string) => {
+        const { address } = await namespace();
+        const database = await db();
+        const tx = database.transaction(storeName, 'readwrite');
+        const store = tx.objectStore(storeName);
+        const keys = await idbRequest(contractAddress === undefined
+            ? store.index('address').getAllKeys(address)
+            : store.index('contract').getAllKeys([address, contractAddress]));
+        keys.forEach(key => store.delete(key));
+        await idbTransactionDone(tx);
+    };
+
+    const signingKeyAccess = {
+        setSigningKey: (contractAddress: string, signingKey: string) => putRecord(SIGNING_KEYS, [contractAddress], signingKey),
+        getSigningKey: (contractAddress: string) => getRecord(SIGNING_KEYS, [contractAddress]) as Promise<string | null>,
+        removeSigningKey: (contractAddress: string) => deleteRecord(SIGNING_KEYS, [contractAddress]),
+        clearSigningKeys: () => clearRecords(SIGNING_KEYS),
+    };
+
+    // --- Contract Views ---
+    // A view for a deployment doesn't know its contract yet. midnight-js stores the new contract's
+    // signing key right after its initial private state, so states set before that wait in memory.
+    const forContract = (contractAddress?: string): PrivateStateProvider => {
+        let scope = contractAddress ?? null;
+        const held = new Map<PrivateStateId, unknown>();
+        return {
+            set: async (id, state) => {
+                if (scope === null) held.set(id, state);
+                else await putRecord(PRIVATE_STATES, [scope, id], state);
+            },
+            get: async id => (scope === null ? held.get(id) ?? null : getRecord(PRIVATE_STATES, [scope, id])),
+            remove: async id => {
+                if (scope === null) held.delete(id);
+                else await deleteRecord(PRIVATE_STATES, [scope, id]);
+            },
+            clear: async () => {
+                held.clear();
+                if (scope !== null) await clearRecords(PRIVATE_STATES, scope);
+            },
+            ...signingKeyAccess,
+            setSigningKey: async (address, signingKey) => {
+                await signingKeyAccess.setSigningKey(address, signingKey);
+                if (scope !== null) return;
+                scope = address;
+                for (const [id, state] of held) await putRecord(PRIVATE_STATES, [address, id], state);
+                held.clear();
+            },
+        };
+    };
+
+    const listNamespace = async <T>(storeName: RecordStoreName, address: string): Promise<T[]> => {
+        const database = await db();
+        return idbRequest<T[]>(database.transaction(storeName).objectStore(storeName).index('address').getAll(address));
+    };
+
+    // --- Backups ---
+    const exportBackup = async () => {
+        const { address, salt } = await namespace();
+        const backup: PrivateStateBackup = {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            address,
+            exportedAt: new Date().toISOString(),
+            salt,
+            privateStates: (await listNamespace<PrivateStateRecord>(PRIVATE_STATES, address)).map(({ contractAddress, id, value }) => ({ contractAddress, id, value })),
+            signingKeys: (await listNamespace<SigningKeyRecord>(SIGNING_KEYS, address)).map(({ contractAddress, value }) => ({ contractAddress, value })),
+        };
+        return JSON.stringify(backup, null, 2);
+    };
+
+    // Restores into the active namespace, which must belong to the same wallet address.
+    // Records are decrypted with the backup's salt and re-sealed with this namespace's key.
+    const importBackup = async (json: string) => {
+        const { address, key } = await namespace();
+        const backup = JSON.parse(json) as Partial<PrivateStateBackup>;
+        if (backup.format !== BACKUP_FORMAT) throw new Error('Not a private state backup file.');
+        if (backup.version !== BACKUP_VERSION) throw new Error(`Unsupported backup version ${backup.version}.`);
+        if (backup.address !== address) throw new Error('This backup belongs to a different wallet address.');
+
+        const { privateStates = [], signingKeys = [] } = backup;
+        const backupKey = backup.salt ? await keyFor(address, backup.salt) : null;
+        const reseal = async (value: StoredValue) => seal(await unseal(value, backupKey), key);
+
+        // Decrypt everything first so a wrong passphrase leaves the store untouched
+        const states = await Promise.all(privateStates.map(async ({ contractAddress, id, value }) => ({ address, contractAddress, id, value: await reseal(value) })));
+        const keys = await Promise.all(signingKeys.map(async ({ contractAddress, value }) => ({ address, contractAddress, value: await reseal(value) })));
+
+        const database = await db();
+        const tx = database.transaction([PRIVATE_STATES, SIGNING_KEYS], 'readwrite');
+        states.forEach(record => tx.objectStore(PRIVATE_STATES).put(record));
+        keys.forEach(record => tx.objectStore(SIGNING_KEYS).put(record));
+        await idbTransactionDone(tx);
+        return states.length + keys.length;
+    };
+
+    return {
+        getActiveAddress: () => activeAddress,
+        unlock,
+        lock,
+        setAccount,
+        forContract,
+        exportBackup,
+        importBackup,
+        // --- PrivateStateProvider ---
+        set: (id, state) => putRecord(PRIVATE_STATES, [UNSCOPED, id], state),
+        get: id => getRecord(PRIVATE_STATES, [UNSCOPED, id]),
+        remove: id => deleteRecord(PRIVATE_STATES, [UNSCOPED, id]),
+        clear: () => clearRecords(PRIVATE_STATES, UNSCOPED),
+        ...signingKeyAccess,
+    };
+};
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PROVER_HEALTH_OPTIONS, probeProver, selectProver } from '@/lib/proverHealth';
+
+const WALLET_PROVER = 'https://prover.example';
+const LOCAL_PROVER = 'http://localhost:6300';
+
+// Each prover answers /health after its latency; null means it refuses the connection
+const createProverFetch = (latencies: Record<string, number | null>) => vi.fn((url: string | URL | Request, init?: RequestInit) => {
+    const latency = latencies[String(url).replace(/\/health$/, '')];
+    if (latency === null || latency === undefined) return Promise.reject(new TypeError('Failed to fetch'));
+    return new Promise<Response>((resolve, reject) => {
+        const timer = setTimeout(() => resolve(new Response('{"status":"ok"}')), latency);
+        init?.signal?.addEventListener('abort', () => { clearTimeout(timer); reject(new DOMException('Aborted', 'AbortError')); });
+    });
+}) as unknown as typeof fetch;
+
+const options = { ...DEFAULT_PROVER_HEALTH_OPTIONS, fallbackUris: [LOCAL_PROVER] };
+
+// Settles the probes while the fake clock runs
+const select = async (latencies: Record<string, number | null>, walletUri: string | null = WALLET_PROVER) => {
+    const result = selectProver(walletUri, options, createProverFetch(latencies));
+    await vi.advanceTimersByTimeAsync(options.timeoutMs * 3);
+    return result;
+};
+
+describe('selectProver', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("prefers the wallet's prover and skips the fallbacks when it is fast", async () => {
+        const status = await select({ [WALLET_PROVER]: 100, [LOCAL_PROVER]: 10 });
+
+        expect(status).toMatchObject({ state: 'healthy', uri: WALLET_PROVER, source: 'wallet', latencyMs: 100 });
+        expect(status.probes).toHaveLength(1);
+    });
+
+    it('falls back in order when the wallet prover is down', async () => {
+        const status = await select({ [WALLET_PROVER]: null, [LOCAL_PROVER]: 20 });
+
+        expect(status).toMatchObject({ state: 'healthy', uri: LOCAL_PROVER, source: 'fallback' });
+        expect(status.probes.map(p => [p.uri, p.ok])).toEqual([[WALLET_PROVER, false], [LOCAL_PROVER, true]]);
+    });
+
+    it('settles for the quickest slow prover as degraded', async () => {
+        const status = await select({ [WALLET_PROVER]: 4000, [LOCAL_PROVER]: 2000 });
+
+        expect(status).toMatchObject({ state: 'degraded', uri: LOCAL_PROVER, latencyMs: 2000 });
+    });
+
+    it('reports unavailable when every prover fails or times out', async () => {
+        const status = await select({ [WALLET_PROVER]: options.timeoutMs + 1000, [LOCAL_PROVER]: null });
+
+        expect(status).toMatchObject({ state: 'unavailable', uri: null, source: null, latencyMs: null });
+        expect(status.probes[0].error).toBe(`No answer within ${options.timeoutMs}ms`);
+    });
+
+    it('probes only the fallbacks before the wallet reports a prover', async () => {
+        const status = await select({ [LOCAL_PROVER]: 5 }, null);
+
+        expect(status).toMatchObject({ state: 'healthy', uri: LOCAL_PROVER, source: 'fallback' });
+    });
+});
+
+describe('probeProver', () => {
+    it('treats an error response as down', async () => {
+        const fetchFn = vi.fn(async () => new Response('', { status: 503 })) as unknown as typeof fetch;
+
+        expect(await probeProver(`${LOCAL_PROVER}/`, fetchFn, 1000)).toEqual({ uri: `${LOCAL_PROVER}/`, ok: false, latencyMs: null, error: 'HTTP 503' });
+        expect(fetchFn).toHaveBeenCalledWith(`${LOCAL_PROVER}/health`, expect.anything());
+    });
+});
@@ -0,0 +1,100 @@
+// src/lib/proverHealth.ts
+// Health checks for the proof server. Probes the wallet's prover, then the DApp's fallbacks
+// in order, and picks the first one that answers in time.
+
+// --- Status ---
+// healthy:     the chosen prover answered within slowMs
+// degraded:    only slow provers answered; proving works but will drag
+// unavailable: no prover answered, so proving will fail
+export type ProverState = 'unknown' | 'checking' | 'healthy' | 'degraded' | 'unavailable';
+
+export interface ProverProbe {
+    uri: string;
+    ok: boolean;
+    latencyMs: number | null;   // null when the probe failed
+    error: string | null;
+}
+
+export interface ProverStatus {
+    state: ProverState;
+    uri: string | null;                         // Prover to use, null when none answered
+    source: 'wallet' | 'fallback' | null;       // Whether uri came from serviceUriConfig() or the fallbacks
+    latencyMs: number | null;
+    probes: ProverProbe[];                      // Every candidate tried in the last check, in order
+    checkedAt: number | null;
+}
+
+export const UNKNOWN_PROVER_STATUS: ProverStatus = {
+    state: 'unknown',
+    uri: null,
+    source: null,
+    latencyMs: null,
+    probes: [],
+    checkedAt: null,
+};
+
+// --- Options ---
+export interface ProverHealthOptions {
+    fallbackUris: string[];     // Tried in order after the wallet's prover, e.g. 'http://localhost:6300'
+    intervalMs: number;         // Time between checks while connected
+    timeoutMs: number;          // A probe slower than this counts as down
+    slowMs: number;             // A probe slower than this counts as degraded
+}
+
+export const DEFAULT_PROVER_HEALTH_OPTIONS: ProverHealthOptions = {
+    fallbackUris: [],
+    intervalMs: 30000,
+    timeoutMs: 5000,
+    slowMs: 1500,
+};
+
+// --- Probe ---
+// The proof server answers GET /health without doing any proving work
+export const probeProver = async (uri: string, fetchFn: typeof fetch, timeoutMs: number): Promise<ProverProbe> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const startedAt = Date.now();
+    try {
+        const response = await fetchFn(`${uri.replace(/\/+$/, '')}/health`, { signal: controller.signal, cache: 'no-store' });
+        if (!response.ok) return { uri, ok: false, latencyMs: null, error: `HTTP ${response.status}` };
+        return { uri, ok: true, latencyMs: Date.now() - startedAt, error: null };
+    } catch (err) {
+        const error = controller.signal.aborted ? `No answer within ${timeoutMs}ms` : err instanceof Error ? err.message : String(err);
+        return { uri, ok: false, latencyMs: null, error };
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+// --- Selection ---
+// Stops at the first fast prover; otherwise settles for the quickest slow one
+export const selectProver = async (
+    walletUri: string | null,
+    options: ProverHealthOptions,
+    fetchFn: typeof fetch,
+    now = Date.now
+): Promise<ProverStatus> => {
+    const candidates = [...new Set([walletUri, ...options.fallbackUris].filter((uri): uri is string => !!uri))];
+    const probes: ProverProbe[] = [];
+
+    for (const uri of candidates) {
+        const probe = await probeProver(uri, fetchFn, options.timeoutMs);
+        probes.push(probe);
+        if (probe.ok && probe.latencyMs !== null && probe.latencyMs <= options.slowMs) break;
+    }
+
+    const best = probes
+        .filter(p => p.ok)
+        .sort((a, b) => (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity))[0];
+    const fast = probes.find(p => p.ok && p.latencyMs !== null && p.latencyMs <= options.slowMs);
+    const chosen = fast ?? best;
+
+    return {
+        state: !chosen ? 'unavailable' : fast ? 'healthy' : 'degraded',
+        uri: chosen?.uri ?? null,
+        source: !chosen ? null : chosen.uri === walletUri ? 'wallet' : 'fallback',
+        latencyMs: chosen?.latencyMs ?? null,
+        probes,
+        checkedAt: now(),
+    };
+};
@@ -0,0 +1,14 @@
+// src/lib/server/walletHydration.ts
+// Reads the wallet hydration hint for server components, e.g. the root layout.
+// Reading cookies makes the route render dynamically.
+import { cookies } from 'next/headers';
+import {
+    WALLET_HYDRATION_COOKIE,
+    WalletHydrationState,
+    decodeWalletHydrationCookie
+} from '@/lib/walletHydration';
+
+export const getWalletHydrationState = async (cookieName = WALLET_HYDRATION_COOKIE): Promise<WalletHydrationState | null> => {
+    const cookieStore = await cookies();
+    return decodeWalletHydrationCookie(cookieStore.get(cookieName)?.value);
+};
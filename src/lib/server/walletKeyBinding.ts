@@ -0,0 +1,8 @@
+// src/lib/server/walletKeyBinding.ts
+// Which verifying keys may sign in for which address. Used by the /api/wallet-session route.
+import type { WalletKeyBinding } from '@/lib/server/walletSession';
+
+// --- App Key Binding ---
+// null until the app can tie a key to an address, e.g. from a registry of keys its users have
+// proven on chain. While it is null, POST /api/wallet-session answers 501 and issues no session.
+export const walletKeyBinding: WalletKeyBinding | null = null;
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { sampleSigningKey, signData, signatureVerifyingKey } from '@midnight-ntwrk/compact-runtime';
+import {
+    WalletKeyBinding,
+    createMemoryNonceStore,
+    decodeSessionCookie,
+    encodeSessionCookie,
+    issueChallenge,
+    verifyProof as verify
+} from '@/lib/server/walletSession';
+import { WalletChallenge } from '@/lib/walletAuth';
+
+const ORIGIN = 'https://dapp.example';
+const request = { address: 'mn_addr_alice', coinPublicKey: 'mn_shield-cpk_alice' };
+
+// Plays the wallet: signs the challenge message with its own key
+const signingKey = sampleSigningKey();
+const prove = (challenge: WalletChallenge, key = signingKey) => ({
+    token: challenge.token,
+    signature: signData(key, new TextEncoder().encode(challenge.message)),
+    verifyingKey: signatureVerifyingKey(signingKey),
+});
+
+// Plays the app's registry: only signingKey may sign in, and only for alice
+const keyBinding: WalletKeyBinding = ({ address, verifyingKey }) =>
+    address === request.address && verifyingKey === signatureVerifyingKey(signingKey);
+
+const verifyProof = (proof: ReturnType<typeof prove>, now: number, binding: WalletKeyBinding | null = keyBinding) =>
+    verify(proof, { keyBinding: binding, nonces: createMemoryNonceStore(() => now), now });
+
+describe('wallet session handshake', () => {
+    it('issues a challenge naming the origin, address and nonce', () => {
+        const challenge = issueChallenge(request, ORIGIN, 1_000);
+
+        expect(challenge).toMatchObject({ ...request, issuedAt: 1_000, expiresAt: 1_000 + 5 * 60 * 1000 });
+        expect(challenge.message).toContain(`${ORIGIN} wants you to sign in`);
+        expect(challenge.message).toContain(request.address);
+        expect(challenge.message).toContain(challenge.nonce);
+        expect(issueChallenge(request, ORIGIN).nonce).not.toBe(challenge.nonce);
+    });
+
+    it('rejects a challenge request without an address', () => {
+        expect(() => issueChallenge({ ...request, address: '' }, ORIGIN)).toThrow(/required/);
+    });
+
+    it('rejects line breaks that would add lines to the signed message', () => {
+        expect(() => issueChallenge({ ...request, address: 'mn_addr_alice\nNonce: 00' }, ORIGIN)).toThrow(/single line/);
+        expect(() => issueChallenge({ ...request, coinPublicKey: 'cpk\r' }, ORIGIN)).toThrow(/single line/);
+    });
+
+    it('signs only the challenge fields, not whatever else the request carried', () => {
+        const challenge = issueChallenge({ ...request, expiresAt: Number.MAX_SAFE_INTEGER, admin: true } as typeof request, ORIGIN, 1_000);
+
+        expect(challenge.expiresAt).toBe(1_000 + 5 * 60 * 1000);
+        expect(challenge).not.toHaveProperty('admin');
+        const payload = JSON.parse(Buffer.from(challenge.token.split('.')[0], 'base64url').toString());
+        expect(Object.keys(payload).sort()).toEqual(['address', 'coinPublicKey', 'expiresAt', 'issuedAt', 'message', 'nonce', 'typ']);
+    });
+
+    it('verifies a signed challenge into a session', async () => {
+        const challenge = issueChallenge(request, ORIGIN, 1_000);
+
+        const session = await verifyProof(prove(challenge), 2_000);
+
+        expect(session).toEqual({
+            ...request,
+            verifyingKey: signatureVerifyingKey(signingKey),
+            expiresAt: 2_000 + 24 * 60 * 60 * 1000,
+        });
+    });
+
+    it('rejects tampered, expired and wrongly signed proofs', async () => {
+        const challenge = issueChallenge(request, ORIGIN, 1_000);
+        const proof = prove(challenge);
+        const forgedToken = challenge.token.replace(/^./, c => (c === 'a' ? 'b' : 'a'));
+
+        await expect(verifyProof({ ...proof, token: forgedToken }, 2_000)).rejects.toThrow(/tampered/);
+        await expect(verifyProof(proof, challenge.expiresAt + 1)).rejects.toThrow(/expired/);
+        await expect(verifyProof(prove(challenge, sampleSigningKey()), 2_000)).rejects.toThrow(/does not match/);
+    });
+
+    it('only issues sessions for keys bound to the challenged address', async () => {
+        const otherKey = sampleSigningKey();
+        const challenge = issueChallenge(request, ORIGIN, 1_000);
+        // A valid signature from a key the binding doesn't know
+        const selfSigned = {
+            token: challenge.token,
+            signature: signData(otherKey, new TextEncoder().encode(challenge.message)),
+            verifyingKey: signatureVerifyingKey(otherKey),
+        };
+
+        await expect(verifyProof(selfSigned, 2_000)).rejects.toMatchObject({ status: 403 });
+        await expect(verifyProof(prove(issueChallenge({ ...request, address: 'mn_addr_bob' }, ORIGIN, 1_000)), 2_000))
+            .rejects.toThrow(/not bound/);
+        await expect(verifyProof(prove(challenge), 2_000, null)).rejects.toMatchObject({ status: 501 });
+    });
+
+    it('redeems each challenge once', async () => {
+        const proof = prove(issueChallenge(request, ORIGIN, 1_000));
+        const nonces = createMemoryNonceStore(() => 2_000);
+
+        await expect(verify(proof, { keyBinding, nonces, now: 2_000 })).resolves.toMatchObject({ address: request.address });
+        await expect(verify(proof, { keyBinding, nonces, now: 3_000 })).rejects.toThrow(/already used/);
+    });
+
+    it('round-trips the session cookie until it expires', async () => {
+        const session = await verifyProof(prove(issueChallenge(request, ORIGIN, 1_000)), 1_000);
+        const cookie = encodeSessionCookie(session);
+
+        expect(decodeSessionCookie(cookie, 2_000)).toEqual(session);
+        expect(decodeSessionCookie(cookie, session.expiresAt + 1)).toBeNull();
+        expect(decodeSessionCookie(`${cookie}x`, 2_000)).toBeNull();
+        expect(decodeSessionCookie(undefined)).toBeNull();
+    });
+
+    it('never takes a challenge token as a session cookie, or a cookie as a challenge', async () => {
+        const challenge = issueChallenge({ ...request, address: 'mn_addr_victim' }, ORIGIN, 1_000);
+        expect(decodeSessionCookie(challenge.token, 2_000)).toBeNull();
+
+        const session = await verifyProof(prove(issueChallenge(request, ORIGIN, 1_000)), 1_000);
+        const cookie = encodeSessionCookie(session);
+        await expect(verifyProof({ ...prove(challenge), token: cookie }, 2_000)).rejects.toThrow(/tampered/);
+    });
+});
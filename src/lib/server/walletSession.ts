@@ -0,0 +1,194 @@
+// src/lib/server/walletSession.ts
+// Server half of the wallet sign-in handshake: signed challenges, single-use nonces, proof verification
+// and the signed session cookie. Node runtime only (uses node:crypto and the Midnight WASM runtime).
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { cookies } from 'next/headers';
+import { verifySignature } from '@midnight-ntwrk/compact-runtime';
+import {
+    WALLET_SESSION_COOKIE,
+    WalletChallenge,
+    WalletChallengeRequest,
+    WalletProof,
+    WalletServerSession,
+    buildChallengeMessage
+} from '@/lib/walletAuth';
+import { WalletLogger, defaultLogger } from '@/lib/walletLogger';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class WalletSessionError extends Error {
+    constructor(message: string, readonly status = 400) {
+        super(message);
+        this.name = 'WalletSessionError';
+    }
+}
+
+// --- Secret ---
+// Set MIDNIGHT_SESSION_SECRET in production; a per-process secret only lasts until the next restart
+let fallbackSecret: string | null = null;
+
+const getSecret = (): string => {
+    const secret = process.env.MIDNIGHT_SESSION_SECRET;
+    if (secret) return secret;
+    if (process.env.NODE_ENV === 'production') {
+        throw new WalletSessionError('MIDNIGHT_SESSION_SECRET is not set.', 500);
+    }
+    fallbackSecret ??= randomBytes(32).toString('hex');
+    return fallbackSecret;
+};
+
+// --- Signed Tokens ---
+// base64url(JSON payload) + '.' + HMAC-SHA256 of it. Challenges and session cookies share the secret,
+// so every payload names its purpose and is only read back as that purpose.
+type TokenPurpose = 'challenge' | 'session';
+
+const hmac = (data: string, secret: string) => createHmac('sha256', secret).update(data).digest('base64url');
+
+export const signToken = (payload: object, secret = getSecret()): string => {
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${data}.${hmac(data, secret)}`;
+};
+
+export const readToken = <T>(token: string, secret = getSecret()): T | null => {
+    const [data, mac] = token.split('.');
+    if (!data || !mac) return null;
+    const expected = Buffer.from(hmac(data, secret));
+    const actual = Buffer.from(mac);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+    try {
+        return JSON.parse(Buffer.from(data, 'base64url').toString()) as T;
+    } catch {
+        return null;
+    }
+};
+
+const signPurposeToken = (purpose: TokenPurpose, payload: object) => signToken({ ...payload, typ: purpose });
+
+// The payload, or null when the token is forged, meant for another purpose or lacks one of the string fields
+const readPurposeToken = <T extends object>(purpose: TokenPurpose, token: string, fields: readonly (keyof T & string)[]): T | null => {
+    const payload = readToken<Record<string, unknown>>(token);
+    if (!payload || typeof payload !== 'object' || payload.typ !== purpose || typeof payload.expiresAt !== 'number') return null;
+    if (!fields.every(field => typeof payload[field] === 'string' && payload[field] !== '')) return null;
+    return payload as T;
+};
+
+// --- Challenge ---
+type ChallengePayload = Omit<WalletChallenge, 'token'>;
+
+const CHALLENGE_FIELDS = ['address', 'coinPublicKey', 'nonce', 'message'] as const;
+
+// Each value takes one line of the signed message, so a line break could forge the lines after it
+const isMessageValue = (value: unknown): value is string => typeof value === 'string' && value !== '' && !/[\r\n]/.test(value);
+
+export const issueChallenge = (request: WalletChallengeRequest, origin: string, now = Date.now()): WalletChallenge => {
+    const { address, coinPublicKey } = (request ?? {}) as Partial<WalletChallengeRequest>;
+    if (!isMessageValue(address) || !isMessageValue(coinPublicKey)) {
+        throw new WalletSessionError('address and coinPublicKey are required, each on a single line.');
+    }
+    const nonce = randomBytes(16).toString('hex');
+    const message = buildChallengeMessage({ address, coinPublicKey, origin, nonce, issuedAt: now });
+    const challenge: ChallengePayload = { address, coinPublicKey, nonce, issuedAt: now, expiresAt: now + CHALLENGE_TTL_MS, message };
+    return { ...challenge, token: signPurposeToken('challenge', challenge) };
+};
+
+// --- Nonces ---
+// Each challenge can be redeemed once. consume() returns false for a nonce that was already used.
+// The default store lives in this process; deployments with several instances need a shared one.
+export interface NonceStore {
+    consume: (nonce: string, expiresAt: number) => boolean | Promise<boolean>;
+}
+
+export const createMemoryNonceStore = (clock: () => number = Date.now): NonceStore => {
+    const used = new Map<string, number>();   // nonce -> expiresAt, kept until the challenge could no longer be redeemed
+    return {
+        consume: (nonce, expiresAt) => {
+            const now = clock();
+            used.forEach((expiry, key) => { if (expiry < now) used.delete(key); });
+            if (used.has(nonce)) return false;
+            used.set(nonce, expiresAt);
+            return true;
+        },
+    };
+};
+
+const defaultNonceStore = createMemoryNonceStore();
+
+// --- Key Binding ---
+// A valid signature only proves control of proof.verifyingKey, which the browser picks. The v2 connector
+// offers no key that is provably tied to an address, so the app has to say which keys belong to which
+// address (e.g. from its own registry). Without a binding no session is issued.
+export interface WalletKeyClaim {
+    address: string;
+    coinPublicKey: string;
+    verifyingKey: string;
+}
+
+export type WalletKeyBinding = (claim: WalletKeyClaim) => boolean | Promise<boolean>;
+
+export interface VerifyProofOptions {
+    keyBinding: WalletKeyBinding | null;
+    nonces?: NonceStore;        // Defaults to an in-memory store for this process
+    now?: number;
+    logger?: WalletLogger;      // Defaults to the shared console logger
+}
+
+// --- Proof Verification ---
+// Checks the challenge is ours, fresh and unused, that the signature matches its message,
+// and that the signing key is bound to the challenged address.
+export const verifyProof = async (proof: WalletProof, { keyBinding, nonces = defaultNonceStore, now = Date.now(), logger = defaultLogger }: VerifyProofOptions): Promise<WalletServerSession> => {
+    if (!keyBinding) throw new WalletSessionError('Wallet sign-in is not configured: no key binding is set.', 501);
+    const challenge = readPurposeToken<ChallengePayload>('challenge', proof.token ?? '', CHALLENGE_FIELDS);
+    if (!challenge) throw new WalletSessionError('Unknown or tampered challenge.', 401);
+    if (challenge.expiresAt < now) throw new WalletSessionError('Challenge expired. Request a new one.', 401);
+
+    let valid = false;
+    try {
+        valid = verifySignature(proof.verifyingKey, new TextEncoder().encode(challenge.message), proof.signature);
+    } catch (verifyErr) {
+        logger.warn("Malformed wallet proof:", verifyErr);
+    }
+    if (!valid) throw new WalletSessionError('Signature does not match the challenge.', 401);
+
+    const claim = { address: challenge.address, coinPublicKey: challenge.coinPublicKey, verifyingKey: proof.verifyingKey };
+    if (!await keyBinding(claim)) throw new WalletSessionError('The signing key is not bound to this address.', 403);
+    if (!await nonces.consume(challenge.nonce, challenge.expiresAt)) {
+        throw new WalletSessionError('Challenge already used. Request a new one.', 401);
+    }
+
+    return {
+        address: challenge.address,
+        coinPublicKey: challenge.coinPublicKey,
+        verifyingKey: proof.verifyingKey,
+        expiresAt: now + SESSION_TTL_MS,
+    };
+};
+
+// --- Session Cookie ---
+export const sessionCookieOptions = (session: WalletServerSession) => ({
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    expires: new Date(session.expiresAt),
+});
+
+const SESSION_FIELDS = ['address', 'coinPublicKey', 'verifyingKey'] as const;
+
+export const encodeSessionCookie = ({ address, coinPublicKey, verifyingKey, expiresAt }: WalletServerSession): string =>
+    signPurposeToken('session', { address, coinPublicKey, verifyingKey, expiresAt });
+
+export const decodeSessionCookie = (value: string | undefined, now = Date.now()): WalletServerSession | null => {
+    if (!value) return null;
+    const session = readPurposeToken<WalletServerSession>('session', value, SESSION_FIELDS);
+    if (!session || session.expiresAt <= now) return null;
+    const { address, coinPublicKey, verifyingKey, expiresAt } = session;
+    return { address, coinPublicKey, verifyingKey, expiresAt };
+};
+
+// --- Read Helper ---
+// For route handlers and server components: the signed-in wallet, or null
+export const getWalletSession = async (): Promise<WalletServerSession | null> => {
+    const cookieStore = await cookies();
+    return decodeSessionCookie(cookieStore.get(WALLET_SESSION_COOKIE)?.value);
+};
@@ -0,0 +1,45 @@
+// src/lib/storage.ts
+import { WalletLogger, defaultLogger } from '@/lib/walletLogger';
+
+// --- Key/Value Storage ---
+// The subset of the Web Storage API we rely on, so scripts and workers can supply their own
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// --- Browser Storage ---
+// localStorage can be missing (SSR, workers) or throw on access (privacy mode, disabled storage)
+export const getBrowserStorage = (): KeyValueStorage | null => {
+    try {
+        return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+    } catch {
+        return null;
+    }
+};
+
+// --- Safe Read/Write ---
+// Failures are treated as "nothing stored" rather than surfacing to the UI
+export const readStorageItem = (storage: KeyValueStorage | null, key: string): string | null => {
+    if (!storage) return null;
+    try {
+        return storage.getItem(key);
+    } catch {
+        return null;
+    }
+};
+
+export const writeStorageItem = (
+    storage: KeyValueStorage | null,
+    key: string,
+    value: string | null,
+    logger: WalletLogger = defaultLogger
+): void => {
+    if (!storage) return;
+    try {
+        if (value === null) {
+            storage.removeItem(key);
+        } else {
+            storage.setItem(key, value);
+        }
+    } catch (storageErr) {
+        logger.warn(`Could not persist '${key}':`, storageErr);
+    }
+};
@@ -0,0 +1,188 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { APIError, ErrorCodes } from '@midnight-ntwrk/dapp-connector-api';
+import {
+    SubmissionQueueOptions,
+    SubmissionTarget,
+    TransactionCodec,
+    createSubmissionQueue
+} from '@/lib/submissionQueue';
+import { WalletTransaction } from '@/lib/transactions';
+import { silentLogger } from '@/lib/walletLogger';
+import { idbRequest } from '@/lib/indexedDb';
+
+const ALICE = 'mn_addr_alice';
+const owner = { address: ALICE, networkId: 'testnet' };
+
+const fakeTx = (name: string) => ({ name, identifiers: () => [`${name}-id`] }) as unknown as WalletTransaction;
+
+// Stands in for zswap serialisation; restored transactions lose identifiers(), which the queue keeps separately
+const codec: TransactionCodec = {
+    serialize: tx => new TextEncoder().encode(JSON.stringify(tx)),
+    deserialize: bytes => JSON.parse(new TextDecoder().decode(bytes)),
+};
+
+const internalError = () => new APIError(ErrorCodes.InternalError, 'Node unreachable.');
+
+// Each test gets its own in-memory IndexedDB; short delays keep the backoff tests quick on real timers
+const setup = (options: SubmissionQueueOptions = {}) => {
+    const indexedDB = options.indexedDB ?? new IDBFactory();
+    const create = () => createSubmissionQueue({
+        indexedDB,
+        codec,
+        logger: silentLogger,
+        retry: { initialDelayMs: 5, maxDelayMs: 20 },
+        ...options,
+    });
+    return { indexedDB, create, queue: create() };
+};
+
+const target = (submit: SubmissionTarget['submit'], isIncluded?: SubmissionTarget['isIncluded']): SubmissionTarget =>
+    ({ ...owner, submit, isIncluded });
+
+const storedIds = async (indexedDB: IDBFactory): Promise<string[]> => {
+    const db = await idbRequest(indexedDB.open('midnight-submission-queue'));
+    const records = await idbRequest(db.transaction('submissions').objectStore('submissions').getAllKeys());
+    db.close();
+    return records.map(String);
+};
+
+describe('createSubmissionQueue', () => {
+    it('submits through the target and forgets the item once accepted', async () => {
+        const { indexedDB, queue } = setup();
+        const submit = vi.fn(async () => 'tx-1');
+        queue.setTarget(target(submit));
+
+        await expect(queue.submit(fakeTx('a'), { ...owner, label: 'Increment' })).resolves.toBe('tx-1');
+
+        expect(queue.getItems()[0]).toMatchObject({ label: 'Increment', state: 'submitted', attempts: 1, identifiers: ['a-id'] });
+        await vi.waitFor(async () => expect(await storedIds(indexedDB)).toEqual([]));
+    });
+
+    it('keeps items waiting for their account and restores them after a reload', async () => {
+        const { indexedDB, queue, create } = setup();
+        void queue.submit(fakeTx('a'), owner).catch(() => {});
+        queue.setTarget({ ...target(async () => 'wrong'), address: 'mn_addr_bob' });
+        await vi.waitFor(async () => expect(await storedIds(indexedDB)).toHaveLength(1));
+        expect(queue.getItems()[0].state).toBe('queued');
+
+        const reloaded = create();
+        reloaded.start();
+        await vi.waitFor(() => expect(reloaded.getItems()).toHaveLength(1));
+
+        const submit = vi.fn(async () => 'tx-1');
+        reloaded.setTarget(target(submit));
+        await vi.waitFor(() => expect(reloaded.getItems()[0].state).toBe('submitted'));
+        expect(submit).toHaveBeenCalledWith({ name: 'a' });
+        reloaded.stop();
+    });
+
+    it('retries retryable failures with backoff, reporting the wait', async () => {
+        const { queue } = setup();
+        const submit = vi.fn()
+            .mockRejectedValueOnce(internalError())
+            .mockRejectedValueOnce(internalError())
+            .mockResolvedValue('tx-1');
+        const onWait = vi.fn();
+        queue.setTarget(target(submit));
+
+        await expect(queue.submit(fakeTx('a'), { ...owner, onWait })).resolves.toBe('tx-1');
+
+        expect(submit).toHaveBeenCalledTimes(3);
+        expect(queue.getItems()[0]).toMatchObject({ state: 'submitted', attempts: 3, error: null });
+        expect(onWait.mock.calls).toEqual([[true], [false], [true], [false]]);
+    });
+
+    it('marks an item included instead of resubmitting it when the indexer already has it', async () => {
+        const { queue } = setup();
+        const submit = vi.fn().mockRejectedValue(internalError());
+        const isIncluded = vi.fn(async (identifiers: string[]) => identifiers.includes('a-id'));
+        queue.setTarget(target(submit, isIncluded));
+
+        await expect(queue.submit(fakeTx('a'), owner)).resolves.toBe('a-id');
+
+        expect(submit).toHaveBeenCalledTimes(1);
+        expect(queue.getItems()[0].state).toBe('included');
+    });
+
+    it('fails at once when the wallet rejects, and can be retried by hand', async () => {
+        const { queue } = setup();
+        const submit = vi.fn()
+            .mockRejectedValueOnce(new APIError(ErrorCodes.Rejected, 'User rejected.'))
+            .mockResolvedValue('tx-1');
+        queue.setTarget(target(submit));
+
+        await expect(queue.submit(fakeTx('a'), owner)).rejects.toMatchObject({ kind: 'Rejected' });
+        const [failed] = queue.getItems();
+        expect(failed).toMatchObject({ state: 'failed', error: { kind: 'Rejected' } });
+
+        queue.retry(failed.id);
+        await vi.waitFor(() => expect(queue.getItems()[0]).toMatchObject({ state: 'submitted', txId: 'tx-1', attempts: 2 }));
+    });
+
+    it('gives up after maxAttempts failures', async () => {
+        const { queue } = setup({ retry: { initialDelayMs: 1, maxAttempts: 3 } });
+        const submit = vi.fn().mockRejectedValue(internalError());
+        queue.setTarget(target(submit));
+
+        await expect(queue.submit(fakeTx('a'), owner)).rejects.toMatchObject({ kind: 'InternalError' });
+        expect(submit).toHaveBeenCalledTimes(3);
+        expect(queue.getItems()[0].state).toBe('failed');
+    });
+
+    it('keeps counting failures across reconnects', async () => {
+        const { queue } = setup({ retry: { initialDelayMs: 60000, maxAttempts: 3 } });
+        const submit = vi.fn().mockRejectedValue(internalError());
+        const connected = target(submit);
+        queue.setTarget(connected);
+        const result = queue.submit(fakeTx('a'), owner);
+
+        for (const attempts of [1, 2]) {
+            await vi.waitFor(() => expect(queue.getItems()[0]).toMatchObject({ state: 'retrying', attempts }));
+            queue.setTarget(connected);
+        }
+
+        await expect(result).rejects.toMatchObject({ kind: 'InternalError' });
+        expect(submit).toHaveBeenCalledTimes(3);
+        expect(queue.getItems()[0].state).toBe('failed');
+    });
+
+    it('keeps items for an unknown network in memory without serialising them', async () => {
+        const serialize = vi.spyOn(codec, 'serialize');
+        const { indexedDB, queue } = setup();
+        void queue.submit(fakeTx('a'), { ...owner, networkId: 'unknown' }).catch(() => {});
+        void queue.submit(fakeTx('b'), owner).catch(() => {});
+
+        // Writes run in order, so once b is stored a would have been too
+        await vi.waitFor(async () => expect(await storedIds(indexedDB)).toHaveLength(1));
+        expect(queue.getItems()).toHaveLength(2);
+        expect(serialize).toHaveBeenCalledTimes(1);
+        expect(serialize).toHaveBeenCalledWith({ name: 'b', identifiers: expect.any(Function) }, 'testnet');
+        serialize.mockRestore();
+    });
+
+    it('refuses to discard an item while it is being submitted', async () => {
+        const { queue } = setup();
+        queue.setTarget(target(() => new Promise(() => {})));
+        void queue.submit(fakeTx('a'), owner);
+        const [item] = queue.getItems();
+        await vi.waitFor(() => expect(queue.getItems()[0].state).toBe('submitting'));
+
+        await expect(queue.discard(item.id)).rejects.toThrow("can't be discarded yet");
+        expect(queue.getItems()).toHaveLength(1);
+    });
+
+    it('rejects the waiting submission as cancelled when discarded', async () => {
+        const { indexedDB, queue } = setup();
+        const result = queue.submit(fakeTx('a'), owner);
+        const [item] = queue.getItems();
+
+        await Promise.all([
+            expect(result).rejects.toMatchObject({ kind: 'Cancelled' }),
+            queue.discard(item.id),
+        ]);
+        expect(queue.getItems()).toEqual([]);
+        expect(await storedIds(indexedDB)).toEqual([]);
+    });
+});
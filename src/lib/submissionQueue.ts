@@ -0,0 +1,480 @@
+// src/lib/submissionQueue.ts
+// Persistent outbound queue for proven transactions. Each one is stored in IndexedDB before the
+// wallet is asked to submit it, and resubmitted with backoff after a failed attempt, a reconnect,
+// a reload or an offline spell. Without IndexedDB it still retries, but only until the page closes.
+import type { WalletTransaction } from '@/lib/transactions';
+import { WalletError, cancelledError, toWalletError } from '@/lib/walletErrors';
+import { AttemptErrorSummary, summarizeAttemptError } from '@/lib/diagnostics';
+import { WalletLogger, createWalletLogger } from '@/lib/walletLogger';
+import { getBrowserIndexedDB, idbRequest, idbTransactionDone } from '@/lib/indexedDb';
+
+const DEFAULT_DB_NAME = 'midnight-submission-queue';
+const DB_VERSION = 1;
+const SUBMISSIONS = 'submissions';
+
+// --- Submission State ---
+// queued:     waiting for the wallet that proved it (same account and network) or for the browser to come online
+// submitting: handed to the wallet
+// retrying:   the last attempt failed; tried again at nextAttemptAt, or straight away on reconnect
+// submitted:  the wallet accepted it
+// included:   already on chain when a resubmission was due, so it wasn't sent again
+// failed:     not retryable, or out of attempts; kept until retried or discarded
+export type SubmissionState = 'queued' | 'submitting' | 'retrying' | 'submitted' | 'included' | 'failed';
+
+export interface QueuedSubmission {
+    id: string;
+    label: string | null;
+    address: string | null;         // Account that proved it; only that account resubmits it
+    networkId: string | null;
+    identifiers: string[];          // Any of them finds the transaction on chain
+    state: SubmissionState;
+    attempts: number;
+    txId: string | null;
+    error: AttemptErrorSummary | null;  // From the last failed attempt
+    createdAt: number;
+    updatedAt: number;
+    nextAttemptAt: number | null;   // Set while retrying
+}
+
+// The bytes are only read back after a reload; this session keeps the transaction object itself
+interface StoredSubmission extends QueuedSubmission {
+    bytes: Uint8Array | null;
+    failures: number;
+}
+
+// --- Options ---
+export interface RetryPolicy {
+    initialDelayMs: number;
+    maxDelayMs: number;
+    factor: number;
+    maxAttempts: number;            // Failures in a row before an item is marked failed
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    initialDelayMs: 2000,
+    maxDelayMs: 60000,
+    factor: 2,
+    maxAttempts: 8,
+};
+
+// Proven transactions are WASM objects, so they are stored as bytes for the network they belong to
+export interface TransactionCodec {
+    serialize: (tx: WalletTransaction, networkId: string | null) => Uint8Array | Promise<Uint8Array>;
+    deserialize: (bytes: Uint8Array, networkId: string | null) => WalletTransaction | Promise<WalletTransaction>;
+}
+
+// Loaded on first use, so nothing pulls the zswap WASM module in until a transaction is stored
+const lazyZswapCodec: TransactionCodec = {
+    serialize: async (tx, networkId) => (await import('@/lib/transactionCodec')).zswapTransactionCodec.serialize(tx, networkId),
+    deserialize: async (bytes, networkId) => (await import('@/lib/transactionCodec')).zswapTransactionCodec.deserialize(bytes, networkId),
+};
+
+export interface SubmissionQueueOptions {
+    dbName?: string;
+    indexedDB?: IDBFactory | null;  // Defaults to window.indexedDB; null keeps the queue in memory
+    codec?: TransactionCodec;       // Defaults to zswap serialisation
+    retry?: Partial<RetryPolicy>;
+    logger?: WalletLogger;
+}
+
+// --- Target ---
+// The connected wallet. Items are only submitted through the account and network that proved them.
+export interface SubmissionTarget {
+    address: string;
+    networkId: string | null;
+    submit: (tx: WalletTransaction) => Promise<string>;
+    isIncluded?: (identifiers: string[]) => Promise<boolean>;   // Asked before every resubmission
+}
+
+export interface EnqueueOptions {
+    label?: string | null;
+    address: string | null;
+    networkId: string | null;
+    onWait?: (waiting: boolean) => void;    // true while queued or retrying, false once it is being submitted
+}
+
+// --- Queue API ---
+export interface SubmissionQueue {
+    subscribe: (listener: () => void) => () => void;
+    getItems: () => QueuedSubmission[];     // Oldest first
+    start: () => void;                      // Loads stored items and retries when the browser comes online
+    stop: () => void;
+    submit: (tx: WalletTransaction, options: EnqueueOptions) => Promise<string>;  // Resolves with the txId; rejects once it has failed
+    setTarget: (target: SubmissionTarget | null) => void;   // A new target retries waiting items straight away
+    retry: (id: string) => void;            // Gives a failed item a fresh set of attempts
+    discard: (id: string) => Promise<void>;  // Rejects while the item is being submitted
+    clearFinished: () => void;              // Drops submitted and included items from the list
+}
+
+interface QueueEntry {
+    item: QueuedSubmission;
+    tx: WalletTransaction | null;   // null after a reload, until the bytes are deserialised
+    bytes: Uint8Array | null;
+    failures: number;               // Since it was queued or retried by hand; reconnects and reloads keep it
+    waiting: boolean;               // Last value reported through onWait
+}
+
+interface Waiter {
+    resolve: (txId: string) => void;
+    reject: (error: WalletError) => void;
+    onWait?: (waiting: boolean) => void;
+}
+
+const STORED_STATES: readonly SubmissionState[] = ['queued', 'submitting', 'retrying', 'failed'];
+
+const isWaiting = (state: SubmissionState) => state === 'queued' || state === 'retrying';
+
+// Test doubles and mock wallets hand over plain objects without identifiers()
+const readIdentifiers = (tx: WalletTransaction): string[] => {
+    const { identifiers } = tx as unknown as { identifiers?: () => unknown };
+    if (typeof identifiers !== 'function') return [];
+    try {
+        const ids = identifiers.call(tx);
+        return Array.isArray(ids) ? ids.map(String) : [];
+    } catch {
+        return [];
+    }
+};
+
+const belongsTo = (item: QueuedSubmission, target: SubmissionTarget) =>
+    (item.address === null || item.address === target.address)
+    && (item.networkId === null || item.networkId === target.networkId);
+
+// The codec needs to know the network; until it does, the item is only kept in memory
+const isStorable = (item: QueuedSubmission) => item.networkId !== null && item.networkId !== 'unknown';
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+const openDatabase = (factory: IDBFactory, name: string): Promise<IDBDatabase> => {
+    const req = factory.open(name, DB_VERSION);
+    req.onupgradeneeded = () => {
+        req.result.createObjectStore(SUBMISSIONS, { keyPath: 'id' });
+    };
+    return idbRequest(req);
+};
+
+let submissionCounter = 0;
+
+// --- Create Queue ---
+export const createSubmissionQueue = (options: SubmissionQueueOptions = {}): SubmissionQueue => {
+    const { dbName = DEFAULT_DB_NAME, codec = lazyZswapCodec } = options;
+    const factory = options.indexedDB === undefined ? getBrowserIndexedDB() : options.indexedDB;
+    const retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    const logger = options.logger ?? createWalletLogger();
+
+    const entries = new Map<string, QueueEntry>();
+    const waiters = new Map<string, Waiter>();
+    const listeners = new Set<() => void>();
+    let items: QueuedSubmission[] = [];
+    let target: SubmissionTarget | null = null;
+    let started = false;
+    let processing = false;
+    let processAgain = false;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    let writes: Promise<void> = Promise.resolve();
+
+    const notify = () => {
+        items = [...entries.values()].map(e => e.item).sort((a, b) => a.createdAt - b.createdAt);
+        listeners.forEach(listener => listener());
+    };
+
+    // --- Persistence ---
+    // Writes run one after another, so a slow first serialisation can't overwrite a later state
+    const db = () => {
+        if (!factory) return null;
+        dbPromise ??= openDatabase(factory, dbName);
+        return dbPromise;
+    };
+
+    const write = (op: (database: IDBDatabase) => Promise<void>) => {
+        const database = db();
+        if (!database) return;
+        writes = writes
+            .then(async () => op(await database))
+            .catch(err => logger.warn("Could not update the stored submission queue:", err));
+    };
+
+    const persist = (entry: QueueEntry) => {
+        if (!isStorable(entry.item)) return;
+        write(async (database) => {
+            if (!entry.bytes && entry.tx) entry.bytes = await codec.serialize(entry.tx, entry.item.networkId);
+            const tx = database.transaction(SUBMISSIONS, 'readwrite');
+            tx.objectStore(SUBMISSIONS).put({ ...entry.item, bytes: entry.bytes, failures: entry.failures } satisfies StoredSubmission);
+            await idbTransactionDone(tx);
+        });
+    };
+
+    const forget = (id: string) => write(async (database) => {
+        const tx = database.transaction(SUBMISSIONS, 'readwrite');
+        tx.objectStore(SUBMISSIONS).delete(id);
+        await idbTransactionDone(tx);
+    });
+
+    const load = async () => {
+        const database = db();
+        if (!database) return;
+        try {
+            const records = await idbRequest<StoredSubmission[]>((await database).transaction(SUBMISSIONS).objectStore(SUBMISSIONS).getAll());
+            records.forEach(({ bytes, failures, ...item }) => {
+                if (entries.has(item.id)) return;
+                // An attempt cut short by the reload may have reached the network; the inclusion check finds out
+                const state = item.state === 'submitting' ? 'retrying' : item.state;
+                entries.set(item.id, {
+                    item: { ...item, state, nextAttemptAt: isWaiting(state) ? null : item.nextAttemptAt },
+                    tx: null,
+                    bytes: bytes ?? null,
+                    failures,
+                    waiting: true,
+                });
+            });
+            if (records.length > 0) logger.info(`Restored ${records.length} queued submission(s).`);
+            notify();
+            void process();
+        } catch (err) {
+            logger.error("Could not load the submission queue:", err);
+        }
+    };
+
+    // --- State Changes ---
+    const setState = (entry: QueueEntry, patch: Partial<QueuedSubmission>) => {
+        entry.item = { ...entry.item, ...patch, updatedAt: Date.now() };
+        if (STORED_STATES.includes(entry.item.state)) persist(entry);
+        else forget(entry.item.id);
+        notify();
+    };
+
+    const reportWait = (entry: QueueEntry, waiting: boolean) => {
+        if (entry.waiting === waiting) return;
+        entry.waiting = waiting;
+        waiters.get(entry.item.id)?.onWait?.(waiting);
+    };
+
+    const finish = (entry: QueueEntry, state: 'submitted' | 'included', txId: string) => {
+        setState(entry, { state, txId, error: null, nextAttemptAt: null });
+        waiters.get(entry.item.id)?.resolve(txId);
+        waiters.delete(entry.item.id);
+    };
+
+    // Returns true when the item is settled, false when it will be retried
+    const fail = (entry: QueueEntry, error: WalletError): boolean => {
+        const { id } = entry.item;
+        entry.failures++;
+        // A rejection in the wallet is the user's answer, so it isn't retried
+        if (!error.retryable || error.kind === 'Rejected' || entry.failures >= retryPolicy.maxAttempts) {
+            logger.error(`Submission ${id} failed after ${entry.item.attempts} attempt(s):`, error.cause ?? error.message);
+            setState(entry, { state: 'failed', error: summarizeAttemptError(error), nextAttemptAt: null });
+            waiters.get(id)?.reject(error);
+            waiters.delete(id);
+            return true;
+        }
+        const delayMs = Math.min(retryPolicy.initialDelayMs * retryPolicy.factor ** (entry.failures - 1), retryPolicy.maxDelayMs);
+        logger.warn(`Submission ${id} failed. Retrying in ${delayMs}ms.`, error.cause);
+        setState(entry, { state: 'retrying', error: summarizeAttemptError(error), nextAttemptAt: Date.now() + delayMs });
+        return false;
+    };
+
+    // --- Attempts ---
+    const restore = async (entry: QueueEntry): Promise<WalletTransaction> => {
+        if (!entry.bytes) throw new Error('The stored transaction could not be restored.');
+        return codec.deserialize(entry.bytes, entry.item.networkId);
+    };
+
+    const attempt = async (entry: QueueEntry, current: SubmissionTarget): Promise<boolean> => {
+        const { id } = entry.item;
+        // A resubmission first asks the indexer, so a transaction that got through isn't sent twice
+        if (entry.item.attempts > 0 && current.isIncluded && entry.item.identifiers.length > 0) {
+            try {
+                if (await current.isIncluded(entry.item.identifiers)) {
+                    if (!entries.has(id)) return true;
+                    logger.info(`Submission ${id} is already on chain. Not resubmitting.`);
+                    finish(entry, 'included', entry.item.txId ?? entry.item.identifiers[0]);
+                    return true;
+                }
+            } catch (err) {
+                logger.warn(`Could not check whether submission ${id} is on chain. Resubmitting.`, err);
+            }
+            if (!entries.has(id)) return true;
+        }
+
+        setState(entry, { state: 'submitting', attempts: entry.item.attempts + 1, nextAttemptAt: null });
+        reportWait(entry, false);
+
+        let tx: WalletTransaction;
+        try {
+            tx = entry.tx ?? await restore(entry);
+            entry.tx = tx;
+        } catch (err) {
+            // Retrying can't fix bytes that don't deserialise
+            return fail(entry, { ...toWalletError(err), retryable: false });
+        }
+
+        try {
+            logger.debug(`Submitting ${id} (attempt ${entry.item.attempts})...`);
+            const txId = await current.submit(tx);
+            if (entries.has(id)) finish(entry, 'submitted', txId);
+            return true;
+        } catch (err) {
+            return entries.has(id) ? fail(entry, toWalletError(err)) : true;
+        }
+    };
+
+    // --- Processing ---
+    // Oldest first and one at a time: later transactions may spend what earlier ones create
+    const processDue = async () => {
+        const queue = [...entries.values()].sort((a, b) => a.item.createdAt - b.item.createdAt);
+        for (const entry of queue) {
+            const current = target;
+            if (!current || isOffline()) return;
+            if (!entries.has(entry.item.id) || !isWaiting(entry.item.state) || !belongsTo(entry.item, current)) continue;
+            if (entry.item.nextAttemptAt !== null && entry.item.nextAttemptAt > Date.now()) return;
+            if (!await attempt(entry, current)) return;
+        }
+    };
+
+    const scheduleRetry = () => {
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+        const current = target;
+        if (!current || isOffline()) return;
+        const due = [...entries.values()]
+            .filter(e => e.item.state === 'retrying' && e.item.nextAttemptAt !== null && belongsTo(e.item, current))
+            .map(e => e.item.nextAttemptAt as number);
+        if (due.length === 0) return;
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            void process();
+        }, Math.max(0, Math.min(...due) - Date.now()));
+    };
+
+    const process = async () => {
+        if (processing) {
+            processAgain = true;
+            return;
+        }
+        processing = true;
+        try {
+            do {
+                processAgain = false;
+                await processDue();
+            } while (processAgain);
+        } finally {
+            processing = false;
+        }
+        entries.forEach(entry => { if (isWaiting(entry.item.state)) reportWait(entry, true); });
+        scheduleRetry();
+    };
+
+    // Reconnecting or coming back online skips whatever backoff was left, but not the attempts used
+    const retryWaitingNow = () => {
+        entries.forEach(entry => {
+            if (entry.item.state !== 'retrying') return;
+            entry.item = { ...entry.item, nextAttemptAt: null };
+        });
+        void process();
+    };
+
+    const handleOnline = () => {
+        logger.info("Browser is back online. Retrying queued submissions.");
+        retryWaitingNow();
+    };
+
+    // --- API ---
+    const submit = (tx: WalletTransaction, { label = null, address, networkId, onWait }: EnqueueOptions) =>
+        new Promise<string>((resolve, reject) => {
+            const now = Date.now();
+            const id = `sub-${now.toString(36)}-${++submissionCounter}`;
+            const entry: QueueEntry = {
+                item: {
+                    id,
+                    label,
+                    address,
+                    networkId,
+                    identifiers: readIdentifiers(tx),
+                    state: 'queued',
+                    attempts: 0,
+                    txId: null,
+                    error: null,
+                    createdAt: now,
+                    updatedAt: now,
+                    nextAttemptAt: null,
+                },
+                tx,
+                bytes: null,
+                failures: 0,
+                waiting: false,
+            };
+            entries.set(id, entry);
+            waiters.set(id, { resolve, reject, onWait });
+            if (!isStorable(entry.item)) logger.info(`Submission ${id} is on an unknown network. It won't survive a reload.`);
+            persist(entry);
+            notify();
+            void process();
+        });
+
+    const setTarget = (next: SubmissionTarget | null) => {
+        target = next;
+        if (next) retryWaitingNow();
+        else scheduleRetry();
+    };
+
+    const retry = (id: string) => {
+        const entry = entries.get(id);
+        if (!entry || entry.item.state !== 'failed') return;
+        entry.failures = 0;
+        setState(entry, { state: 'queued', error: null, nextAttemptAt: null });
+        void process();
+    };
+
+    const discard = async (id: string) => {
+        const entry = entries.get(id);
+        if (!entry) return;
+        // The wallet already has it; whether it goes through is known once the attempt settles
+        if (entry.item.state === 'submitting') throw new Error(`Submission ${id} is being submitted and can't be discarded yet.`);
+        entries.delete(id);
+        forget(id);
+        notify();
+        waiters.get(id)?.reject(cancelledError('Removed from the submission queue.'));
+        waiters.delete(id);
+        await writes;
+    };
+
+    const clearFinished = () => {
+        let changed = false;
+        entries.forEach((entry, id) => {
+            if (entry.item.state !== 'submitted' && entry.item.state !== 'included') return;
+            entries.delete(id);
+            changed = true;
+        });
+        if (changed) notify();
+    };
+
+    const start = () => {
+        if (started) return;
+        started = true;
+        if (typeof window !== 'undefined') window.addEventListener('online', handleOnline);
+        void load();
+    };
+
+    const stop = () => {
+        started = false;
+        if (typeof window !== 'undefined') window.removeEventListener('online', handleOnline);
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+    };
+
+    return {
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        getItems: () => items,
+        start,
+        stop,
+        submit,
+        setTarget,
+        retry,
+        discard,
+        clearFinished,
+    };
+};
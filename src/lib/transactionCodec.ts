@@ -0,0 +1,22 @@
+// src/lib/transactionCodec.ts
+// Turns the wallet's zswap transactions into bytes for the submission queue and back.
+// Imported on demand by the queue, since the zswap package loads its WASM module.
+import { NetworkId, Transaction } from '@midnight-ntwrk/zswap';
+import type { TransactionCodec } from '@/lib/submissionQueue';
+
+const ZSWAP_NETWORK_IDS: Record<string, NetworkId> = {
+    testnet: NetworkId.TestNet,
+    devnet: NetworkId.DevNet,
+    standalone: NetworkId.Undeployed,
+};
+
+const toZswapNetworkId = (networkId: string | null): NetworkId => {
+    const zswapNetworkId = networkId ? ZSWAP_NETWORK_IDS[networkId] : undefined;
+    if (zswapNetworkId === undefined) throw new Error(`No zswap network id for network '${networkId}'.`);
+    return zswapNetworkId;
+};
+
+export const zswapTransactionCodec: TransactionCodec = {
+    serialize: (tx, networkId) => tx.serialize(toZswapNetworkId(networkId)),
+    deserialize: (bytes, networkId) => Transaction.deserialize(bytes, toZswapNetworkId(networkId)),
+};
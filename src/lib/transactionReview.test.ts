@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createTransactionDecoder, decodeTransaction } from '@/lib/transactionReview';
+import { NATIVE_TOKEN_TYPE } from '@/lib/balances';
+
+const OTHER_TOKEN = '02' + 'ab'.repeat(33);
+
+// Shaped like a ledger Transaction: contract actions, per-section imbalances and a fee estimate
+const fakeTransaction = {
+    contractCalls: [
+        { address: '0200aa', entryPoint: new TextEncoder().encode('increment') },
+        { address: '0200bb', initialState: {} },
+        { address: '0200cc', updates: [] },
+    ],
+    imbalances: (guaranteed: boolean) => guaranteed
+        ? new Map([[NATIVE_TOKEN_TYPE, BigInt(-1_500_000)], [OTHER_TOKEN, BigInt(0)]])
+        : new Map([[OTHER_TOKEN, BigInt(25)]]),
+    fees: (params: unknown) => (params === 'params' ? BigInt(3_000) : BigInt(0)),
+};
+
+describe('decodeTransaction', () => {
+    it('lists contract calls, deploys and maintenance updates', () => {
+        expect(decodeTransaction(fakeTransaction).calls).toEqual([
+            { kind: 'call', address: '0200aa', entryPoint: 'increment' },
+            { kind: 'deploy', address: '0200bb', entryPoint: null },
+            { kind: 'maintenance', address: '0200cc', entryPoint: null },
+        ]);
+    });
+
+    it('nets token movements across both sections, as seen by the wallet', () => {
+        expect(decodeTransaction(fakeTransaction).movements).toEqual([
+            { tokenType: NATIVE_TOKEN_TYPE, amount: BigInt(1_500_000) },
+            { tokenType: OTHER_TOKEN, amount: BigInt(-25) },
+        ]);
+    });
+
+    it('estimates the fee only when given parameters, and says what they were', () => {
+        expect(decodeTransaction(fakeTransaction)).toMatchObject({ estimatedFee: null, feeBasis: null });
+        expect(decodeTransaction(fakeTransaction, { feeParameters: 'params' })).toMatchObject({ estimatedFee: BigInt(3_000), feeBasis: 'live' });
+        expect(decodeTransaction(fakeTransaction, { feeParameters: 'params', feeBasis: 'approximate' }).feeBasis).toBe('approximate');
+    });
+
+    it('returns an empty summary for transactions it cannot read', () => {
+        expect(decodeTransaction({}, { feeParameters: 'params' })).toEqual({ calls: [], movements: [], estimatedFee: null, feeBasis: null });
+    });
+});
+
+describe('createTransactionDecoder', () => {
+    it('prices with the live parameters it reads for each transaction', async () => {
+        const decode = createTransactionDecoder(async () => 'params');
+        expect(await decode(fakeTransaction)).toMatchObject({ estimatedFee: BigInt(3_000), feeBasis: 'live' });
+    });
+
+    it('leaves the fee out when the parameters cannot be read', async () => {
+        const decode = createTransactionDecoder(async () => { throw new Error('Node unreachable.'); });
+        expect(await decode(fakeTransaction)).toMatchObject({ estimatedFee: null, feeBasis: null, calls: expect.any(Array) });
+    });
+});
@@ -0,0 +1,122 @@
+// src/lib/transactionReview.ts
+// DApp-side summary of a transaction before the wallet balances and proves it.
+// Decoding is structural, so it works for ledger transactions (with contract calls) and zswap ones alike
+// without pulling either WASM package into the store.
+
+// --- Summary Shape ---
+export interface ContractCallSummary {
+    kind: 'call' | 'deploy' | 'maintenance';
+    address: string;
+    entryPoint: string | null;  // Circuit name for calls
+}
+
+// Net amount per token: positive is what the wallet has to pay in, negative is change coming back
+export interface TokenMovement {
+    tokenType: string;
+    amount: bigint;
+}
+
+// live: priced with the network's current ledger parameters; approximate: with the ledger's defaults
+export type FeeEstimateBasis = 'live' | 'approximate';
+
+export interface TransactionSummary {
+    calls: ContractCallSummary[];
+    movements: TokenMovement[];
+    estimatedFee: bigint | null;    // In the native token's smallest unit; null when it can't be estimated
+    feeBasis: FeeEstimateBasis | null;  // What estimatedFee was priced with; null without an estimate
+}
+
+export type TransactionDecoder = (tx: unknown) => TransactionSummary | Promise<TransactionSummary>;
+
+// --- Pending Review ---
+// What the confirmation dialog shows. A failed decode still asks the user; it just has less to show.
+export interface TransactionReview {
+    id: string;
+    label: string | null;
+    summary: TransactionSummary | null;
+    decodeError: string | null;
+    requestedAt: number;
+}
+
+export interface TransactionReviewOptions {
+    decode?: TransactionDecoder;    // Defaults to decodeTransaction, priced with feeParameters when given
+    // Live LedgerParameters from the package the transactions come from, e.g. read from the app's node.
+    // Without them the default decoder leaves the fee unestimated.
+    feeParameters?: () => unknown | Promise<unknown>;
+}
+
+// --- Structural Decoding ---
+interface DecodableAction {
+    address?: unknown;
+    entryPoint?: unknown;
+    initialState?: unknown;
+    updates?: unknown;
+}
+
+interface DecodableTransaction {
+    contractCalls?: readonly DecodableAction[];
+    imbalances?: (guaranteed: boolean) => Map<string, bigint>;
+    fees?: (params: unknown) => bigint;
+}
+
+const textDecoder = new TextDecoder();
+
+const describeAction = (action: DecodableAction): ContractCallSummary => {
+    const address = String(action.address ?? 'unknown');
+    if (action.entryPoint !== undefined) {
+        // isView rather than instanceof: byte arrays from WASM or another realm fail instanceof Uint8Array
+        const entryPoint = ArrayBuffer.isView(action.entryPoint) ? textDecoder.decode(action.entryPoint) : String(action.entryPoint);
+        return { kind: 'call', address, entryPoint };
+    }
+    if (action.initialState !== undefined) return { kind: 'deploy', address, entryPoint: null };
+    return { kind: 'maintenance', address, entryPoint: null };
+};
+
+// Guaranteed and fallible sections are added up; balanced tokens are left out
+const netMovements = (tx: DecodableTransaction): TokenMovement[] => {
+    if (typeof tx.imbalances !== 'function') return [];
+    const totals = new Map<string, bigint>();
+    for (const guaranteed of [true, false]) {
+        for (const [tokenType, imbalance] of tx.imbalances(guaranteed)) {
+            totals.set(tokenType, (totals.get(tokenType) ?? BigInt(0)) - imbalance);
+        }
+    }
+    return [...totals]
+        .filter(([, amount]) => amount !== BigInt(0))
+        .map(([tokenType, amount]) => ({ tokenType, amount }));
+};
+
+// feeParameters are the LedgerParameters matching the transaction's package (ledger or zswap);
+// feeBasis says whether they are the network's live ones or defaults.
+// Without them, or for unproven transactions that can't price themselves, the fee is left null.
+export interface DecodeTransactionOptions {
+    feeParameters?: unknown;
+    feeBasis?: FeeEstimateBasis;    // Defaults to 'live'
+}
+
+export const decodeTransaction = (tx: unknown, { feeParameters, feeBasis = 'live' }: DecodeTransactionOptions = {}): TransactionSummary => {
+    const decodable = (tx ?? {}) as DecodableTransaction;
+    let estimatedFee: bigint | null = null;
+    if (feeParameters !== undefined && typeof decodable.fees === 'function') {
+        try {
+            estimatedFee = decodable.fees(feeParameters);
+        } catch {
+            // Leave the estimate out rather than block the review
+        }
+    }
+    return {
+        calls: Array.isArray(decodable.contractCalls) ? decodable.contractCalls.map(describeAction) : [],
+        movements: netMovements(decodable),
+        estimatedFee,
+        feeBasis: estimatedFee === null ? null : feeBasis,
+    };
+};
+
+// The default decoder: live parameters when the app supplies them. A failed read only costs the estimate.
+export const createTransactionDecoder = (feeParameters?: () => unknown | Promise<unknown>): TransactionDecoder => {
+    if (!feeParameters) return (tx) => decodeTransaction(tx);
+    return async (tx) => {
+        const params = await Promise.resolve().then(feeParameters).catch(() => undefined);
+        return decodeTransaction(tx, { feeParameters: params ?? undefined });
+    };
+};
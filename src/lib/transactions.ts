@@ -0,0 +1,110 @@
+// src/lib/transactions.ts
+import { DAppConnectorWalletAPI } from '@midnight-ntwrk/dapp-connector-api';
+import { WalletError, toWalletError } from '@/lib/walletErrors';
+
+// --- Wallet Transaction Types ---
+// Derived from the connector API so we don't need a direct dependency on the zswap package
+export type WalletTransaction = Parameters<DAppConnectorWalletAPI['balanceAndProveTransaction']>[0];
+export type WalletCoinInfo = Parameters<DAppConnectorWalletAPI['balanceAndProveTransaction']>[1][number];
+
+// --- Pipeline Stages ---
+// The v2 connector balances and proves in a single balanceAndProveTransaction call.
+// 'reviewing' waits for the user to approve the summary (only with transaction review enabled),
+// 'balancing' marks the request being handed to the wallet, 'proving' covers that round trip (proofs are the slow part).
+// 'queued' means the proven transaction is waiting in the submission queue for a retry, a reconnect or the network.
+export type TransactionStage = 'reviewing' | 'balancing' | 'proving' | 'queued' | 'submitting' | 'submitted' | 'failed';
+export type ActiveTransactionStage = Exclude<TransactionStage, 'submitted' | 'failed'>;
+
+// --- Typed Transaction Error ---
+// A WalletError plus the stage where the pipeline stopped
+export type TransactionError = WalletError & { stage: ActiveTransactionStage };
+
+// --- Tracked Transaction Entry ---
+export interface TrackedTransaction {
+    id: string;                    // Local id, assigned before the wallet sees the transaction
+    label: string | null;
+    stage: TransactionStage;
+    createdAt: number;
+    updatedAt: number;
+    stageTimestamps: Partial<Record<TransactionStage, number>>;
+    txId: string | null;           // Set once submitTransaction resolves
+    error: TransactionError | null;
+}
+
+export interface SubmitTransactionOptions {
+    newCoins?: WalletCoinInfo[];   // Coins created by the transaction that the wallet should watch for
+    label?: string;                // Shown in transaction history
+}
+
+let transactionCounter = 0;
+
+// --- Create Entry ---
+export const createTrackedTransaction = (label?: string, stage: 'reviewing' | 'balancing' = 'balancing'): TrackedTransaction => {
+    const now = Date.now();
+    transactionCounter += 1;
+    return {
+        id: `tx-${now.toString(36)}-${transactionCounter}`,
+        label: label ?? null,
+        stage,
+        createdAt: now,
+        updatedAt: now,
+        stageTimestamps: { [stage]: now },
+        txId: null,
+        error: null,
+    };
+};
+
+// --- Advance Entry ---
+// Returns a new entry so it can be used directly inside a state updater
+export const advanceTransaction = (
+    entry: TrackedTransaction,
+    stage: TransactionStage,
+    patch: Partial<Pick<TrackedTransaction, 'txId' | 'error'>> = {}
+): TrackedTransaction => {
+    const now = Date.now();
+    return {
+        ...entry,
+        ...patch,
+        stage,
+        updatedAt: now,
+        stageTimestamps: { ...entry.stageTimestamps, [stage]: now },
+    };
+};
+
+// --- Error Mapping ---
+export const toTransactionError = (stage: ActiveTransactionStage, err: unknown): TransactionError => ({
+    ...toWalletError(err),
+    stage,
+});
+
+// --- Submit Step ---
+// Hands over the proven transaction. A queue calls onWait(true) while it holds it back and onWait(false) when it sends it.
+export type SubmitProvenTransaction = (provenTx: WalletTransaction, onWait: (waiting: boolean) => void) => Promise<string>;
+
+// --- Run Pipeline ---
+// balanceAndProve -> submit, reporting every stage change through onStage.
+// Never throws: failures are reported as a 'failed' stage carrying a TransactionError.
+export const runTransactionPipeline = async (
+    walletApi: DAppConnectorWalletAPI,
+    tx: WalletTransaction,
+    newCoins: WalletCoinInfo[],
+    onStage: (stage: TransactionStage, patch?: Partial<Pick<TrackedTransaction, 'txId' | 'error'>>) => void,
+    submit: SubmitProvenTransaction = provenTx => walletApi.submitTransaction(provenTx)
+): Promise<void> => {
+    let stage: ActiveTransactionStage = 'proving';
+    try {
+        onStage(stage);
+        const provenTx = await walletApi.balanceAndProveTransaction(tx, newCoins);
+
+        stage = 'submitting';
+        onStage(stage);
+        const txId = await submit(provenTx, (waiting) => {
+            stage = waiting ? 'queued' : 'submitting';
+            onStage(stage);
+        });
+
+        onStage('submitted', { txId });
+    } catch (err) {
+        onStage('failed', { error: toTransactionError(stage, err) });
+    }
+};
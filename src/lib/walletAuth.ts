@@ -0,0 +1,97 @@
+// src/lib/walletAuth.ts
+// Shapes and message format of the wallet sign-in handshake, shared by the browser and the server.
+// Flow: POST challenge -> wallet signs the message -> POST proof -> HTTP-only session cookie.
+import type { DAppConnectorWalletAPI } from '@midnight-ntwrk/dapp-connector-api';
+
+export const WALLET_SESSION_COOKIE = 'midnight_wallet_session';
+export const DEFAULT_SESSION_ENDPOINT = '/api/wallet-session';
+
+// --- Handshake Shapes ---
+export interface WalletChallengeRequest {
+    address: string;
+    coinPublicKey: string;
+}
+
+// The token is the server's signed copy of the other fields, so challenges need no server storage
+export interface WalletChallenge extends WalletChallengeRequest {
+    nonce: string;
+    issuedAt: number;
+    expiresAt: number;
+    message: string;    // What the wallet signs
+    token: string;
+}
+
+export interface WalletProof {
+    token: string;
+    signature: string;      // Hex signature over the UTF-8 message
+    verifyingKey: string;   // Hex key the signature verifies against
+}
+
+export interface WalletServerSession {
+    address: string;
+    coinPublicKey: string;
+    verifyingKey: string;
+    expiresAt: number;
+}
+
+// --- Challenge Message ---
+// Human-readable, so a wallet that shows what it signs shows something meaningful
+export const buildChallengeMessage = ({
+    origin,
+    address,
+    coinPublicKey,
+    nonce,
+    issuedAt
+}: WalletChallengeRequest & { origin: string; nonce: string; issuedAt: number }): string => [
+    `${origin} wants you to sign in with your Midnight wallet.`,
+    '',
+    `Address: ${address}`,
+    `Coin public key: ${coinPublicKey}`,
+    `Nonce: ${nonce}`,
+    `Issued at: ${new Date(issuedAt).toISOString()}`,
+].join('\n');
+
+// --- Signing Capability ---
+// Not part of the v2 connector API. Wallets that expose signData can sign in; others get 'Unsupported'.
+export interface WalletSignature {
+    signature: string;
+    verifyingKey: string;
+}
+
+interface SignCapableWalletAPI {
+    signData?: (message: string) => Promise<WalletSignature>;
+}
+
+export const getWalletSigner = (walletApi: DAppConnectorWalletAPI): ((message: string) => Promise<WalletSignature>) | undefined => {
+    const { signData } = walletApi as DAppConnectorWalletAPI & SignCapableWalletAPI;
+    return typeof signData === 'function' ? (message) => signData.call(walletApi, message) : undefined;
+};
+
+// --- Session Endpoint Calls ---
+// Thin wrappers over the route handlers; non-2xx responses throw with the server's message
+type FetchFn = typeof fetch;
+
+const callSessionEndpoint = async <T>(fetchFn: FetchFn, url: string, method: string, body?: unknown): Promise<T> => {
+    const response = await fetchFn(url, {
+        method,
+        credentials: 'same-origin',
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const payload = await response.json().catch(() => ({})) as T & { error?: string };
+    if (!response.ok) throw new Error(payload.error ?? `Session endpoint responded with ${response.status}.`);
+    return payload;
+};
+
+export const requestWalletChallenge = (fetchFn: FetchFn, endpoint: string, request: WalletChallengeRequest) =>
+    callSessionEndpoint<WalletChallenge>(fetchFn, `${endpoint}/challenge`, 'POST', request);
+
+export const submitWalletProof = async (fetchFn: FetchFn, endpoint: string, proof: WalletProof) =>
+    (await callSessionEndpoint<{ session: WalletServerSession }>(fetchFn, endpoint, 'POST', proof)).session;
+
+export const fetchWalletSession = async (fetchFn: FetchFn, endpoint: string) =>
+    (await callSessionEndpoint<{ session: WalletServerSession | null }>(fetchFn, endpoint, 'GET')).session;
+
+export const endWalletSession = async (fetchFn: FetchFn, endpoint: string): Promise<void> => {
+    await callSessionEndpoint(fetchFn, endpoint, 'DELETE');
+};
@@ -0,0 +1,74 @@
+// src/lib/walletDiscovery.ts
+import type { DAppConnectorAPI } from '@midnight-ntwrk/dapp-connector-api';
+import { negotiateConnector } from '@/lib/connectorAdapters';
+import { ConnectorMissingError, UnsupportedVersionError, connectorMissingError } from '@/lib/walletErrors';
+
+// --- Discovered Wallet Shape ---
+// One entry per connector injected under window.midnight
+export interface DiscoveredWallet {
+    key: string;            // Property name under window.midnight (e.g. 'mnLace')
+    name: string;
+    icon: string | null;    // Not part of the typed API, but some wallets expose it
+    apiVersion: string;
+    connector: DAppConnectorAPI;    // Wrapped in its version adapter; the raw connector when unsupported
+    adapter: string | null;         // Adapter id, null when the apiVersion isn't supported
+    unsupported: UnsupportedVersionError | null;
+}
+
+// --- Connector Source ---
+// Where connectors are looked up. Defaults to window.midnight; scripts and tests can pass their own.
+export type ConnectorSource = () => Record<string, unknown> | undefined;
+
+export const injectedConnectors: ConnectorSource = () =>
+    typeof window !== 'undefined' ? window.midnight : undefined;
+
+// --- Connector Shape Check ---
+// window.midnight is shared by every extension, so skip anything that isn't a connector
+const isDAppConnector = (candidate: unknown): candidate is DAppConnectorAPI => {
+    if (!candidate || typeof candidate !== 'object') return false;
+    const c = candidate as Partial<DAppConnectorAPI>;
+    return typeof c.enable === 'function'
+        && typeof c.isEnabled === 'function'
+        && typeof c.serviceUriConfig === 'function';
+};
+
+// --- Discover Wallets ---
+// Lists every DAppConnectorAPI currently injected under window.midnight.
+// Unsupported versions are listed too, so the picker and diagnostics can say why they can't connect.
+export const discoverWallets = (source: ConnectorSource = injectedConnectors): DiscoveredWallet[] => {
+    const connectors = source();
+    if (!connectors) return [];
+
+    return Object.entries(connectors)
+        .filter((entry): entry is [string, DAppConnectorAPI] => isDAppConnector(entry[1]))
+        .map(([key, raw]) => {
+            const icon = (raw as DAppConnectorAPI & { icon?: unknown }).icon;
+            const name = raw.name || key;
+            const negotiated = negotiateConnector(raw, name);
+            return {
+                key,
+                name,
+                icon: typeof icon === 'string' ? icon : null,
+                apiVersion: typeof raw.apiVersion === 'string' ? raw.apiVersion : 'unknown',
+                connector: negotiated.connector ?? raw,
+                adapter: negotiated.adapter,
+                unsupported: negotiated.error,
+            };
+        });
+};
+
+// --- Look Up Connector ---
+// The adapted connector for a key, or why there is none to use
+export type ConnectorLookup =
+    | { connector: DAppConnectorAPI; error: null }
+    | { connector: null; error: ConnectorMissingError | UnsupportedVersionError };
+
+export const lookupConnector = (
+    walletKey: string | null | undefined,
+    source: ConnectorSource = injectedConnectors
+): ConnectorLookup => {
+    const candidate = walletKey ? source()?.[walletKey] : undefined;
+    if (!walletKey || !isDAppConnector(candidate)) return { connector: null, error: connectorMissingError(walletKey ?? null) };
+    const negotiated = negotiateConnector(candidate, candidate.name || walletKey);
+    return negotiated.connector ? { connector: negotiated.connector, error: null } : { connector: null, error: negotiated.error };
+};
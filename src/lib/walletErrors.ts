@@ -0,0 +1,194 @@
+// src/lib/walletErrors.ts
+import { APIError, ErrorCodes } from '@midnight-ntwrk/dapp-connector-api';
+
+// Lace rejects enable() with this code until the user approves the DApp
+const NOT_APPROVED_CODE = -3;
+
+// --- Error Kinds ---
+// The first three mirror the dapp-connector ErrorCodes, the rest are raised by the DApp side
+export type WalletErrorKind =
+    | 'Rejected'
+    | 'InternalError'
+    | 'InvalidRequest'
+    | 'NotApproved'
+    | 'NotConnected'
+    | 'ConnectorMissing'
+    | 'Timeout'
+    | 'DetailsFetchFailed'
+    | 'Unsupported'
+    | 'UnsupportedVersion'
+    | 'SignInFailed'
+    | 'Cancelled'
+    | 'Unknown';
+
+interface WalletErrorBase<K extends WalletErrorKind> {
+    kind: K;
+    message: string;            // Short, user-facing text
+    detail: string | null;      // Wallet-provided reason, for tooltips and logs
+    retryable: boolean;         // Whether trying the same action again can succeed
+    apiError: APIError | null;  // The original connector error, when there was one
+    cause: unknown;             // Whatever was thrown, kept for logging
+}
+
+export type RejectedError = WalletErrorBase<'Rejected'>;
+export type InternalWalletError = WalletErrorBase<'InternalError'>;
+export type InvalidRequestError = WalletErrorBase<'InvalidRequest'>;
+export type NotApprovedError = WalletErrorBase<'NotApproved'>;
+export type NotConnectedError = WalletErrorBase<'NotConnected'>;
+export type ConnectorMissingError = WalletErrorBase<'ConnectorMissing'> & { walletKey: string | null };
+export type TimeoutError = WalletErrorBase<'Timeout'> & { timeoutMs: number };
+export type DetailsFetchFailedError = WalletErrorBase<'DetailsFetchFailed'>;
+export type UnsupportedError = WalletErrorBase<'Unsupported'> & { feature: string };
+export type UnsupportedVersionError = WalletErrorBase<'UnsupportedVersion'> & { apiVersion: string | null; supportedRange: string };
+export type SignInFailedError = WalletErrorBase<'SignInFailed'>;
+export type CancelledError = WalletErrorBase<'Cancelled'>;
+export type UnknownWalletError = WalletErrorBase<'Unknown'>;
+
+export type WalletError =
+    | RejectedError
+    | InternalWalletError
+    | InvalidRequestError
+    | NotApprovedError
+    | NotConnectedError
+    | ConnectorMissingError
+    | TimeoutError
+    | DetailsFetchFailedError
+    | UnsupportedError
+    | UnsupportedVersionError
+    | SignInFailedError
+    | CancelledError
+    | UnknownWalletError;
+
+// --- Helpers ---
+const isAPIError = (err: unknown): err is APIError => {
+    if (err instanceof APIError) return true;
+    // Errors crossing the extension boundary lose their prototype, so fall back to the shape
+    const code = (err as { code?: unknown } | null)?.code;
+    return typeof code === 'string' && (Object.values(ErrorCodes) as string[]).includes(code);
+};
+
+const reasonOf = (err: unknown): string | null => {
+    const reason = (err as { reason?: unknown } | null)?.reason;
+    if (typeof reason === 'string' && reason) return reason;
+    if (err instanceof Error && err.message) return err.message;
+    return null;
+};
+
+// Already mapped, e.g. a cancellation thrown back through midnight-js
+const isWalletError = (err: unknown): err is WalletError => {
+    const candidate = err as Partial<WalletError> | null;
+    return !!candidate && typeof candidate === 'object'
+        && typeof candidate.kind === 'string'
+        && typeof candidate.message === 'string'
+        && typeof candidate.retryable === 'boolean';
+};
+
+// --- Approval Detection ---
+// Wallets signal "not approved yet" with code -3 or, in older builds, only through the message
+export const isNotApprovedError = (err: unknown): boolean => {
+    const code = (err as { code?: unknown } | null)?.code;
+    return code === NOT_APPROVED_CODE || String(reasonOf(err) ?? '').includes('enable() first');
+};
+
+// --- Map Any Thrown Value ---
+export const toWalletError = (err: unknown): WalletError => {
+    if (isWalletError(err)) return err;
+    const detail = reasonOf(err);
+
+    if (isNotApprovedError(err)) {
+        return { kind: 'NotApproved', message: "Approve this DApp in your wallet to continue.", detail, retryable: true, apiError: null, cause: err };
+    }
+
+    if (isAPIError(err)) {
+        switch (err.code) {
+            case ErrorCodes.Rejected:
+                return { kind: 'Rejected', message: "The request was rejected in the wallet.", detail, retryable: true, apiError: err, cause: err };
+            case ErrorCodes.InternalError:
+                return { kind: 'InternalError', message: "The wallet couldn't process the request. Please try again.", detail, retryable: true, apiError: err, cause: err };
+            case ErrorCodes.InvalidRequest:
+                return { kind: 'InvalidRequest', message: "The wallet rejected the request as invalid.", detail, retryable: false, apiError: err, cause: err };
+        }
+    }
+
+    return { kind: 'Unknown', message: detail ?? "Unexpected wallet error.", detail, retryable: true, apiError: null, cause: err };
+};
+
+// --- DApp-Side Errors ---
+export const connectorMissingError = (walletKey: string | null): ConnectorMissingError => ({
+    kind: 'ConnectorMissing',
+    message: walletKey ? `Wallet '${walletKey}' was not found. Is the extension installed and enabled?` : "No wallet selected.",
+    detail: null,
+    retryable: false,
+    apiError: null,
+    cause: null,
+    walletKey,
+});
+
+export const timeoutError = (timeoutMs: number, message: string): TimeoutError => ({
+    kind: 'Timeout',
+    message,
+    detail: null,
+    retryable: true,
+    apiError: null,
+    cause: null,
+    timeoutMs,
+});
+
+export const detailsFetchFailedError = (cause: unknown): DetailsFetchFailedError => ({
+    kind: 'DetailsFetchFailed',
+    message: "Connected, but failed to fetch wallet details.",
+    detail: reasonOf(cause),
+    retryable: true,
+    apiError: isAPIError(cause) ? cause : null,
+    cause,
+});
+
+export const notConnectedError = (): NotConnectedError => ({
+    kind: 'NotConnected',
+    message: "Wallet is not connected.",
+    detail: null,
+    retryable: false,
+    apiError: null,
+    cause: null,
+});
+
+export const unsupportedError = (feature: string, walletName: string | null): UnsupportedError => ({
+    kind: 'Unsupported',
+    message: `${walletName ?? 'This wallet'} does not support ${feature}.`,
+    detail: null,
+    retryable: false,
+    apiError: null,
+    cause: null,
+    feature,
+});
+
+export const unsupportedVersionError = (walletName: string, apiVersion: string | null, supportedRange: string): UnsupportedVersionError => ({
+    kind: 'UnsupportedVersion',
+    message: apiVersion
+        ? `${walletName} uses connector API v${apiVersion}, which this DApp doesn't support.`
+        : `${walletName} doesn't report a connector API version, so this DApp can't use it.`,
+    detail: `Supported connector API versions: ${supportedRange}`,
+    retryable: false,
+    apiError: null,
+    cause: null,
+    apiVersion,
+    supportedRange,
+});
+
+export const signInFailedError = (cause: unknown): SignInFailedError => ({
+    kind: 'SignInFailed',
+    message: "Could not sign in with the wallet.",
+    detail: reasonOf(cause),
+    retryable: true,
+    apiError: isAPIError(cause) ? cause : null,
+    cause,
+});
+
+export const cancelledError = (detail: string | null = null): CancelledError => ({
+    kind: 'Cancelled',
+    message: "The transaction was rejected before it reached the wallet.",
+    detail,
+    retryable: true,
+    apiError: null,
+    cause: null,
+});
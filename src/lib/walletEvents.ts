@@ -0,0 +1,43 @@
+// src/lib/walletEvents.ts
+// Typed connection lifecycle events emitted by the wallet store, for apps to react to
+// and to forward to analytics. The snapshot says where the connection is; events say what happened.
+import { WalletError } from '@/lib/walletErrors';
+
+// --- Events ---
+// user:     disconnect() was called
+// revoked:  the wallet stopped reporting the DApp as enabled
+// otherTab: another tab disconnected (see tabSync)
+// failed:   a background read failed and the connection was dropped
+export type DisconnectReason = 'user' | 'revoked' | 'otherTab' | 'failed';
+
+export type WalletEvent =
+    | { type: 'connected'; walletKey: string; walletName: string; address: string; silent: boolean }
+    | { type: 'disconnected'; reason: DisconnectReason }
+    | { type: 'accountChanged'; from: string; to: string }
+    | { type: 'approvalTimeout'; walletKey: string; timeoutMs: number }
+    | { type: 'error'; error: WalletError };
+
+export type WalletEventType = WalletEvent['type'];
+export type WalletEventOf<T extends WalletEventType> = Extract<WalletEvent, { type: T }>;
+export type WalletEventListener = (event: WalletEvent) => void;
+
+// --- Emitter ---
+// A throwing listener is reported and skipped so the others still run
+export const createWalletEventEmitter = (onListenerError: (err: unknown) => void) => {
+    const listeners = new Set<WalletEventListener>();
+    return {
+        on: (listener: WalletEventListener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        emit: (event: WalletEvent) => {
+            listeners.forEach(listener => {
+                try {
+                    listener(event);
+                } catch (err) {
+                    onListenerError(err);
+                }
+            });
+        },
+    };
+};
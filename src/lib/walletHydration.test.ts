@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DISCONNECTED_HYDRATION_STATE,
+    WalletHydrationState,
+    decodeWalletHydrationCookie,
+    encodeWalletHydrationCookie,
+    parseWalletHydrationState
+} from '@/lib/walletHydration';
+
+const connected: WalletHydrationState = {
+    status: 'connected',
+    walletKey: 'mnLace',
+    walletName: 'Lace',
+    address: 'mn_addr_alice',
+    networkId: 'testnet',
+};
+
+describe('wallet hydration state', () => {
+    it('round-trips through the cookie encoding', () => {
+        expect(decodeWalletHydrationCookie(encodeWalletHydrationCookie(connected))).toEqual(connected);
+        expect(decodeWalletHydrationCookie(encodeWalletHydrationCookie(DISCONNECTED_HYDRATION_STATE))).toEqual(DISCONNECTED_HYDRATION_STATE);
+    });
+
+    it('treats missing, unreadable or edited cookies as no state', () => {
+        expect(decodeWalletHydrationCookie(undefined)).toBeNull();
+        expect(decodeWalletHydrationCookie('%7Bnot-json')).toBeNull();
+        expect(parseWalletHydrationState({ ...connected, status: 'checking' })).toBeNull();
+        expect(parseWalletHydrationState({ ...connected, address: null })).toBeNull();
+        expect(parseWalletHydrationState({ ...connected, walletName: 42 })).toBeNull();
+        expect(parseWalletHydrationState({ ...connected, address: 'x'.repeat(1000) })).toBeNull();
+    });
+
+    it('fills fields left out with null and drops unknown ones', () => {
+        expect(parseWalletHydrationState({ status: 'disconnected', extra: true })).toEqual(DISCONNECTED_HYDRATION_STATE);
+    });
+});
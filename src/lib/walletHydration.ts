@@ -0,0 +1,75 @@
+// src/lib/walletHydration.ts
+// A serialisable guess at the wallet status that the server can render with, so the first paint
+// matches what the client will most likely reconnect to. The browser writes it to a plain cookie
+// after every settled connect or disconnect. It is a display hint only, never proof of anything.
+
+export const WALLET_HYDRATION_COOKIE = 'midnight_wallet_hint';
+
+const COOKIE_MAX_AGE_S = 30 * 24 * 60 * 60;
+const MAX_FIELD_LENGTH = 256;
+
+// --- Hydration State ---
+export interface WalletHydrationState {
+    status: 'connected' | 'disconnected';
+    walletKey: string | null;
+    walletName: string | null;
+    address: string | null;     // Set when connected
+    networkId: string | null;
+}
+
+export const DISCONNECTED_HYDRATION_STATE: WalletHydrationState = {
+    status: 'disconnected',
+    walletKey: null,
+    walletName: null,
+    address: null,
+    networkId: null,
+};
+
+// --- Validation ---
+// Cookies can be edited by hand, so anything that doesn't look like a state we wrote counts as none
+const readField = (value: unknown): string | null | undefined => {
+    if (value === null || value === undefined) return null;
+    return typeof value === 'string' && value.length <= MAX_FIELD_LENGTH ? value : undefined;
+};
+
+export const parseWalletHydrationState = (value: unknown): WalletHydrationState | null => {
+    if (!value || typeof value !== 'object') return null;
+    const record = value as Record<string, unknown>;
+    if (record.status !== 'connected' && record.status !== 'disconnected') return null;
+
+    const fields = {
+        walletKey: readField(record.walletKey),
+        walletName: readField(record.walletName),
+        address: readField(record.address),
+        networkId: readField(record.networkId),
+    };
+    if (Object.values(fields).some(field => field === undefined)) return null;
+    if (record.status === 'connected' && !fields.address) return null;
+    return { status: record.status, ...fields } as WalletHydrationState;
+};
+
+// --- Cookie Encoding ---
+export const encodeWalletHydrationCookie = (state: WalletHydrationState): string =>
+    encodeURIComponent(JSON.stringify(state));
+
+export const decodeWalletHydrationCookie = (value: string | undefined): WalletHydrationState | null => {
+    if (!value) return null;
+    try {
+        return parseWalletHydrationState(JSON.parse(decodeURIComponent(value)));
+    } catch {
+        return null;
+    }
+};
+
+// --- Browser Write ---
+// Not HttpOnly: the store writes it from the browser, and nothing trusts it
+export const writeWalletHydrationCookie = (name: string, state: WalletHydrationState): void => {
+    if (typeof document === 'undefined') return;
+    const secure = typeof location !== 'undefined' && location.protocol === 'https:' ? '; Secure' : '';
+    document.cookie = `${name}=${encodeWalletHydrationCookie(state)}; Path=/; Max-Age=${COOKIE_MAX_AGE_S}; SameSite=Lax${secure}`;
+};
+
+export const clearWalletHydrationCookie = (name: string): void => {
+    if (typeof document === 'undefined') return;
+    document.cookie = `${name}=; Path=/; Max-Age=0; SameSite=Lax`;
+};
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LogEntry, consoleSink, createWalletLogger } from '@/lib/walletLogger';
+
+describe('createWalletLogger', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('drops entries below the configured level', () => {
+        const entries: LogEntry[] = [];
+        const logger = createWalletLogger({ level: 'warn', sinks: [entry => entries.push(entry)] });
+
+        logger.debug('trace');
+        logger.info('connected');
+        logger.warn('slow wallet');
+        logger.error('failed', 'detail');
+
+        expect(entries.map(e => [e.level, e.message, e.details])).toEqual([
+            ['warn', 'slow wallet', []],
+            ['error', 'failed', ['detail']],
+        ]);
+    });
+
+    it('sends entries to every sink, even after one throws', () => {
+        const received = vi.fn();
+        const logger = createWalletLogger({ level: 'debug', sinks: [() => { throw new Error('offline'); }, received] });
+
+        logger.info('connected');
+
+        expect(received).toHaveBeenCalledWith(expect.objectContaining({ level: 'info', message: 'connected' }));
+    });
+
+    it('writes debug and info to console.log and the rest to their own methods', () => {
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const logger = createWalletLogger({ level: 'debug', sinks: [consoleSink] });
+
+        logger.debug('trace', 1);
+        logger.warn('careful');
+
+        expect(log).toHaveBeenCalledWith('trace', 1);
+        expect(warn).toHaveBeenCalledWith('careful');
+    });
+});
@@ -0,0 +1,60 @@
+// src/lib/walletLogger.ts
+// Levelled logging for the wallet store. Entries go to sinks, so they can reach the console,
+// an analytics pipeline, or both; a custom WalletLogger can replace the whole thing.
+
+// --- Levels ---
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+export interface LogEntry {
+    level: Exclude<LogLevel, 'silent'>;
+    message: string;
+    details: unknown[];     // Errors and other values logged alongside the message
+    timestamp: number;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface WalletLogger {
+    debug: (message: string, ...details: unknown[]) => void;
+    info: (message: string, ...details: unknown[]) => void;
+    warn: (message: string, ...details: unknown[]) => void;
+    error: (message: string, ...details: unknown[]) => void;
+}
+
+// --- Sinks ---
+export const consoleSink: LogSink = ({ level, message, details }) => {
+    const method = level === 'debug' || level === 'info' ? 'log' : level;
+    console[method](message, ...details);
+};
+
+// --- Create Logger ---
+// Production builds only report problems by default; development keeps the full trace
+export const DEFAULT_LOG_LEVEL: LogLevel = process.env.NODE_ENV === 'production' ? 'warn' : 'debug';
+
+export interface WalletLoggerOptions {
+    level?: LogLevel;
+    sinks?: LogSink[];      // Defaults to the console
+}
+
+export const createWalletLogger = ({ level = DEFAULT_LOG_LEVEL, sinks = [consoleSink] }: WalletLoggerOptions = {}): WalletLogger => {
+    const log = (entryLevel: LogEntry['level']) => (message: string, ...details: unknown[]) => {
+        if (LEVEL_RANK[entryLevel] < LEVEL_RANK[level]) return;
+        const entry: LogEntry = { level: entryLevel, message, details, timestamp: Date.now() };
+        sinks.forEach(sink => {
+            try {
+                sink(entry);
+            } catch {
+                // A broken sink must not break the wallet connection
+            }
+        });
+    };
+    return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+};
+
+export const silentLogger: WalletLogger = createWalletLogger({ level: 'silent' });
+
+// --- Shared Logger ---
+// For helpers that aren't handed a logger, e.g. on the server or before a wallet store exists
+export const defaultLogger: WalletLogger = createWalletLogger();
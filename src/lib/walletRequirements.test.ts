@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { RequirementInput, evaluateRequirement } from '@/lib/walletRequirements';
+
+const connected: RequirementInput = {
+    status: 'connected',
+    address: 'mn_addr_alice',
+    networkId: 'testnet',
+    apiVersion: '1.2.0',
+};
+
+describe('evaluateRequirement', () => {
+    it('reports checking while the initial check runs, whatever the requirement', () => {
+        expect(evaluateRequirement({ network: 'testnet' }, { ...connected, status: 'checking' }).status).toBe('checking');
+    });
+
+    it('requires a connection, even while a manual connect is in flight', () => {
+        expect(evaluateRequirement({}, connected).status).toBe('met');
+        expect(evaluateRequirement({}, { ...connected, status: 'awaitingApproval', address: null }))
+            .toMatchObject({ status: 'unmet', reason: 'disconnected' });
+    });
+
+    it('checks the network against one or more ids', () => {
+        expect(evaluateRequirement({ network: ['standalone', 'testnet'] }, connected).status).toBe('met');
+        expect(evaluateRequirement({ network: 'standalone' }, connected)).toMatchObject({
+            status: 'unmet',
+            reason: 'wrongNetwork',
+            message: "This page needs 'standalone', but the wallet is on 'testnet'.",
+        });
+    });
+
+    it('checks the connector apiVersion', () => {
+        expect(evaluateRequirement({ minApiVersion: '1.2.0' }, connected).status).toBe('met');
+        expect(evaluateRequirement({ minApiVersion: '2.0.0' }, connected).reason).toBe('unsupportedWallet');
+        expect(evaluateRequirement({ minApiVersion: '1.0.0' }, { ...connected, apiVersion: null }).reason).toBe('unsupportedWallet');
+    });
+
+    it('checks the address against a list or a predicate', () => {
+        expect(evaluateRequirement({ allowlist: ['mn_addr_alice'] }, connected).status).toBe('met');
+        expect(evaluateRequirement({ allowlist: ['mn_addr_bob'] }, connected).reason).toBe('notAllowed');
+        expect(evaluateRequirement({ allowlist: address => address.endsWith('alice') }, connected).status).toBe('met');
+    });
+});
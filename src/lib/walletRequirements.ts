@@ -0,0 +1,64 @@
+// src/lib/walletRequirements.ts
+import type { WalletStatus } from '@/lib/walletStore';
+import { compareApiVersions } from '@/lib/connectorAdapters';
+
+// --- Requirement Spec ---
+// What gated content needs from the wallet. Every requirement implies a connected wallet;
+// the other conditions are checked only when set.
+export interface WalletRequirement {
+    network?: string | string[];    // Network id(s) the wallet must be on, e.g. 'testnet'
+    allowlist?: string[] | ((address: string) => boolean);
+    minApiVersion?: string;         // Lowest connector apiVersion, e.g. '1.1.0'
+}
+
+export type UnmetReason = 'disconnected' | 'wrongNetwork' | 'unsupportedWallet' | 'notAllowed';
+
+// 'checking' while the initial connection check runs, so guards never decide on a stale 'disconnected'
+export interface RequirementResult {
+    status: 'checking' | 'met' | 'unmet';
+    reason: UnmetReason | null;
+    message: string | null;
+}
+
+// The parts of the wallet state a requirement is checked against
+export interface RequirementInput {
+    status: WalletStatus;
+    address: string | null;
+    networkId: string | null;
+    apiVersion: string | null;     // Of the connected connector
+}
+
+const CHECKING: RequirementResult = { status: 'checking', reason: null, message: null };
+const MET: RequirementResult = { status: 'met', reason: null, message: null };
+
+const unmet = (reason: UnmetReason, message: string): RequirementResult => ({ status: 'unmet', reason, message });
+
+// --- Evaluate ---
+// Conditions are checked in order: connected, network, connector version, allowlist
+export const evaluateRequirement = (requirement: WalletRequirement, input: RequirementInput): RequirementResult => {
+    if (input.status === 'checking') return CHECKING;
+    if (input.status !== 'connected' || !input.address) {
+        return unmet('disconnected', 'Connect a Midnight wallet to continue.');
+    }
+
+    if (requirement.network !== undefined) {
+        const networks = Array.isArray(requirement.network) ? requirement.network : [requirement.network];
+        if (!input.networkId || !networks.includes(input.networkId)) {
+            const current = !input.networkId || input.networkId === 'unknown' ? 'an unrecognised network' : `'${input.networkId}'`;
+            return unmet('wrongNetwork', `This page needs ${networks.map(id => `'${id}'`).join(' or ')}, but the wallet is on ${current}.`);
+        }
+    }
+
+    if (requirement.minApiVersion && (!input.apiVersion || compareApiVersions(input.apiVersion, requirement.minApiVersion) < 0)) {
+        return unmet('unsupportedWallet', `This page needs wallet API v${requirement.minApiVersion} or later (connected: v${input.apiVersion ?? 'unknown'}).`);
+    }
+
+    if (requirement.allowlist) {
+        const allowed = typeof requirement.allowlist === 'function'
+            ? requirement.allowlist(input.address)
+            : requirement.allowlist.includes(input.address);
+        if (!allowed) return unmet('notAllowed', 'The connected account does not have access to this page.');
+    }
+
+    return MET;
+};
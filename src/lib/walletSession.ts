@@ -0,0 +1,91 @@
+// src/lib/walletSession.ts
+// The persisted wallet session: which wallet the user chose, who they were, and whether
+// they asked to be disconnected. Drives the auto-reconnect policy and cross-tab sync.
+import { KeyValueStorage, readStorageItem, writeStorageItem } from '@/lib/storage';
+import { WalletLogger, defaultLogger } from '@/lib/walletLogger';
+
+const SESSION_STORAGE_KEY = 'midnight:session';
+
+export const DEFAULT_TAB_SYNC_CHANNEL = 'midnight-wallet';
+
+// --- Session Record ---
+export interface WalletSession {
+    walletKey: string | null;
+    lastAddress: string | null;
+    explicitlyDisconnected: boolean;  // The user pressed Disconnect; don't reconnect silently
+    updatedAt: number;                // Epoch ms of the last change
+}
+
+export const EMPTY_WALLET_SESSION: WalletSession = {
+    walletKey: null,
+    lastAddress: null,
+    explicitlyDisconnected: false,
+    updatedAt: 0,
+};
+
+// --- Auto-Reconnect Policy ---
+// always:     reconnect on load whenever the wallet already has the DApp enabled
+// remembered: only when this browser has a session that wasn't ended with Disconnect
+// never:      always wait for the user to press Connect
+export type AutoReconnectPolicy = 'always' | 'remembered' | 'never';
+
+export const shouldAutoReconnect = (policy: AutoReconnectPolicy, session: WalletSession | null): boolean => {
+    switch (policy) {
+        case 'always': return true;
+        case 'never': return false;
+        case 'remembered': return !!session?.walletKey && !!session.lastAddress && !session.explicitlyDisconnected;
+    }
+};
+
+// --- Load/Save ---
+// Unreadable records count as no session
+export const loadWalletSession = (storage: KeyValueStorage | null, logger: WalletLogger = defaultLogger): WalletSession | null => {
+    const raw = readStorageItem(storage, SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    try {
+        const parsed = JSON.parse(raw) as Partial<WalletSession>;
+        return { ...EMPTY_WALLET_SESSION, ...parsed };
+    } catch {
+        logger.warn("Ignoring unreadable wallet session record.");
+        return null;
+    }
+};
+
+export const saveWalletSession = (
+    storage: KeyValueStorage | null,
+    patch: Partial<Omit<WalletSession, 'updatedAt'>>,
+    logger: WalletLogger = defaultLogger
+): WalletSession => {
+    const session: WalletSession = {
+        ...EMPTY_WALLET_SESSION,
+        ...loadWalletSession(storage, logger),
+        ...patch,
+        updatedAt: Date.now(),
+    };
+    writeStorageItem(storage, SESSION_STORAGE_KEY, JSON.stringify(session), logger);
+    return session;
+};
+
+// --- Tab Sync Messages ---
+// Sent over BroadcastChannel so every open tab follows a connect or disconnect
+export type TabSyncMessage =
+    | { type: 'connected'; walletKey: string; address: string }
+    | { type: 'disconnected' };
+
+export interface TabSyncChannel {
+    post: (message: TabSyncMessage) => void;
+    close: () => void;
+}
+
+// Opens the channel shared by every tab; null where tabs can't talk to each other
+export type TabSyncOpener = (name: string, onMessage: (message: TabSyncMessage) => void) => TabSyncChannel | null;
+
+export const openTabSyncChannel: TabSyncOpener = (name, onMessage) => {
+    if (typeof BroadcastChannel === 'undefined') return null;
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => onMessage(event.data);
+    return {
+        post: (message) => channel.postMessage(message),
+        close: () => channel.close(),
+    };
+};
@@ -0,0 +1,1027 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { APIError } from '@midnight-ntwrk/dapp-connector-api';
+import { MidnightWalletStoreOptions, createMidnightWalletStore } from '@/lib/walletStore';
+import { DEFAULT_POLLING_INTERVALS } from '@/lib/watcher';
+import { KeyValueStorage } from '@/lib/storage';
+import { TabSyncMessage, TabSyncOpener, loadWalletSession } from '@/lib/walletSession';
+import { WalletServerSession } from '@/lib/walletAuth';
+import { NATIVE_TOKEN_TYPE } from '@/lib/balances';
+import { WalletEvent } from '@/lib/walletEvents';
+import { LogEntry, createWalletLogger } from '@/lib/walletLogger';
+import { DEFAULT_PROVER_HEALTH_OPTIONS } from '@/lib/proverHealth';
+import { WalletTransaction } from '@/lib/transactions';
+import { decodeWalletHydrationCookie, writeWalletHydrationCookie } from '@/lib/walletHydration';
+import {
+    MOCK_ACCOUNTS,
+    MOCK_SERVICE_URIS,
+    MockWalletController,
+    MockWalletOptions,
+    createMockWallet
+} from '@/mocks/mockWallet';
+
+const { statusMs, stateMs, approvalMs, approvalTimeoutMs } = DEFAULT_POLLING_INTERVALS;
+
+// Runs due timers and drains pending promise chains
+const flush = (ms = 0) => vi.advanceTimersByTimeAsync(ms);
+
+// Stands in for localStorage shared by every tab of one browser
+const createMemoryStorage = (): KeyValueStorage => {
+    const items = new Map<string, string>();
+    return {
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => { items.set(key, value); },
+        removeItem: key => { items.delete(key); },
+    };
+};
+
+// Plays the /api/wallet-session route handlers: challenge, proof and cookie, without real signatures
+const createFakeSessionServer = (existing: WalletServerSession | null = null) => {
+    let session = existing;
+    const requests: string[] = [];
+    const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+    const fetch = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+        const method = init?.method ?? 'GET';
+        requests.push(`${method} ${url}`);
+        const body = init?.body ? JSON.parse(init.body as string) : null;
+        if (String(url).endsWith('/challenge')) {
+            return json({ ...body, nonce: 'n1', issuedAt: 0, expiresAt: 1, message: `sign in as ${body.address}`, token: body.address });
+        }
+        if (method === 'POST') {
+            if (body.signature !== `signed:sign in as ${body.token}`) return json({ error: 'Bad signature.' }, 401);
+            session = { address: body.token, coinPublicKey: 'cpk', verifyingKey: body.verifyingKey, expiresAt: 1 };
+        }
+        if (method === 'DELETE') session = null;
+        return json({ session });
+    });
+    return { fetch: fetch as typeof globalThis.fetch, requests, getSession: () => session };
+};
+
+// Plays BroadcastChannel between the stores of one test: each post reaches every other open channel on the next tick
+const createTabHub = (): TabSyncOpener => {
+    const channels = new Set<{ name: string; onMessage: (message: TabSyncMessage) => void }>();
+    return (name, onMessage) => {
+        const channel = { name, onMessage };
+        channels.add(channel);
+        return {
+            post: (message) => channels.forEach(other => {
+                if (other === channel || other.name !== name) return;
+                setTimeout(() => { if (channels.has(other)) other.onMessage(message); }, 0);
+            }),
+            close: () => { channels.delete(channel); },
+        };
+    };
+};
+
+const signer = (message: string) => ({ signature: `signed:${message}`, verifyingKey: 'vk' });
+
+let wallet: MockWalletController;
+
+const setup = (options: MockWalletOptions = {}, storeOptions: MidnightWalletStoreOptions = {}) => {
+    wallet = createMockWallet(options);
+    const store = createMidnightWalletStore({
+        connectors: () => ({ [wallet.key]: wallet.connector }),
+        storage: null,
+        tabSync: false,
+        defaultWalletKey: wallet.key,
+        autoReconnect: 'always',    // Most tests exercise the silent reconnect itself
+        proverHealth: false,        // Covered in its own block, with a fake proof server
+        ...storeOptions,
+    });
+    return store;
+};
+
+describe('createMidnightWalletStore', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        wallet?.dispose();
+    });
+
+    describe('initial check', () => {
+        it('starts in checking and silently reconnects an already-enabled wallet', async () => {
+            const store = setup({ scenario: 'approved' });
+            expect(store.getSnapshot().status).toBe('checking');
+
+            store.start();
+            await flush();
+
+            const snapshot = store.getSnapshot();
+            expect(snapshot.status).toBe('connected');
+            expect(snapshot.walletState).toEqual(MOCK_ACCOUNTS[0]);
+            expect(snapshot.serviceUris).toEqual(MOCK_SERVICE_URIS);
+            expect(snapshot.walletName).toBe('Mock Wallet');
+            expect(snapshot.error).toBeNull();
+        });
+
+        it('stays idle without prompting when the DApp is not approved yet', async () => {
+            const store = setup({ scenario: 'approvalRequired' });
+            store.start();
+            await flush();
+
+            expect(store.getSnapshot().status).toBe('idle');
+            expect(store.getSnapshot().error).toBeNull();
+            expect(wallet.calls.enable).toBe(0);
+        });
+
+        it('goes idle when no connector is installed', async () => {
+            const store = createMidnightWalletStore({ connectors: () => undefined, storage: null, tabSync: false });
+            store.start();
+            await flush();
+
+            expect(store.getSnapshot().status).toBe('idle');
+            expect(store.getSnapshot().availableWallets).toEqual([]);
+        });
+    });
+
+    describe('manual connect', () => {
+        it('connects once the wallet is enabled', async () => {
+            const store = setup({ scenario: 'approvalRequired' });
+            store.start();
+            await flush();
+
+            wallet.approve();
+            await store.connect();
+
+            expect(store.getSnapshot().status).toBe('connected');
+            expect(store.getSnapshot().selectedWalletKey).toBe(wallet.key);
+        });
+
+        it('waits for approval after a -3 error and finishes the connection once approved', async () => {
+            const store = setup({ scenario: 'approvalRequired', approvalDelayMs: 2000 });
+            store.start();
+            await flush();
+
+            await store.connect();
+            expect(store.getSnapshot().status).toBe('awaitingApproval');
+            expect(store.getSnapshot().infoMessage).toMatch(/Please approve it/);
+
+            await flush(2000 + approvalMs);
+
+            expect(store.getSnapshot().status).toBe('connected');
+            expect(store.getSnapshot().infoMessage).toBeNull();
+            expect(store.getSnapshot().walletState).toEqual(MOCK_ACCOUNTS[0]);
+        });
+
+        it('starts over from idle when stopped while awaiting approval', async () => {
+            const store = setup({ scenario: 'approvalRequired', approvalDelayMs: 2000 });
+            store.start();
+            await flush();
+            await store.connect();
+            expect(store.getSnapshot().status).toBe('awaitingApproval');
+
+            store.stop();
+            expect(store.getSnapshot()).toMatchObject({ status: 'idle', infoMessage: null });
+            store.start();
+            await flush();
+            await store.connect();
+            await flush(2000 + approvalMs);
+
+            expect(store.getSnapshot().status).toBe('connected');
+        });
+
+        it('refuses a connector version no adapter supports', async () => {
+            const store = setup({ scenario: 'approved', apiVersion: '3.0.0' });
+            store.start();
+            await flush();
+            expect(store.getSnapshot().status).toBe('idle');
+
+            await store.connect();
+
+            const { status, error } = store.getSnapshot();
+            expect(status).toBe('error');
+            expect(error).toMatchObject({ kind: 'UnsupportedVersion', apiVersion: '3.0.0', retryable: false });
+            expect(wallet.calls.enable).toBe(0);
+        });
+
+        it('fails with the shape problem when the wallet returns a malformed state', async () => {
+            const store = setup({ scenario: 'approvalRequired', accounts: [{ address: 'mn_addr_only' } as never] });
+            store.start();
+            await flush();
+
+            wallet.approve();
+            await store.connect();
+
+            const { status, error } = store.getSnapshot();
+            expect(status).toBe('error');
+            expect(error?.kind).toBe('DetailsFetchFailed');
+            expect(error?.detail).toBe("Mock Wallet returned invalid wallet state: missing 'coinPublicKey', 'encryptionPublicKey'.");
+        });
+
+        it('times out when approval never arrives', async () => {
+            const store = setup({ scenario: 'approvalTimeout' });
+            store.start();
+            await flush();
+
+            await store.connect();
+            await flush(approvalTimeoutMs + approvalMs);
+
+            const { status, error, infoMessage } = store.getSnapshot();
+            expect(status).toBe('error');
+            expect(error?.kind).toBe('Timeout');
+            expect(error?.retryable).toBe(true);
+            expect(infoMessage).toBeNull();
+        });
+
+        it('maps a rejected request to a typed error that keeps the APIError', async () => {
+            const store = setup({ scenario: 'rejected' });
+            store.start();
+            await flush();
+
+            await store.connect();
+
+            const { status, error } = store.getSnapshot();
+            expect(status).toBe('error');
+            expect(error?.kind).toBe('Rejected');
+            expect(error?.apiError).toBeInstanceOf(APIError);
+        });
+
+        it('reports a missing connector', async () => {
+            const store = setup({ scenario: 'approved' });
+            await store.connect('mnUnknown');
+
+            const { status, error } = store.getSnapshot();
+            expect(status).toBe('error');
+            expect(error?.kind).toBe('ConnectorMissing');
+        });
+
+        it('reports a failed state() after enable() as DetailsFetchFailed', async () => {
+            const store = setup({ scenario: 'stateFailure' });
+            store.start();
+            await flush();
+            expect(store.getSnapshot().status).toBe('idle');
+
+            await store.connect();
+
+            expect(store.getSnapshot().status).toBe('error');
+            expect(store.getSnapshot().error?.kind).toBe('DetailsFetchFailed');
+        });
+
+        it('ignores an approval that lands after the user disconnected', async () => {
+            const store = setup({ scenario: 'approvalRequired', approvalDelayMs: 2000 });
+            store.start();
+            await flush();
+
+            await store.connect();
+            store.disconnect();
+            await flush(2000 + approvalMs);
+
+            expect(store.getSnapshot().status).toBe('idle');
+        });
+    });
+
+    describe('background watchers', () => {
+        it('disconnects when isEnabled() turns false', async () => {
+            const store = setup({ scenario: 'approved' });
+            store.start();
+            await flush();
+            expect(store.getSnapshot().status).toBe('connected');
+
+            wallet.revoke();
+            await flush(statusMs);
+
+            const snapshot = store.getSnapshot();
+            expect(snapshot.status).toBe('idle');
+            expect(snapshot.walletApi).toBeNull();
+            expect(snapshot.walletState).toBeNull();
+        });
+
+        it('picks up an account switch', async () => {
+            const store = setup({ scenario: 'approved' });
+            store.start();
+            await flush();
+
+            wallet.switchAccount();
+            await flush(stateMs);
+
+            expect(store.getSnapshot().status).toBe('connected');
+            expect(store.getSnapshot().walletState).toEqual(MOCK_ACCOUNTS[1]);
+        });
+
+        it('reads balances on connect and re-reads them after an account switch', async () => {
+            const store = setup({
+                scenario: 'approved',
+                balances: [{ [NATIVE_TOKEN_TYPE]: BigInt(1_000_000) }, { [NATIVE_TOKEN_TYPE]: BigInt(2_000_000) }],
+            });
+            store.start();
+            await flush();
+            expect(store.getSnapshot().balances).toEqual({ [NATIVE_TOKEN_TYPE]: BigInt(1_000_000) });
+
+            wallet.switchAccount();
+            await flush(stateMs);
+            expect(store.getSnapshot().balances).toEqual({ [NATIVE_TOKEN_TYPE]: BigInt(2_000_000) });
+
+            wallet.setBalances({ [NATIVE_TOKEN_TYPE]: BigInt(2_500_000) });
+            await store.refreshBalances();
+            expect(store.getSnapshot().balances).toEqual({ [NATIVE_TOKEN_TYPE]: BigInt(2_500_000) });
+
+            store.disconnect();
+            expect(store.getSnapshot().balances).toBeNull();
+        });
+
+        it('leaves balances null when the wallet cannot report them, unless a source is given', async () => {
+            const store = setup({ scenario: 'approved' });
+            store.start();
+            await flush();
+            expect(store.getSnapshot().balances).toBeNull();
+
+            const source = vi.fn(async () => ({ [NATIVE_TOKEN_TYPE]: BigInt(9) }));
+            store.configure({ balanceSource: source });
+            await flush();
+
+            expect(source).toHaveBeenCalledWith(expect.objectContaining({ walletState: MOCK_ACCOUNTS[0], serviceUris: MOCK_SERVICE_URIS }));
+            expect(store.getSnapshot().balances).toEqual({ [NATIVE_TOKEN_TYPE]: BigInt(9) });
+        });
+
+        it('does not notify subscribers when the state is unchanged', async () => {
+            const store = setup({ scenario: 'approved' });
+            store.start();
+            await flush();
+
+            const listener = vi.fn();
+            store.subscribe(listener);
+            await flush(stateMs * 3);
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('stops polling after stop()', async () => {
+            const store = setup({ scenario: 'approved' });
+            store.start();
+            await flush();
+
+            store.stop();
+            const callsBefore = wallet.calls.state;
+            await flush(stateMs * 3);
+
+            expect(wallet.calls.state).toBe(callsBefore);
+        });
+    });
+
+    describe('network check', () => {
+        it('classifies the wallet network and clears it on disconnect', async () => {
+            const store = setup({ scenario: 'approved' }, { expectedNetwork: 'standalone' });
+            store.start();
+            await flush();
+
+            expect(store.getSnapshot().networkId).toBe('standalone');
+            expect(store.getSnapshot().networkMismatch).toBe(false);
+
+            store.disconnect();
+            expect(store.getSnapshot().networkId).toBeNull();
+        });
+
+        it('flags a mismatch and re-evaluates when the expected network changes', async () => {
+            const store = setup({ scenario: 'approved' }, { expectedNetwork: 'testnet' });
+            store.start();
+            await flush();
+            expect(store.getSnapshot().networkMismatch).toBe(true);
+
+            store.configure({ expectedNetwork: 'standalone' });
+            expect(store.getSnapshot().networkMismatch).toBe(false);
+        });
+    });
+
+    describe('session and auto-reconnect', () => {
+        it("doesn't reconnect an enabled wallet without a remembered session by default", async () => {
+            const store = setup({ scenario: 'approved' }, { storage: createMemoryStorage(), autoReconnect: undefined });
+            store.start();
+            await flush();
+
+            expect(store.getSnapshot().status).toBe('idle');
+            expect(wallet.calls.enable).toBe(0);
+        });
+
+        it('remembers a connection and restores it on the next load', async () => {
+            const storage = createMemoryStorage();
+            const first = setup({ scenario: 'approved' }, { storage, autoReconnect: 'remembered' });
+            first.start();
+            await flush();
+            await first.connect();
+            first.stop();
+
+            expect(loadWalletSession(storage)).toMatchObject({
+                walletKey: wallet.key,
+                lastAddress: MOCK_ACCOUNTS[0].address,
+                explicitlyDisconnected: false,
+            });
+
+            const reloaded = setup({ scenario: 'approved' }, { storage, autoReconnect: 'remembered' });
+            reloaded.start();
+            await flush();
+            expect(reloaded.getSnapshot().status).toBe('connected');
+        });
+
+        it('stays disconnected after the user pressed Disconnect, unless the policy is always', async () => {
+            const storage = createMemoryStorage();
+            const first = setup({ scenario: 'approved' }, { storage, autoReconnect: 'remembered' });
+            first.start();
+            await flush();
+            await first.connect();
+            first.disconnect();
+            first.stop();
+            expect(loadWalletSession(storage)?.explicitlyDisconnected).toBe(true);
+
+            const reloaded = setup({ scenario: 'approved' }, { storage, autoReconnect: 'remembered' });
+            reloaded.start();
+            await flush();
+            expect(reloaded.getSnapshot().status).toBe('idle');
+
+            const forced = setup({ scenario: 'approved' }, { storage, autoReconnect: 'always' });
+            forced.start();
+            await flush();
+            expect(forced.getSnapshot().status).toBe('connected');
+        });
+
+        it('never reconnects silently with the never policy', async () => {
+            const storage = createMemoryStorage();
+            const first = setup({ scenario: 'approved' }, { storage, autoReconnect: 'remembered' });
+            first.start();
+            await flush();
+            await first.connect();
+            first.stop();
+
+            const reloaded = setup({ scenario: 'approved' }, { storage, autoReconnect: 'never' });
+            reloaded.start();
+            await flush();
+            expect(reloaded.getSnapshot().status).toBe('idle');
+        });
+
+        it('does not mark a revoked connection as an explicit disconnect', async () => {
+            const storage = createMemoryStorage();
+            const store = setup({ scenario: 'approved' }, { storage, autoReconnect: 'remembered' });
+            store.start();
+            await flush();
+            await store.connect();
+
+            wallet.revoke();
+            await flush(statusMs);
+
+            expect(store.getSnapshot().status).toBe('idle');
+            expect(loadWalletSession(storage)?.explicitlyDisconnected).toBe(false);
+        });
+
+        it('keeps open tabs in sync over BroadcastChannel', async () => {
+            const storage = createMemoryStorage();
+            const openTabSync = createTabHub();
+            const tabA = setup({ scenario: 'approvalRequired' }, { storage, tabSync: 'tabs', openTabSync, autoReconnect: 'remembered' });
+            const tabB = createMidnightWalletStore({
+                connectors: () => ({ [wallet.key]: wallet.connector }),
+                storage,
+                tabSync: 'tabs',
+                openTabSync,
+                defaultWalletKey: wallet.key,
+                proverHealth: false,
+            });
+            tabA.start();
+            tabB.start();
+            await flush();
+            expect(tabB.getSnapshot().status).toBe('idle');
+
+            wallet.approve();
+            await tabA.connect();
+            await flush();
+            expect(tabB.getSnapshot().status).toBe('connected');
+
+            tabA.disconnect();
+            await flush();
+            expect(tabB.getSnapshot().status).toBe('idle');
+
+            tabA.stop();
+            tabB.stop();
+        });
+
+        it('follows a connect from another tab that lands during its own check', async () => {
+            const openTabSync = createTabHub();
+            const otherTab = openTabSync('tabs', () => {});
+            const store = setup({ scenario: 'approvalRequired', latencyMs: 100 }, { tabSync: 'tabs', openTabSync });
+            store.start();
+
+            otherTab?.post({ type: 'connected', walletKey: wallet.key, address: MOCK_ACCOUNTS[0].address });
+            await flush();
+            expect(store.getSnapshot().status).toBe('checking');
+
+            // The check started before the approval, so it settles as not enabled
+            await flush(100);
+            wallet.approve();
+            await flush(1000);
+
+            expect(store.getSnapshot().status).toBe('connected');
+        });
+    });
+
+    describe('hydration', () => {
+        const hint = {
+            status: 'connected' as const,
+            walletKey: 'mnMock',
+            walletName: 'Mock Wallet',
+            address: MOCK_ACCOUNTS[0].address,
+            networkId: 'standalone',
+        };
+
+        const readHintCookie = () =>
+            decodeWalletHydrationCookie(document.cookie.match(/(?:^|; )midnight_wallet_hint=([^;]*)/)?.[1]);
+
+        afterEach(() => {
+            document.cookie = 'midnight_wallet_hint=; Path=/; Max-Age=0';
+        });
+
+        it('serves the initial state to the server render and until the first check settles', async () => {
+            const store = setup({ scenario: 'approved', latencyMs: 100 }, { initialState: hint });
+            expect(store.getServerSnapshot()).toMatchObject({ status: 'checking', hydrated: false, optimisticState: hint });
+            expect(store.getSnapshot()).toBe(store.getServerSnapshot());
+
+            store.start();
+            await flush();
+            expect(store.getSnapshot()).toMatchObject({ status: 'checking', hydrated: false, optimisticState: hint });
+
+            await flush(1000);
+            expect(store.getSnapshot()).toMatchObject({ status: 'connected', hydrated: true, optimisticState: null });
+            expect(store.getServerSnapshot().optimisticState).toEqual(hint);
+        });
+
+        it('drops a stale guess when the wallet is no longer enabled', async () => {
+            const store = setup({ scenario: 'approvalRequired' }, { initialState: hint });
+            store.start();
+            await flush();
+
+            expect(store.getSnapshot()).toMatchObject({ status: 'idle', hydrated: true, optimisticState: null });
+            expect(readHintCookie()).toMatchObject({ status: 'disconnected', address: null });
+        });
+
+        it('writes settled states to the hint cookie for the next server render', async () => {
+            const store = setup({ scenario: 'approved' });
+            store.start();
+            await flush();
+            expect(readHintCookie()).toEqual(hint);
+
+            store.disconnect();
+            expect(readHintCookie()).toEqual({ ...hint, status: 'disconnected', walletName: null, address: null, networkId: null });
+        });
+
+        it('removes a hint left by another policy and writes none when the policy never reconnects', async () => {
+            writeWalletHydrationCookie('midnight_wallet_hint', hint);
+            const store = setup({ scenario: 'approved' }, { autoReconnect: 'never', initialState: hint });
+            store.start();
+            await flush();
+            expect(store.getSnapshot()).toMatchObject({ status: 'idle', hydrated: true });
+            expect(readHintCookie()).toBeNull();
+
+            await store.connect();
+            expect(store.getSnapshot().status).toBe('connected');
+            expect(readHintCookie()).toBeNull();
+        });
+
+        it('clears the hint on disconnect once the policy is switched to never', async () => {
+            const store = setup({ scenario: 'approved' });
+            store.start();
+            await flush();
+            expect(readHintCookie()).toEqual(hint);
+
+            store.configure({ autoReconnect: 'never' });
+            store.disconnect();
+
+            expect(readHintCookie()).toBeNull();
+        });
+
+        it('leaves the cookie alone when hydrationCookie is false', async () => {
+            const store = setup({ scenario: 'approved' }, { hydrationCookie: false });
+            store.start();
+            await flush();
+
+            expect(store.getSnapshot().hydrated).toBe(true);
+            expect(readHintCookie()).toBeNull();
+        });
+    });
+
+    describe('server session', () => {
+        it('signs in by having the wallet sign the server challenge', async () => {
+            const server = createFakeSessionServer();
+            const store = setup({ scenario: 'approved', signer }, { sessionEndpoint: '/api/wallet-session', fetch: server.fetch });
+            store.start();
+            await flush();
+
+            expect(await store.signIn()).toBe(true);
+
+            expect(server.requests).toEqual([
+                'GET /api/wallet-session',
+                'POST /api/wallet-session/challenge',
+                'POST /api/wallet-session',
+            ]);
+            expect(store.getSnapshot().serverSession).toMatchObject({
+                status: 'signedIn',
+                session: { address: MOCK_ACCOUNTS[0].address, verifyingKey: 'vk' },
+                error: null,
+            });
+        });
+
+        it('reports Unsupported when the wallet cannot sign', async () => {
+            const server = createFakeSessionServer();
+            const store = setup({ scenario: 'approved' }, { sessionEndpoint: '/api/wallet-session', fetch: server.fetch });
+            store.start();
+            await flush();
+
+            expect(await store.signIn()).toBe(false);
+
+            expect(store.getSnapshot().serverSession.status).toBe('error');
+            expect(store.getSnapshot().serverSession.error).toMatchObject({ kind: 'Unsupported', feature: 'message signing' });
+            expect(server.requests).not.toContain('POST /api/wallet-session/challenge');
+        });
+
+        it('reports SignInFailed when the server rejects the proof', async () => {
+            const server = createFakeSessionServer();
+            const badSigner = () => ({ signature: 'forged', verifyingKey: 'vk' });
+            const store = setup({ scenario: 'approved', signer: badSigner }, { sessionEndpoint: '/api/wallet-session', fetch: server.fetch });
+            store.start();
+            await flush();
+
+            expect(await store.signIn()).toBe(false);
+
+            expect(store.getSnapshot().serverSession.error).toMatchObject({ kind: 'SignInFailed', detail: 'Bad signature.' });
+            expect(server.getSession()).toBeNull();
+        });
+
+        it('restores an existing cookie and ends it on Disconnect', async () => {
+            const existing = { address: MOCK_ACCOUNTS[0].address, coinPublicKey: 'cpk', verifyingKey: 'vk', expiresAt: 1 };
+            const server = createFakeSessionServer(existing);
+            const store = setup({ scenario: 'approved', signer }, { sessionEndpoint: '/api/wallet-session', fetch: server.fetch });
+            store.start();
+            await flush();
+            expect(store.getSnapshot().serverSession).toMatchObject({ status: 'signedIn', session: existing });
+
+            store.disconnect();
+            await flush();
+
+            expect(store.getSnapshot().serverSession.status).toBe('signedOut');
+            expect(server.requests).toContain('DELETE /api/wallet-session');
+            expect(server.getSession()).toBeNull();
+        });
+
+        it('signs out when the wallet switches to another account', async () => {
+            const server = createFakeSessionServer();
+            const store = setup({ scenario: 'approved', signer }, { sessionEndpoint: '/api/wallet-session', fetch: server.fetch });
+            store.start();
+            await flush();
+            await store.signIn();
+
+            wallet.switchAccount(1);
+            await flush(stateMs);
+
+            expect(store.getSnapshot().walletState?.address).toBe(MOCK_ACCOUNTS[1].address);
+            expect(store.getSnapshot().serverSession.status).toBe('signedOut');
+            expect(server.getSession()).toBeNull();
+        });
+    });
+
+    describe('lifecycle events', () => {
+        const record = (store: ReturnType<typeof setup>) => {
+            const events: WalletEvent[] = [];
+            store.onEvent(event => events.push(event));
+            return events;
+        };
+
+        it('reports connects, account switches and user disconnects', async () => {
+            const store = setup({ scenario: 'approved' });
+            const events = record(store);
+            store.start();
+            await flush();
+
+            wallet.switchAccount();
+            await flush(stateMs);
+            store.disconnect();
+
+            expect(events).toEqual([
+                { type: 'connected', walletKey: wallet.key, walletName: 'Mock Wallet', address: MOCK_ACCOUNTS[0].address, silent: true },
+                { type: 'accountChanged', from: MOCK_ACCOUNTS[0].address, to: MOCK_ACCOUNTS[1].address },
+                { type: 'disconnected', reason: 'user' },
+            ]);
+        });
+
+        it('gives the reason for a background disconnect', async () => {
+            const store = setup({ scenario: 'approved' });
+            const events = record(store);
+            store.start();
+            await flush();
+
+            wallet.revoke();
+            await flush(statusMs);
+
+            expect(events.at(-1)).toEqual({ type: 'disconnected', reason: 'revoked' });
+        });
+
+        it('reports an approval timeout followed by the error', async () => {
+            const store = setup({ scenario: 'approvalTimeout' });
+            const events = record(store);
+            store.start();
+            await flush();
+
+            await store.connect();
+            await flush(approvalTimeoutMs + approvalMs);
+
+            expect(events.map(e => e.type)).toEqual(['approvalTimeout', 'error']);
+            expect(events[0]).toMatchObject({ walletKey: wallet.key, timeoutMs: approvalTimeoutMs });
+            expect(events[1]).toMatchObject({ error: { kind: 'Timeout' } });
+        });
+
+        it('does not report a disconnect for an attempt that never connected', async () => {
+            const store = setup({ scenario: 'approvalRequired' });
+            const events = record(store);
+            store.start();
+            await flush();
+
+            await store.connect();
+            store.disconnect();
+
+            expect(events).toEqual([]);
+        });
+
+        it('keeps delivering events when a listener throws', async () => {
+            const store = setup({ scenario: 'approved' }, { logger: createWalletLogger({ level: 'silent' }) });
+            store.onEvent(() => { throw new Error('listener bug'); });
+            const events = record(store);
+            store.start();
+            await flush();
+
+            expect(events.map(e => e.type)).toEqual(['connected']);
+        });
+
+        it('routes log output through the configured logger', async () => {
+            const entries: LogEntry[] = [];
+            const store = setup({ scenario: 'approved' }, { logger: createWalletLogger({ level: 'info', sinks: [entry => entries.push(entry)] }) });
+            store.start();
+            await flush();
+            wallet.revoke();
+            await flush(statusMs);
+
+            expect(entries.length).toBeGreaterThan(0);
+            expect(entries.every(e => e.level !== 'debug')).toBe(true);
+            expect(entries.map(e => e.message)).toContain("Background check detected wallet disabled. Disconnecting.");
+        });
+    });
+
+    describe('prover health', () => {
+        const LOCAL_PROVER = 'http://localhost:6300';
+
+        // Proof servers answer /health unless listed as down
+        const createProverFetch = (down: string[]) => vi.fn(async (url: string | URL | Request) => {
+            const uri = String(url).replace(/\/health$/, '');
+            if (down.includes(uri)) throw new TypeError('Failed to fetch');
+            return new Response(JSON.stringify({ status: 'ok' }));
+        }) as unknown as typeof fetch;
+
+        it("uses the wallet's prover while it answers", async () => {
+            const store = setup({ scenario: 'approved' }, { proverHealth: { fallbackUris: [LOCAL_PROVER] }, fetch: createProverFetch([]) });
+            expect(store.getSnapshot().proverStatus.state).toBe('unknown');
+            store.start();
+            await flush();
+
+            expect(store.getSnapshot().proverStatus).toMatchObject({
+                state: 'healthy',
+                uri: MOCK_SERVICE_URIS.proverServerUri,
+                source: 'wallet',
+            });
+        });
+
+        it('falls back to the next prover when the wallet prover is down, and recovers', async () => {
+            const down = [MOCK_SERVICE_URIS.proverServerUri];
+            const store = setup({ scenario: 'approved' }, { proverHealth: { fallbackUris: [LOCAL_PROVER] }, fetch: createProverFetch(down) });
+            store.start();
+            await flush();
+
+            expect(store.getSnapshot().proverStatus).toMatchObject({ state: 'healthy', uri: LOCAL_PROVER, source: 'fallback' });
+            expect(store.getSnapshot().proverStatus.probes.map(p => p.ok)).toEqual([false, true]);
+
+            down.length = 0;
+            await flush(DEFAULT_PROVER_HEALTH_OPTIONS.intervalMs);
+            expect(store.getSnapshot().proverStatus.uri).toBe(MOCK_SERVICE_URIS.proverServerUri);
+        });
+
+        it('reports unavailable when no prover answers, and resets on disconnect', async () => {
+            const store = setup({ scenario: 'approved' }, {
+                proverHealth: { fallbackUris: [LOCAL_PROVER] },
+                fetch: createProverFetch([MOCK_SERVICE_URIS.proverServerUri, LOCAL_PROVER]),
+            });
+            store.start();
+            await flush();
+
+            expect(store.getSnapshot().proverStatus).toMatchObject({ state: 'unavailable', uri: null, source: null });
+            expect(store.getSnapshot().status).toBe('connected');
+
+            store.disconnect();
+            expect(store.getSnapshot().proverStatus.state).toBe('unknown');
+        });
+    });
+
+    describe('diagnostics', () => {
+        it('records silent checks and manual connects with their outcomes', async () => {
+            const store = setup({ scenario: 'approvalRequired', approvalDelayMs: 1000 });
+            store.start();
+            await flush();
+
+            await store.connect();
+            await flush(1000 + approvalMs);
+
+            const [manual, silent] = store.getSnapshot().connectionAttempts;
+            expect(silent).toMatchObject({ kind: 'silent', walletKey: wallet.key, outcome: 'notEnabled', error: null });
+            expect(manual).toMatchObject({ kind: 'manual', outcome: 'connected', approvalRequested: true });
+            expect(manual.durationMs).toBeGreaterThanOrEqual(1000);
+        });
+
+        it('keeps the wallet error code of a failed attempt', async () => {
+            const store = setup({ scenario: 'rejected' });
+            store.start();
+            await flush();
+
+            await store.connect();
+
+            expect(store.getSnapshot().connectionAttempts[0]).toMatchObject({
+                outcome: 'failed',
+                error: { kind: 'Rejected', code: 'Rejected' },
+            });
+        });
+
+        it('marks an attempt abandoned when the user disconnects mid-approval', async () => {
+            const store = setup({ scenario: 'approvalRequired' });
+            store.start();
+            await flush();
+
+            await store.connect();
+            store.disconnect();
+            await flush(5000);
+
+            expect(store.getSnapshot().connectionAttempts[0]).toMatchObject({ kind: 'manual', outcome: 'abandoned' });
+        });
+
+        it('keeps only the configured number of attempts', async () => {
+            const store = setup({ scenario: 'rejected' }, { attemptHistorySize: 2 });
+            store.start();
+            await flush();
+
+            for (let i = 0; i < 3; i++) await store.connect();
+
+            expect(store.getSnapshot().connectionAttempts.map(a => a.kind)).toEqual(['manual', 'manual']);
+        });
+
+        it('collects a report with fresh isEnabled() results and settings', async () => {
+            const store = setup({ scenario: 'approved' });
+            store.start();
+            await flush();
+
+            const report = await store.collectDiagnostics();
+
+            expect(report).toMatchObject({
+                status: 'connected',
+                address: MOCK_ACCOUNTS[0].address,
+                serviceUris: MOCK_SERVICE_URIS,
+                connectors: [{ key: wallet.key, name: 'Mock Wallet', apiVersion: '2.0.0', adapter: 'current', unsupported: null, isEnabled: true, error: null }],
+                settings: { pollingIntervals: DEFAULT_POLLING_INTERVALS, changeDetection: 'auto', autoReconnect: 'always', tabSync: false },
+            });
+            expect(report.connectionAttempts).toEqual(store.getSnapshot().connectionAttempts);
+        });
+    });
+
+    describe('transaction review', () => {
+        const tx = { kind: 'fake-tx' } as unknown as WalletTransaction;
+        const summary = { calls: [{ kind: 'call' as const, address: '0200aa', entryPoint: 'increment' }], movements: [], estimatedFee: null, feeBasis: null };
+
+        const connected = async (storeOptions: MidnightWalletStoreOptions = {}) => {
+            const store = setup({ scenario: 'approved' }, { transactionReview: { decode: () => summary }, ...storeOptions });
+            store.start();
+            await flush();
+            return store;
+        };
+
+        it('holds the transaction in review until approved, then runs the pipeline', async () => {
+            const store = await connected();
+
+            const result = store.submitTransaction(tx, { label: 'Increment' });
+            await flush();
+
+            expect(store.getSnapshot().pendingReview).toMatchObject({ label: 'Increment', summary, decodeError: null });
+            expect(store.getSnapshot().transactions[0].stage).toBe('reviewing');
+            expect(wallet.calls.submitTransaction).toBe(0);
+
+            store.approveReview();
+            const entry = await result;
+
+            expect(entry).toMatchObject({ stage: 'submitted', txId: 'mock-tx-0001' });
+            expect(store.getSnapshot().pendingReview).toBeNull();
+        });
+
+        it('fails the transaction with a typed cancellation when rejected', async () => {
+            const store = await connected();
+
+            const result = store.submitTransaction(tx);
+            await flush();
+            store.rejectReview();
+            const entry = await result;
+
+            expect(entry.stage).toBe('failed');
+            expect(entry.error).toMatchObject({ kind: 'Cancelled', stage: 'reviewing', retryable: true });
+            expect(wallet.calls.submitTransaction).toBe(0);
+        });
+
+        it('queues reviews in order and rejects the rest on disconnect', async () => {
+            const store = await connected();
+
+            const first = store.reviewTransaction(tx, { label: 'first' });
+            const second = store.reviewTransaction(tx, { label: 'second' });
+            await flush();
+            expect(store.getSnapshot().pendingReview?.label).toBe('first');
+
+            store.approveReview();
+            expect(await first).toBe(true);
+            expect(store.getSnapshot().pendingReview?.label).toBe('second');
+
+            store.disconnect();
+            expect(await second).toBe(false);
+            expect(store.getSnapshot().pendingReview).toBeNull();
+        });
+
+        it('still asks when decoding fails, with the reason', async () => {
+            const store = await connected({ transactionReview: { decode: () => { throw new Error('Unknown format'); } } });
+
+            void store.reviewTransaction(tx);
+            await flush();
+
+            expect(store.getSnapshot().pendingReview).toMatchObject({ summary: null, decodeError: 'Unknown format' });
+        });
+
+        it('skips the review when it is off', async () => {
+            const store = await connected({ transactionReview: false });
+
+            expect(await store.reviewTransaction(tx)).toBe(true);
+            expect((await store.submitTransaction(tx)).stage).toBe('submitted');
+        });
+    });
+
+    describe('submission queue', () => {
+        const tx = { kind: 'fake-tx', identifiers: () => ['fake-tx-id'] } as unknown as WalletTransaction;
+
+        // Plays the indexer's transaction lookup; included lists the identifiers it already has
+        const createFakeIndexer = (included: string[] = []) => vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+            const { variables } = JSON.parse(init?.body as string);
+            const transactions = included.includes(variables.identifier)
+                ? [{ hash: 'h1', applyStage: 'SucceedEntirely', block: { height: 1, hash: 'b1' } }]
+                : [];
+            return new Response(JSON.stringify({ data: { transactions } }));
+        });
+
+        const connected = async (fetch: typeof globalThis.fetch) => {
+            const store = setup({ scenario: 'approved' }, { fetch });
+            store.start();
+            await flush();
+            return store;
+        };
+
+        it('holds a failed submission in the queue and resubmits it after the backoff', async () => {
+            const indexer = createFakeIndexer();
+            const store = await connected(indexer as typeof globalThis.fetch);
+            wallet.setSubmitFailure(true);
+
+            const result = store.submitTransaction(tx, { label: 'Increment' });
+            await flush();
+
+            expect(store.getSnapshot().transactions[0].stage).toBe('queued');
+            expect(store.getSnapshot().submissions[0]).toMatchObject({ label: 'Increment', state: 'retrying', attempts: 1, error: { kind: 'InternalError' } });
+
+            wallet.setSubmitFailure(false);
+            await flush(2000);
+
+            expect(await result).toMatchObject({ stage: 'submitted', txId: 'mock-tx-0002' });
+            expect(indexer).toHaveBeenCalledTimes(1);
+            expect(store.getSnapshot().submissions[0]).toMatchObject({ state: 'submitted', attempts: 2 });
+
+            store.clearSubmissions();
+            expect(store.getSnapshot().submissions).toEqual([]);
+        });
+
+        it('does not resubmit a transaction the indexer already has', async () => {
+            const store = await connected(createFakeIndexer(['fake-tx-id']) as typeof globalThis.fetch);
+            wallet.setSubmitFailure(true);
+
+            const result = store.submitTransaction(tx);
+            await flush(2000);
+
+            expect(await result).toMatchObject({ stage: 'submitted', txId: 'fake-tx-id' });
+            expect(wallet.calls.submitTransaction).toBe(1);
+            expect(store.getSnapshot().submissions[0].state).toBe('included');
+        });
+
+        it('waits while disconnected and fails as cancelled when discarded', async () => {
+            const store = await connected(createFakeIndexer() as typeof globalThis.fetch);
+            wallet.setSubmitFailure(true);
+            const result = store.submitTransaction(tx);
+            await flush();
+
+            store.disconnect();
+            await flush(10000);
+            expect(wallet.calls.submitTransaction).toBe(1);
+
+            await store.discardSubmission(store.getSnapshot().submissions[0].id);
+            expect(await result).toMatchObject({ stage: 'failed', error: { kind: 'Cancelled', stage: 'queued' } });
+            expect(store.getSnapshot().submissions).toEqual([]);
+        });
+    });
+});
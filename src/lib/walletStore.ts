@@ -0,0 +1,1192 @@
+// src/lib/walletStore.ts
+// Framework-agnostic wallet connection store. Holds the connection state machine,
+// approval polling, background watchers and the transaction pipeline.
+// React binds to it through useSyncExternalStore; scripts and workers can use it directly.
+import {
+    DAppConnectorAPI,
+    DAppConnectorWalletAPI,
+    DAppConnectorWalletState,
+    ServiceUriConfig
+} from '@midnight-ntwrk/dapp-connector-api';
+import {
+    ConnectorSource,
+    DiscoveredWallet,
+    discoverWallets,
+    injectedConnectors,
+    lookupConnector
+} from '@/lib/walletDiscovery';
+import {
+    TrackedTransaction,
+    TransactionStage,
+    SubmitTransactionOptions,
+    WalletTransaction,
+    createTrackedTransaction,
+    advanceTransaction,
+    runTransactionPipeline
+} from '@/lib/transactions';
+import {
+    TransactionDecoder,
+    TransactionReview,
+    TransactionReviewOptions,
+    TransactionSummary,
+    createTransactionDecoder
+} from '@/lib/transactionReview';
+import {
+    WalletError,
+    toWalletError,
+    cancelledError,
+    connectorMissingError,
+    timeoutError,
+    detailsFetchFailedError,
+    notConnectedError,
+    unsupportedError,
+    signInFailedError
+} from '@/lib/walletErrors';
+import {
+    PollingIntervals,
+    PushSubscription,
+    DEFAULT_POLLING_INTERVALS,
+    Watcher,
+    createWatcher,
+    deepEqual
+} from '@/lib/watcher';
+import { KeyValueStorage, getBrowserStorage } from '@/lib/storage';
+import { NetworkProfile, classifyServiceUris, resolveNetworkProfile } from '@/lib/networks';
+import {
+    AutoReconnectPolicy,
+    DEFAULT_TAB_SYNC_CHANNEL,
+    TabSyncChannel,
+    TabSyncMessage,
+    TabSyncOpener,
+    loadWalletSession,
+    openTabSyncChannel,
+    saveWalletSession,
+    shouldAutoReconnect
+} from '@/lib/walletSession';
+import {
+    WalletServerSession,
+    endWalletSession,
+    fetchWalletSession,
+    getWalletSigner,
+    requestWalletChallenge,
+    submitWalletProof
+} from '@/lib/walletAuth';
+import { BalanceSource, TokenBalances, walletBalanceSource } from '@/lib/balances';
+import { DisconnectReason, WalletEventListener, createWalletEventEmitter } from '@/lib/walletEvents';
+import { WalletLogger, createWalletLogger } from '@/lib/walletLogger';
+import {
+    DEFAULT_PROVER_HEALTH_OPTIONS,
+    ProverHealthOptions,
+    ProverStatus,
+    UNKNOWN_PROVER_STATUS,
+    selectProver
+} from '@/lib/proverHealth';
+import {
+    ConnectionAttempt,
+    ConnectionAttemptKind,
+    ConnectionAttemptOutcome,
+    DEFAULT_ATTEMPT_HISTORY_SIZE,
+    DiagnosticsReport,
+    inspectConnector,
+    summarizeAttemptError
+} from '@/lib/diagnostics';
+import {
+    DISCONNECTED_HYDRATION_STATE,
+    WALLET_HYDRATION_COOKIE,
+    WalletHydrationState,
+    clearWalletHydrationCookie,
+    writeWalletHydrationCookie
+} from '@/lib/walletHydration';
+import {
+    QueuedSubmission,
+    SubmissionQueue,
+    SubmissionQueueOptions,
+    SubmissionTarget,
+    createSubmissionQueue
+} from '@/lib/submissionQueue';
+import { createIndexerClient } from '@/lib/indexerClient';
+import { fetchTransactionInclusion } from '@/lib/indexerQueries';
+
+// --- Connection State Machine ---
+// idle -> checking -> connecting -> awaitingApproval -> connected, with error reachable from any attempt.
+// disconnect() returns to idle from anywhere; every other move must be listed here.
+export type WalletStatus = 'idle' | 'checking' | 'connecting' | 'awaitingApproval' | 'connected' | 'error';
+
+const TRANSITIONS: Record<WalletStatus, readonly WalletStatus[]> = {
+    idle: ['checking', 'connecting'],
+    checking: ['idle', 'connecting', 'connected'],
+    connecting: ['awaitingApproval', 'connected', 'error'],
+    awaitingApproval: ['connected', 'error'],
+    connected: [],
+    error: ['checking', 'connecting'],
+};
+
+// --- Server Session ---
+// Whether the server has accepted a signed proof for the connected address (see walletAuth.ts)
+export type ServerSessionStatus = 'signedOut' | 'signingIn' | 'signedIn' | 'error';
+
+export interface ServerSessionState {
+    status: ServerSessionStatus;
+    session: WalletServerSession | null;
+    error: WalletError | null;
+}
+
+const SIGNED_OUT: ServerSessionState = { status: 'signedOut', session: null, error: null };
+
+// --- Snapshot ---
+// Immutable: every change produces a new object, as useSyncExternalStore expects
+export interface MidnightWalletSnapshot {
+    status: WalletStatus;
+    walletApi: DAppConnectorWalletAPI | null;
+    serviceUris: ServiceUriConfig | null;
+    walletState: DAppConnectorWalletState | null;
+    walletName: string | null;
+    error: WalletError | null;
+    infoMessage: string | null;              // For guiding user during -3 error approval wait
+    availableWallets: DiscoveredWallet[];    // Every connector found under window.midnight
+    selectedWalletKey: string | null;        // Remembered across sessions
+    transactions: TrackedTransaction[];      // Newest first
+    expectedNetwork: NetworkProfile | null;
+    networkId: string | null;                // Network the wallet's services belong to, null until connected
+    networkMismatch: boolean;                // Wallet is connected to a different network than expectedNetwork
+    serverSession: ServerSessionState;       // Always signedOut unless a sessionEndpoint is configured
+    balances: TokenBalances | null;          // Per token type; null until read, or when no source can provide them
+    proverStatus: ProverStatus;              // Health of the proof server, checked while connected
+    connectionAttempts: ConnectionAttempt[]; // Recent connects and silent checks, newest first
+    pendingReview: TransactionReview | null; // Oldest transaction waiting for the user's approval
+    hydrated: boolean;                       // The first connection check on this client has settled
+    optimisticState: WalletHydrationState | null; // The server-rendered guess, shown until hydrated
+    submissions: QueuedSubmission[];         // Proven transactions in the submission queue, oldest first
+}
+
+// Stores start in 'checking' because the first thing start() does is the silent reconnect check
+export const INITIAL_WALLET_SNAPSHOT: MidnightWalletSnapshot = {
+    status: 'checking',
+    walletApi: null,
+    serviceUris: null,
+    walletState: null,
+    walletName: null,
+    error: null,
+    infoMessage: null,
+    availableWallets: [],
+    selectedWalletKey: null,
+    transactions: [],
+    expectedNetwork: null,
+    networkId: null,
+    networkMismatch: false,
+    serverSession: SIGNED_OUT,
+    balances: null,
+    proverStatus: UNKNOWN_PROVER_STATUS,
+    connectionAttempts: [],
+    pendingReview: null,
+    hydrated: false,
+    optimisticState: null,
+    submissions: [],
+};
+
+// --- Options ---
+export interface MidnightWalletStoreOptions {
+    defaultWalletKey?: string;                  // Used when the user hasn't picked a wallet yet
+    pollingIntervals?: Partial<PollingIntervals>;
+    changeDetection?: 'auto' | 'poll';          // 'auto' uses pushed state updates when the wallet offers them
+    expectedNetwork?: string | NetworkProfile;  // Preset id or profile; unset disables the mismatch check
+    autoReconnect?: AutoReconnectPolicy;        // When start() may reconnect silently; defaults to 'remembered'
+    connectors?: ConnectorSource;               // Defaults to window.midnight
+    storage?: KeyValueStorage | null;           // Defaults to localStorage when available
+    tabSync?: string | false;                   // BroadcastChannel name shared by open tabs; false disables sync
+    openTabSync?: TabSyncOpener;                // Defaults to BroadcastChannel
+    sessionEndpoint?: string | null;            // Route handlers for signIn(); null disables server sessions
+    fetch?: typeof fetch;                       // Defaults to the global fetch
+    balanceSource?: BalanceSource;              // Defaults to the wallet's own balances, when it offers them
+    logger?: WalletLogger;                      // Defaults to the console, quieter in production builds
+    proverHealth?: Partial<ProverHealthOptions> | false;  // Prover probing and fallbacks; false disables the checks
+    attemptHistorySize?: number;                // Connection attempts kept for diagnostics; defaults to 10
+    transactionReview?: TransactionReviewOptions | boolean; // Ask the user to approve a summary before the wallet sees a transaction
+    initialState?: WalletHydrationState | null; // What the server rendered with, e.g. from getWalletHydrationState()
+    hydrationCookie?: string | false;           // Cookie the browser keeps that state in; false disables it
+    submissionQueue?: Partial<SubmissionQueueOptions> | false;  // Persists and retries proven transactions; false submits once
+}
+
+export interface ReviewTransactionOptions {
+    label?: string;
+    summary?: TransactionSummary;   // Already decoded, e.g. with a fee estimate; skips the store's decoder
+}
+
+// --- Store API ---
+export interface MidnightWalletStore {
+    subscribe: (listener: () => void) => () => void;
+    getSnapshot: () => MidnightWalletSnapshot;
+    getServerSnapshot: () => MidnightWalletSnapshot;
+    start: () => void;                          // Discovers wallets and runs the silent reconnect check
+    stop: () => void;                           // Stops every timer; start() can be called again
+    configure: (options: Omit<MidnightWalletStoreOptions, 'connectors' | 'storage' | 'tabSync' | 'openTabSync' | 'sessionEndpoint' | 'fetch' | 'initialState' | 'hydrationCookie' | 'submissionQueue'>) => void;
+    refreshWallets: () => DiscoveredWallet[];
+    selectWallet: (walletKey: string) => void;
+    connect: (walletKey?: string) => Promise<void>;
+    disconnect: () => void;                     // User-initiated: remembered, and shared with other tabs
+    submitTransaction: (tx: WalletTransaction, options?: SubmitTransactionOptions) => Promise<TrackedTransaction>;
+    clearTransactions: () => void;
+    retrySubmission: (id: string) => void;      // Gives a failed submission a fresh set of attempts
+    discardSubmission: (id: string) => Promise<void>;  // Its submitTransaction entry fails as cancelled
+    clearSubmissions: () => void;               // Drops submitted and included items
+    reviewTransaction: (tx: unknown, options?: ReviewTransactionOptions) => Promise<boolean>;  // Resolves true at once when review is off
+    approveReview: () => void;                  // Settles pendingReview
+    rejectReview: () => void;
+    refreshBalances: () => Promise<void>;       // Reads balances now instead of waiting for the next poll
+    checkProver: () => Promise<void>;           // Probes the provers now instead of waiting for the next check
+    collectDiagnostics: () => Promise<DiagnosticsReport>;  // Asks every connector for isEnabled() and bundles the rest
+    signIn: () => Promise<boolean>;             // Proves the connected address to the server; resolves true when signed in
+    signOut: () => Promise<void>;
+    onEvent: (listener: WalletEventListener) => () => void;  // Lifecycle events; returns the unsubscribe
+    logger: WalletLogger;                       // Forwards to the configured logger, for code working alongside the store
+}
+
+// --- Pushed State Updates ---
+// Not part of the v2 connector API. If a wallet ever exposes this, the state watcher
+// switches to event-driven mode and only polls as a slow safety net.
+interface StatePushCapableWalletAPI {
+    onStateChange?: (listener: (state: DAppConnectorWalletState) => void) => () => void;
+}
+
+const getStatePushSource = (walletApi: DAppConnectorWalletAPI): PushSubscription<DAppConnectorWalletState> | undefined => {
+    const { onStateChange } = walletApi as DAppConnectorWalletAPI & StatePushCapableWalletAPI;
+    return typeof onStateChange === 'function' ? (push) => onStateChange.call(walletApi, push) : undefined;
+};
+
+// --- Transaction Review Options ---
+// null disables the review step
+const resolveTransactionDecoder = (options: TransactionReviewOptions | boolean | undefined): TransactionDecoder | null => {
+    if (!options) return null;
+    return options === true ? createTransactionDecoder() : options.decode ?? createTransactionDecoder(options.feeParameters);
+};
+
+// --- Hydration State ---
+// Only settled states are worth rendering from; null mid-attempt
+const toHydrationState = (snapshot: MidnightWalletSnapshot): WalletHydrationState | null => {
+    const { status, walletState, selectedWalletKey, walletName, networkId } = snapshot;
+    if (status === 'connected' && walletState) {
+        return { status: 'connected', walletKey: selectedWalletKey, walletName, address: walletState.address, networkId };
+    }
+    if (status === 'idle' || status === 'error') return { ...DISCONNECTED_HYDRATION_STATE, walletKey: selectedWalletKey };
+    return null;
+};
+
+// --- Submission Queue ---
+// Already on chain if the indexer knows any of the transaction's identifiers
+const indexerInclusionCheck = (serviceUris: ServiceUriConfig | null, fetchFn: typeof fetch): SubmissionTarget['isIncluded'] => {
+    if (!serviceUris?.indexerUri) return undefined;
+    const client = createIndexerClient({ uri: serviceUris.indexerUri, wsUri: serviceUris.indexerWsUri, fetch: fetchFn });
+    return async (identifiers) => {
+        for (const identifier of identifiers) {
+            if (await fetchTransactionInclusion(client, identifier)) return true;
+        }
+        return false;
+    };
+};
+
+// --- Prover Health Options ---
+const resolveProverHealth = (options: Partial<ProverHealthOptions> | false | undefined): ProverHealthOptions | false =>
+    options === false ? false : { ...DEFAULT_PROVER_HEALTH_OPTIONS, ...options };
+
+// --- Create Store ---
+export const createMidnightWalletStore = (initialOptions: MidnightWalletStoreOptions = {}): MidnightWalletStore => {
+    const connectors = initialOptions.connectors ?? injectedConnectors;
+    const storage = initialOptions.storage !== undefined ? initialOptions.storage : getBrowserStorage();
+    let defaultWalletKey = initialOptions.defaultWalletKey;
+    let intervals: PollingIntervals = { ...DEFAULT_POLLING_INTERVALS, ...initialOptions.pollingIntervals };
+    let changeDetection = initialOptions.changeDetection ?? 'auto';
+    let balanceSource = initialOptions.balanceSource ?? walletBalanceSource;
+    let logger = initialOptions.logger ?? createWalletLogger();
+    let proverHealth = resolveProverHealth(initialOptions.proverHealth);
+    let reviewDecoder = resolveTransactionDecoder(initialOptions.transactionReview);
+    let autoReconnect = initialOptions.autoReconnect ?? 'remembered';
+    const tabSyncChannelName = initialOptions.tabSync ?? DEFAULT_TAB_SYNC_CHANNEL;
+    const openTabSync = initialOptions.openTabSync ?? openTabSyncChannel;
+    const sessionEndpoint = initialOptions.sessionEndpoint ?? null;
+    const attemptHistorySize = initialOptions.attemptHistorySize ?? DEFAULT_ATTEMPT_HISTORY_SIZE;
+    const fetchFn: typeof fetch = initialOptions.fetch ?? ((...args) => fetch(...args));
+    const hydrationCookie = initialOptions.hydrationCookie ?? WALLET_HYDRATION_COOKIE;
+    // Logs through whichever logger configure() last set
+    const storeLogger: WalletLogger = {
+        debug: (message, ...details) => logger.debug(message, ...details),
+        info: (message, ...details) => logger.info(message, ...details),
+        warn: (message, ...details) => logger.warn(message, ...details),
+        error: (message, ...details) => logger.error(message, ...details),
+    };
+    const submissionQueue: SubmissionQueue | null = initialOptions.submissionQueue === false ? null : createSubmissionQueue({
+        logger: storeLogger,
+        ...initialOptions.submissionQueue,
+    });
+
+    // The server renders this too, so hydration sees the same markup whatever the client knows
+    const serverSnapshot: MidnightWalletSnapshot = {
+        ...INITIAL_WALLET_SNAPSHOT,
+        expectedNetwork: resolveNetworkProfile(initialOptions.expectedNetwork, storeLogger),
+        optimisticState: initialOptions.initialState ?? null,
+    };
+    let snapshot = serverSnapshot;
+    submissionQueue?.subscribe(() => update({ submissions: submissionQueue.getItems() }));
+    // Last state written to the cookie or read from it; null once cleared, undefined while unknown
+    let hydrationState: WalletHydrationState | null | undefined = serverSnapshot.optimisticState ?? undefined;
+    const listeners = new Set<() => void>();
+    const events = createWalletEventEmitter(err => logger.error("Wallet event listener threw:", err));
+
+    let started = false;
+    let attemptId = 0;                                  // Bumped on every connect/disconnect so stale async work is ignored
+    let connectedConnector: DAppConnectorAPI | null = null;
+    let statusWatcher: Watcher | null = null;
+    let stateWatcher: Watcher | null = null;
+    let networkWatcher: Watcher | null = null;
+    let balanceWatcher: Watcher | null = null;
+    let proverWatcher: Watcher | null = null;
+    let approvalPollInterval: ReturnType<typeof setInterval> | null = null;
+    let tabSync: TabSyncChannel | null = null;
+    let pendingTabConnect: string | null = null;        // Wallet another tab connected while our own check was running
+    let signInId = 0;                                   // Bumped on every signIn/signOut so stale handshakes are ignored
+    let reviewCounter = 0;
+    const reviewQueue: { review: TransactionReview; settle: (approved: boolean) => void }[] = [];
+    let submissionTarget: { walletApi: DAppConnectorWalletAPI; address: string; networkId: string | null; indexerUri: string | null } | null = null;
+
+    // --- Snapshot Updates ---
+    const update = (patch: Partial<MidnightWalletSnapshot>) => {
+        snapshot = { ...snapshot, ...patch };
+        // The first status past 'checking' settles hydration, and the guess gives way to the real state
+        if (!snapshot.hydrated && snapshot.status !== 'checking') {
+            snapshot = { ...snapshot, hydrated: true, optimisticState: null };
+        }
+        rememberHydrationState();
+        syncSubmissionTarget();
+        listeners.forEach(listener => listener());
+    };
+
+    // Keeps the cookie in step with settled states, so the next server render starts from this one.
+    // Under the 'never' policy the next load starts disconnected, so a hint left from another policy is cleared.
+    const rememberHydrationState = () => {
+        if (!hydrationCookie || !snapshot.hydrated) return;
+        if (autoReconnect === 'never') {
+            if (hydrationState === null) return;
+            hydrationState = null;
+            clearWalletHydrationCookie(hydrationCookie);
+            return;
+        }
+        const next = toHydrationState(snapshot);
+        if (!next || deepEqual(next, hydrationState)) return;
+        hydrationState = next;
+        writeWalletHydrationCookie(hydrationCookie, next);
+    };
+
+    // The queue only submits through a connected wallet, and only items proved by the same account and network
+    const syncSubmissionTarget = () => {
+        if (!submissionQueue) return;
+        const { status, walletApi, walletState, networkId, serviceUris } = snapshot;
+        const next = status === 'connected' && walletApi && walletState
+            ? { walletApi, address: walletState.address, networkId, indexerUri: serviceUris?.indexerUri ?? null }
+            : null;
+        const current = submissionTarget;
+        if (next === current || (next && current && next.walletApi === current.walletApi && next.address === current.address
+            && next.networkId === current.networkId && next.indexerUri === current.indexerUri)) return;
+        submissionTarget = next;
+        submissionQueue.setTarget(next && {
+            address: next.address,
+            networkId: next.networkId,
+            submit: provenTx => next.walletApi.submitTransaction(provenTx),
+            isIncluded: indexerInclusionCheck(serviceUris, fetchFn),
+        });
+    };
+
+    // Returns false (and changes nothing) when the move isn't allowed from the current status
+    const transition = (next: WalletStatus, patch: Partial<Omit<MidnightWalletSnapshot, 'status'>> = {}): boolean => {
+        const current = snapshot.status;
+        if (next !== current && !TRANSITIONS[current].includes(next)) {
+            logger.warn(`Ignoring wallet status change ${current} -> ${next}.`);
+            return false;
+        }
+        update({ ...patch, status: next });
+        if (next === 'connected') startWatchers();
+        else stopWatchers();
+        if (next === 'error' && patch.error) events.emit({ type: 'error', error: patch.error });
+        if (current === 'checking' && next !== 'checking') followPendingTabConnect();
+        return true;
+    };
+
+    // --- Timers ---
+    const stopApprovalPolling = () => {
+        if (approvalPollInterval) clearInterval(approvalPollInterval);
+        approvalPollInterval = null;
+    };
+
+    const stopWatchers = () => {
+        statusWatcher?.stop();
+        stateWatcher?.stop();
+        networkWatcher?.stop();
+        balanceWatcher?.stop();
+        proverWatcher?.stop();
+        statusWatcher = null;
+        stateWatcher = null;
+        networkWatcher = null;
+        balanceWatcher = null;
+        proverWatcher = null;
+    };
+
+    const startWatchers = () => {
+        stopWatchers();
+        const { walletApi } = snapshot;
+        const connector = connectedConnector;
+        if (!started || !walletApi || !connector) return;
+        logger.debug("Starting background status & state watchers.");
+
+        // Watch isEnabled: a false means the DApp lost access
+        statusWatcher = createWatcher<boolean>({
+            read: () => connector.isEnabled(),
+            initialValue: true,
+            onChange: (enabled) => {
+                if (!enabled) {
+                    logger.info("Background check detected wallet disabled. Disconnecting.");
+                    resetConnection('revoked');
+                }
+            },
+            onError: (pollError) => { logger.error("Error polling isEnabled:", pollError); resetConnection('failed'); },
+            intervalMs: intervals.statusMs,
+            maxIntervalMs: intervals.maxBackoffMs,
+            backoffFactor: intervals.backoffFactor,
+        });
+
+        // Watch the whole state, so key changes reach the UI as well as account switches
+        stateWatcher = createWatcher<DAppConnectorWalletState>({
+            read: () => walletApi.state(),
+            initialValue: snapshot.walletState ?? undefined,
+            onChange: (newState, previousState) => {
+                if (previousState && newState.address !== previousState.address) {
+                    logger.info("Background check detected account switch. Updating state.");
+                    saveWalletSession(storage, { lastAddress: newState.address }, storeLogger);
+                    dropForeignServerSession(newState.address);
+                    events.emit({ type: 'accountChanged', from: previousState.address, to: newState.address });
+                }
+                update({ walletState: newState });
+                // Balances belong to the account, so re-read them with every state change
+                void balanceWatcher?.checkNow();
+            },
+            onError: (pollError) => { logger.error("Error polling wallet state:", pollError); resetConnection('failed'); },
+            intervalMs: intervals.stateMs,
+            maxIntervalMs: intervals.maxBackoffMs,
+            backoffFactor: intervals.backoffFactor,
+            subscribe: changeDetection === 'auto' ? getStatePushSource(walletApi) : undefined,
+        });
+
+        // Watch the service URIs: switching networks in the wallet changes them without a reconnect
+        networkWatcher = createWatcher<ServiceUriConfig>({
+            read: () => connector.serviceUriConfig(),
+            initialValue: snapshot.serviceUris ?? undefined,
+            onChange: (serviceUris) => {
+                logger.debug("Background check detected new service URIs.");
+                update(withServiceUris(serviceUris));
+                void proverWatcher?.checkNow();
+            },
+            onError: (pollError) => { logger.error("Error polling service URIs:", pollError); },
+            intervalMs: intervals.stateMs,
+            maxIntervalMs: intervals.maxBackoffMs,
+            backoffFactor: intervals.backoffFactor,
+        });
+
+        // Watch balances on the state interval; a failed read keeps the last known balances
+        balanceWatcher = createWatcher<TokenBalances | null>({
+            read: () => {
+                const walletState = snapshot.walletState;
+                return walletState
+                    ? balanceSource({ walletApi, walletState, serviceUris: snapshot.serviceUris })
+                    : Promise.resolve(null);
+            },
+            initialValue: snapshot.balances,
+            onChange: (balances) => update({ balances }),
+            onError: (pollError) => { logger.error("Error reading balances:", pollError); },
+            intervalMs: intervals.stateMs,
+            maxIntervalMs: intervals.maxBackoffMs,
+            backoffFactor: intervals.backoffFactor,
+        });
+
+        // Watch the prover: the wallet's one first, then the DApp's fallbacks
+        if (proverHealth) {
+            const options = proverHealth;
+            proverWatcher = createWatcher<ProverStatus>({
+                read: () => selectProver(snapshot.serviceUris?.proverServerUri ?? null, options, fetchFn),
+                onChange: (proverStatus) => {
+                    if (proverStatus.state !== snapshot.proverStatus.state || proverStatus.uri !== snapshot.proverStatus.uri) {
+                        const log = proverStatus.state === 'healthy' ? logger.info : logger.warn;
+                        log(`Prover ${proverStatus.state}${proverStatus.uri ? ` (${proverStatus.uri})` : ''}.`);
+                    }
+                    update({ proverStatus });
+                },
+                onError: (probeError) => { logger.error("Error checking prover health:", probeError); },
+                intervalMs: options.intervalMs,
+            });
+            if (snapshot.proverStatus.state === 'unknown') update({ proverStatus: { ...UNKNOWN_PROVER_STATUS, state: 'checking' } });
+        }
+
+        statusWatcher.start();
+        stateWatcher.start();
+        networkWatcher.start();
+        balanceWatcher.start();
+        void balanceWatcher.checkNow();
+        proverWatcher?.start();
+        void proverWatcher?.checkNow();
+    };
+
+    // --- Network Classification ---
+    const withServiceUris = (serviceUris: ServiceUriConfig | null, expectedNetwork = snapshot.expectedNetwork) => {
+        const classification = serviceUris
+            ? classifyServiceUris(serviceUris, expectedNetwork)
+            : { networkId: null, networkMismatch: false };
+        if (classification.networkMismatch) {
+            logger.warn(`Wallet is on network '${classification.networkId}', expected '${expectedNetwork?.id}'.`);
+        }
+        return { serviceUris, expectedNetwork, ...classification };
+    };
+
+    // --- Connection Attempt History ---
+    // Starting an attempt abandons any still pending; finishing one that isn't pending is a no-op
+    const updateAttempts = (map: (attempt: ConnectionAttempt) => ConnectionAttempt) => {
+        update({ connectionAttempts: snapshot.connectionAttempts.map(map) });
+    };
+
+    const endAttempt = (entry: ConnectionAttempt, outcome: ConnectionAttemptOutcome, error?: WalletError): ConnectionAttempt => {
+        const endedAt = Date.now();
+        return {
+            ...entry,
+            outcome,
+            endedAt,
+            durationMs: endedAt - entry.startedAt,
+            error: error ? summarizeAttemptError(error) : null,
+        };
+    };
+
+    const abandonPendingAttempts = () => {
+        if (!snapshot.connectionAttempts.some(a => a.outcome === 'pending')) return;
+        updateAttempts(a => (a.outcome === 'pending' ? endAttempt(a, 'abandoned') : a));
+    };
+
+    const beginAttempt = (id: number, kind: ConnectionAttemptKind, walletKey: string | null) => {
+        abandonPendingAttempts();
+        const entry: ConnectionAttempt = {
+            id,
+            kind,
+            walletKey,
+            startedAt: Date.now(),
+            endedAt: null,
+            durationMs: null,
+            approvalRequested: false,
+            outcome: 'pending',
+            error: null,
+        };
+        update({ connectionAttempts: [entry, ...snapshot.connectionAttempts].slice(0, attemptHistorySize) });
+    };
+
+    const finishAttempt = (id: number, outcome: ConnectionAttemptOutcome, error?: WalletError) => {
+        updateAttempts(a => (a.id === id && a.outcome === 'pending' ? endAttempt(a, outcome, error) : a));
+    };
+
+    // --- Wallet Discovery & Selection ---
+    const refreshWallets = (): DiscoveredWallet[] => {
+        const wallets = discoverWallets(connectors);
+        update({ availableWallets: wallets });
+        return wallets;
+    };
+
+    const selectWallet = (walletKey: string) => {
+        update({ selectedWalletKey: walletKey });
+        saveWalletSession(storage, { walletKey }, storeLogger);
+    };
+
+    // --- Fetch State/URIs ---
+    const fetchDetails = async (connector: DAppConnectorAPI, enabledApi: DAppConnectorWalletAPI) => {
+        logger.debug("Fetching wallet state and URIs...");
+        const [walletState, serviceUris] = await Promise.all([
+            enabledApi.state(),
+            connector.serviceUriConfig()
+        ]);
+        logger.info(`Details fetched. Address: ${walletState.address}`);
+        return { walletState, serviceUris };
+    };
+
+    // --- Establish Connection ---
+    // Tries to get the API, then fetches details. Returns null on success, otherwise the typed failure.
+    // A manual 'NotApproved' failure changes nothing: the caller decides whether to poll for approval.
+    const establishConnection = async (
+        walletKey: string,
+        connector: DAppConnectorAPI,
+        isInitialCheck: boolean,
+        attempt: number
+    ): Promise<WalletError | null> => {
+        logger.debug(`establishConnection called (isInitialCheck: ${isInitialCheck})`);
+        const isCurrent = () => attempt === attemptId;
+
+        let enabledApi: DAppConnectorWalletAPI;
+        try {
+            enabledApi = await connector.enable();
+            logger.debug("enable() successful.");
+        } catch (err) {
+            logger.error("Error during establishConnection:", err);
+            const walletError = toWalletError(err);
+            if (!isCurrent()) return walletError;
+
+            if (isInitialCheck || walletError.kind !== 'NotApproved') finishAttempt(attempt, 'failed', walletError);
+            else updateAttempts(a => (a.id === attempt ? { ...a, approvalRequested: true } : a));
+
+            if (isInitialCheck) {
+                // For errors during initial check (including -3), fail silently
+                logger.debug("Initial check failed to establish connection silently.");
+                transition('idle');
+            } else if (walletError.kind === 'NotApproved') {
+                logger.warn("Detected -3 error during manual connection attempt.");
+            } else {
+                transition('error', { error: walletError, infoMessage: null });
+            }
+            return walletError;
+        }
+
+        try {
+            const details = await fetchDetails(connector, enabledApi);
+            if (!isCurrent()) return null;
+            connectedConnector = connector;
+            finishAttempt(attempt, 'connected');
+            transition('connected', {
+                walletApi: enabledApi,
+                walletName: connector.name,
+                walletState: details.walletState,
+                ...withServiceUris(details.serviceUris),
+                error: null,
+                infoMessage: null,
+            });
+            // Remember the session and let other tabs follow
+            saveWalletSession(storage, { walletKey, lastAddress: details.walletState.address, explicitlyDisconnected: false }, storeLogger);
+            tabSync?.post({ type: 'connected', walletKey, address: details.walletState.address });
+            dropForeignServerSession(details.walletState.address);
+            events.emit({
+                type: 'connected',
+                walletKey,
+                walletName: connector.name,
+                address: details.walletState.address,
+                silent: isInitialCheck,
+            });
+            return null;
+        } catch (fetchErr) {
+            logger.error("Error fetching details after enable:", fetchErr);
+            const detailsError = detailsFetchFailedError(fetchErr);
+            if (isCurrent()) {
+                finishAttempt(attempt, 'failed', detailsError);
+                if (isInitialCheck) transition('idle');
+                else transition('error', { error: detailsError, infoMessage: null });
+            }
+            return detailsError;
+        }
+    };
+
+    // --- Approval Polling after -3 Error ---
+    const startApprovalPolling = (walletKey: string, connector: DAppConnectorAPI, attempt: number) => {
+        stopApprovalPolling();
+        transition('awaitingApproval', {
+            infoMessage: `Connection prompt likely appeared in ${connector.name}. Please approve it. Checking status...`,
+        });
+
+        let attempts = 0;
+        const maxAttempts = intervals.approvalTimeoutMs / intervals.approvalMs;
+
+        approvalPollInterval = setInterval(async () => {
+            if (attempt !== attemptId) { stopApprovalPolling(); return; }
+            attempts++;
+            logger.debug(`Polling for approval: attempt ${attempts}`);
+            if (attempts > maxAttempts) {
+                logger.warn("Approval polling timed out.");
+                stopApprovalPolling();
+                events.emit({ type: 'approvalTimeout', walletKey, timeoutMs: intervals.approvalTimeoutMs });
+                const approvalTimeout = timeoutError(intervals.approvalTimeoutMs, "Connection timed out. Did you approve the request in the wallet?");
+                finishAttempt(attempt, 'failed', approvalTimeout);
+                transition('error', { error: approvalTimeout, infoMessage: null });
+                return;
+            }
+
+            try {
+                const enabled = await connector.isEnabled();
+                logger.debug(`Approval poll check: isEnabled() = ${enabled}`);
+                if (enabled && attempt === attemptId && approvalPollInterval) {
+                    logger.info("Approval detected! Re-attempting connection.");
+                    stopApprovalPolling();
+                    update({ infoMessage: "Approval detected. Finalizing connection..." });
+                    const failure = await establishConnection(walletKey, connector, false, attempt);
+                    if (failure?.kind === 'NotApproved' && attempt === attemptId) {
+                        finishAttempt(attempt, 'failed', failure);
+                        transition('error', { error: failure, infoMessage: null });
+                    }
+                }
+            } catch (pollErr) {
+                logger.error("Error during approval polling:", pollErr);
+                stopApprovalPolling();
+                if (attempt === attemptId) {
+                    const pollError = { ...toWalletError(pollErr), message: "An error occurred while checking wallet approval status." };
+                    finishAttempt(attempt, 'failed', pollError);
+                    transition('error', { error: pollError, infoMessage: null });
+                }
+            }
+        }, intervals.approvalMs);
+    };
+
+    // --- Manual Connect ---
+    const connect = async (walletKey?: string) => {
+        const { status } = snapshot;
+        if (status === 'connecting' || status === 'awaitingApproval' || status === 'connected') return;
+
+        logger.debug("Manual connect triggered.");
+        const attempt = ++attemptId;
+        stopApprovalPolling();
+        if (!transition('connecting', { error: null, infoMessage: null })) return;
+
+        const keyToUse = walletKey ?? snapshot.selectedWalletKey;
+        beginAttempt(attempt, 'manual', keyToUse);
+        const { connector, error: lookupError } = lookupConnector(keyToUse, connectors);
+        if (!keyToUse || !connector) {
+            // Missing, or a connector version no adapter handles
+            const failure = lookupError ?? connectorMissingError(keyToUse);
+            finishAttempt(attempt, 'failed', failure);
+            transition('error', { error: failure });
+            return;
+        }
+        // Remember the choice for the next session
+        selectWallet(keyToUse);
+
+        const failure = await establishConnection(keyToUse, connector, false, attempt);
+        if (failure?.kind === 'NotApproved' && attempt === attemptId) {
+            // The wallet is waiting for the user to approve this DApp
+            startApprovalPolling(keyToUse, connector, attempt);
+        }
+    };
+
+    // --- Disconnect ---
+    // Clears DApp state only; the wallet keeps its own authorisation
+    // Only a live connection produces a 'disconnected' event; abandoning an attempt doesn't
+    const resetConnection = (reason: DisconnectReason) => {
+        const wasConnected = snapshot.status === 'connected';
+        logger.info(`Disconnecting wallet (${reason})...`);
+        attemptId++;
+        abandonPendingAttempts();
+        stopApprovalPolling();
+        stopWatchers();
+        connectedConnector = null;
+        rejectAllReviews();
+        update({
+            status: 'idle',
+            walletApi: null,
+            ...withServiceUris(null),
+            walletState: null,
+            walletName: null,
+            balances: null,
+            proverStatus: UNKNOWN_PROVER_STATUS,
+            error: null,
+            infoMessage: null,
+        });
+        if (wasConnected) events.emit({ type: 'disconnected', reason });
+    };
+
+    // The user asked for this, so later loads must not reconnect silently
+    const disconnect = () => {
+        saveWalletSession(storage, { explicitlyDisconnected: true }, storeLogger);
+        tabSync?.post({ type: 'disconnected' });
+        resetConnection('user');
+        if (snapshot.serverSession.status !== 'signedOut') void signOut();
+    };
+
+    // --- Silent Reconnect ---
+    // Connects without prompting, and only if the wallet already has the DApp enabled
+    const checkExistingConnection = (walletKey: string | null) => {
+        if (snapshot.status !== 'checking' && !transition('checking')) return;
+
+        const attempt = ++attemptId;
+        beginAttempt(attempt, 'silent', walletKey);
+        const { connector, error: lookupError } = lookupConnector(walletKey, connectors);
+        if (!walletKey || !connector) {
+            logger.debug(`No usable wallet connector for the silent check: ${lookupError?.message}`);
+            finishAttempt(attempt, 'failed', lookupError ?? connectorMissingError(walletKey));
+            transition('idle');
+            return;
+        }
+
+        connector.isEnabled()
+            .then(enabled => {
+                logger.debug(`Initial isEnabled: ${enabled}`);
+                if (enabled) {
+                    // Attempt to establish connection silently
+                    return establishConnection(walletKey, connector, true, attempt);
+                }
+                finishAttempt(attempt, 'notEnabled');
+                if (attempt === attemptId) transition('idle');
+                return null;
+            })
+            .catch(err => {
+                logger.error("Error during initial isEnabled check:", err);
+                finishAttempt(attempt, 'failed', toWalletError(err));
+                if (attempt === attemptId) transition('idle');
+            });
+    };
+
+    // --- Tab Sync ---
+    // Other tabs' connects are followed silently; their disconnects apply here too
+    const handleTabSyncMessage = (message: TabSyncMessage) => {
+        const { status } = snapshot;
+        if (message.type === 'disconnected') {
+            pendingTabConnect = null;
+            if (status === 'idle') return;
+            logger.info("Another tab disconnected the wallet.");
+            resetConnection('otherTab');
+            // That tab already ended the shared server session
+            signInId++;
+            update({ serverSession: SIGNED_OUT });
+            return;
+        }
+        // Our own check may not see the approval yet; follow once it settles
+        if (status === 'checking') {
+            pendingTabConnect = message.walletKey;
+            return;
+        }
+        if (status !== 'idle' && status !== 'error') return;
+        followTabConnect(message.walletKey);
+    };
+
+    const followTabConnect = (walletKey: string) => {
+        logger.info(`Another tab connected ${walletKey}. Following.`);
+        update({ selectedWalletKey: walletKey });
+        checkExistingConnection(walletKey);
+    };
+
+    const followPendingTabConnect = () => {
+        const walletKey = pendingTabConnect;
+        pendingTabConnect = null;
+        if (walletKey && (snapshot.status === 'idle' || snapshot.status === 'error')) followTabConnect(walletKey);
+    };
+
+    // --- Initial Check ---
+    const start = () => {
+        if (started) return;
+        started = true;
+        submissionQueue?.start();
+        if (tabSyncChannelName) tabSync = openTabSync(tabSyncChannelName, handleTabSyncMessage);
+
+        // Resolve which wallet to check: remembered choice, then the default, then the only one installed
+        const session = loadWalletSession(storage, storeLogger);
+        const wallets = refreshWallets();
+        const initialKey = snapshot.selectedWalletKey
+            ?? session?.walletKey
+            ?? defaultWalletKey
+            ?? (wallets.length === 1 ? wallets[0].key : null);
+        if (initialKey !== snapshot.selectedWalletKey) update({ selectedWalletKey: initialKey });
+        restoreServerSession();
+
+        // Restarted after stop() while connected: just resume the watchers
+        if (snapshot.status === 'connected') {
+            startWatchers();
+            return;
+        }
+
+        if (!shouldAutoReconnect(autoReconnect, session)) {
+            logger.debug(`Skipping silent reconnect (policy: ${autoReconnect}).`);
+            if (snapshot.status === 'checking') transition('idle');
+            return;
+        }
+        checkExistingConnection(initialKey);
+    };
+
+    // An attempt still in flight is abandoned, so the next start() begins from idle
+    const stop = () => {
+        started = false;
+        tabSync?.close();
+        tabSync = null;
+        pendingTabConnect = null;
+        stopApprovalPolling();
+        stopWatchers();
+        submissionQueue?.stop();
+        const { status } = snapshot;
+        if (status === 'checking' || status === 'connecting' || status === 'awaitingApproval') {
+            attemptId++;
+            abandonPendingAttempts();
+            update({ status: 'idle', infoMessage: null });
+        }
+    };
+
+    // --- Runtime Options ---
+    // Options left undefined keep their current value
+    const configure: MidnightWalletStore['configure'] = (options) => {
+        if (options.defaultWalletKey !== undefined) defaultWalletKey = options.defaultWalletKey;
+        if (options.autoReconnect !== undefined) autoReconnect = options.autoReconnect;
+        if (options.logger !== undefined) logger = options.logger;
+        if (options.transactionReview !== undefined) reviewDecoder = resolveTransactionDecoder(options.transactionReview);
+        if (options.proverHealth !== undefined) {
+            const nextProverHealth = resolveProverHealth(options.proverHealth);
+            if (!deepEqual(nextProverHealth, proverHealth)) {
+                proverHealth = nextProverHealth;
+                if (!proverHealth) update({ proverStatus: UNKNOWN_PROVER_STATUS });
+                if (snapshot.status === 'connected') startWatchers();
+            }
+        }
+        if (options.balanceSource !== undefined && options.balanceSource !== balanceSource) {
+            balanceSource = options.balanceSource;
+            void balanceWatcher?.checkNow();
+        }
+        if (options.expectedNetwork !== undefined) {
+            const expectedNetwork = resolveNetworkProfile(options.expectedNetwork, storeLogger);
+            if (!deepEqual(expectedNetwork, snapshot.expectedNetwork)) {
+                update(withServiceUris(snapshot.serviceUris, expectedNetwork));
+            }
+        }
+        const nextIntervals = options.pollingIntervals
+            ? { ...DEFAULT_POLLING_INTERVALS, ...options.pollingIntervals }
+            : intervals;
+        const nextChangeDetection = options.changeDetection ?? changeDetection;
+        if (deepEqual(nextIntervals, intervals) && nextChangeDetection === changeDetection) return;
+
+        intervals = nextIntervals;
+        changeDetection = nextChangeDetection;
+        if (snapshot.status === 'connected') startWatchers();
+    };
+
+    // --- Transaction Pipeline ---
+    // Balances, proves and submits through the connected wallet, recording every stage in `transactions`.
+    // Resolves with the final entry ('submitted' or 'failed') rather than throwing.
+    const submitTransaction = async (tx: WalletTransaction, options: SubmitTransactionOptions = {}): Promise<TrackedTransaction> => {
+        let entry = createTrackedTransaction(options.label, reviewDecoder ? 'reviewing' : 'balancing');
+        update({ transactions: [entry, ...snapshot.transactions] });
+
+        const updateEntry = (stage: TransactionStage, patch?: Partial<Pick<TrackedTransaction, 'txId' | 'error'>>) => {
+            if (stage === 'failed') logger.error(`Transaction ${entry.id} failed while ${patch?.error?.stage}:`, patch?.error?.cause);
+            entry = advanceTransaction(entry, stage, patch);
+            const updated = entry;
+            update({ transactions: snapshot.transactions.map(t => (t.id === updated.id ? updated : t)) });
+        };
+
+        if (!snapshot.walletApi) {
+            updateEntry('failed', { error: { ...notConnectedError(), stage: entry.stage === 'reviewing' ? 'reviewing' : 'balancing' } });
+            return entry;
+        }
+
+        if (entry.stage === 'reviewing') {
+            if (!await reviewTransaction(tx, { label: options.label })) {
+                updateEntry('failed', { error: { ...cancelledError(), stage: 'reviewing' } });
+                return entry;
+            }
+            updateEntry('balancing');
+        }
+
+        // Read again: the wallet may have disconnected while the user was reviewing
+        const { walletApi } = snapshot;
+        if (!walletApi) {
+            updateEntry('failed', { error: { ...notConnectedError(), stage: 'balancing' } });
+            return entry;
+        }
+
+        logger.debug(`Submitting transaction ${entry.id}...`);
+        // Owned by the account and network that prove it, even if the wallet switches while proving
+        const owner = { address: snapshot.walletState?.address ?? null, networkId: snapshot.networkId };
+        const queue = submissionQueue;
+        await runTransactionPipeline(walletApi, tx, options.newCoins ?? [], updateEntry, queue
+            ? (provenTx, onWait) => queue.submit(provenTx, { ...owner, label: options.label, onWait })
+            : undefined);
+        return entry;
+    };
+
+    // --- Submission Queue ---
+    const retrySubmission = (id: string) => submissionQueue?.retry(id);
+    const discardSubmission = async (id: string) => {
+        await submissionQueue?.discard(id);
+    };
+    const clearSubmissions = () => submissionQueue?.clearFinished();
+
+    // --- Transaction Review ---
+    // One review is shown at a time; later requests wait in order. Disconnecting rejects them all.
+    const showNextReview = () => update({ pendingReview: reviewQueue[0]?.review ?? null });
+
+    const settleReview = (approved: boolean) => {
+        const head = reviewQueue.shift();
+        if (!head) return;
+        logger.info(`Transaction review ${head.review.id} ${approved ? 'approved' : 'rejected'}.`);
+        head.settle(approved);
+        showNextReview();
+    };
+
+    const rejectAllReviews = () => {
+        const pending = reviewQueue.splice(0);
+        pending.forEach(({ settle }) => settle(false));
+        if (pending.length > 0) showNextReview();
+    };
+
+    const reviewTransaction = async (tx: unknown, options: ReviewTransactionOptions = {}): Promise<boolean> => {
+        const decode = reviewDecoder;
+        if (!decode) return true;
+
+        const id = `review-${++reviewCounter}`;
+        let summary = options.summary ?? null;
+        let decodeError: string | null = null;
+        if (!summary) {
+            try {
+                summary = await decode(tx);
+            } catch (err) {
+                logger.warn(`Could not decode transaction for review ${id}:`, err);
+                decodeError = err instanceof Error ? err.message : String(err);
+            }
+        }
+
+        const review: TransactionReview = { id, label: options.label ?? null, summary, decodeError, requestedAt: Date.now() };
+        return new Promise<boolean>(settle => {
+            reviewQueue.push({ review, settle });
+            if (reviewQueue.length === 1) showNextReview();
+        });
+    };
+
+    const approveReview = () => settleReview(true);
+    const rejectReview = () => settleReview(false);
+
+    // --- Balances ---
+    const refreshBalances = async () => {
+        await balanceWatcher?.checkNow();
+    };
+
+    // --- Prover Health ---
+    const checkProver = async () => {
+        await proverWatcher?.checkNow();
+    };
+
+    // --- Diagnostics ---
+    // Everything a bug report needs, in one JSON-friendly object
+    const collectDiagnostics = async (): Promise<DiagnosticsReport> => {
+        const wallets = refreshWallets();
+        const connectorReports = await Promise.all(wallets.map(wallet => inspectConnector(wallet)));
+        return {
+            generatedAt: new Date().toISOString(),
+            userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+            status: snapshot.status,
+            walletName: snapshot.walletName,
+            selectedWalletKey: snapshot.selectedWalletKey,
+            address: snapshot.walletState?.address ?? null,
+            connectors: connectorReports,
+            connectionAttempts: snapshot.connectionAttempts,
+            serviceUris: snapshot.serviceUris,
+            networkId: snapshot.networkId,
+            expectedNetworkId: snapshot.expectedNetwork?.id ?? null,
+            proverStatus: snapshot.proverStatus,
+            settings: {
+                pollingIntervals: intervals,
+                changeDetection,
+                autoReconnect,
+                tabSync: tabSyncChannelName,
+            },
+            error: snapshot.error ? summarizeAttemptError(snapshot.error) : null,
+        };
+    };
+
+    const clearTransactions = () => {
+        // Keep in-flight entries so their updates still have somewhere to land
+        update({ transactions: snapshot.transactions.filter(t => t.stage !== 'submitted' && t.stage !== 'failed') });
+    };
+
+    // --- Server Session ---
+    // challenge -> wallet signs the message -> proof -> HTTP-only cookie set by the server
+    const setServerSession = (patch: Partial<ServerSessionState>) => {
+        update({ serverSession: { ...snapshot.serverSession, ...patch } });
+    };
+
+    const signIn = async (): Promise<boolean> => {
+        if (!sessionEndpoint) {
+            logger.warn("signIn() needs a sessionEndpoint.");
+            return false;
+        }
+        const { walletApi, walletState, walletName } = snapshot;
+        if (!walletApi || !walletState) {
+            setServerSession({ status: 'error', error: notConnectedError() });
+            return false;
+        }
+        const signer = getWalletSigner(walletApi);
+        if (!signer) {
+            setServerSession({ status: 'error', error: unsupportedError('message signing', walletName) });
+            return false;
+        }
+
+        const attempt = ++signInId;
+        const { address, coinPublicKey } = walletState;
+        setServerSession({ status: 'signingIn', error: null });
+        try {
+            const challenge = await requestWalletChallenge(fetchFn, sessionEndpoint, { address, coinPublicKey });
+            const { signature, verifyingKey } = await signer(challenge.message);
+            const session = await submitWalletProof(fetchFn, sessionEndpoint, { token: challenge.token, signature, verifyingKey });
+            if (attempt !== signInId) return false;
+            if (snapshot.walletState?.address !== session.address) {
+                // The account changed while the wallet was signing; this session belongs to the old one
+                void signOut();
+                return false;
+            }
+            logger.info(`Signed in to the server as ${session.address}.`);
+            update({ serverSession: { status: 'signedIn', session, error: null } });
+            return true;
+        } catch (err) {
+            logger.error("Wallet sign-in failed:", err);
+            if (attempt === signInId) setServerSession({ status: 'error', session: null, error: signInFailedError(err) });
+            return false;
+        }
+    };
+
+    const signOut = async () => {
+        signInId++;
+        update({ serverSession: SIGNED_OUT });
+        if (!sessionEndpoint) return;
+        try {
+            await endWalletSession(fetchFn, sessionEndpoint);
+        } catch (err) {
+            logger.error("Failed to end the server session:", err);
+        }
+    };
+
+    // A cookie for another address must not outlive the switch to a new one
+    const dropForeignServerSession = (address: string) => {
+        const { session } = snapshot.serverSession;
+        if (session && session.address !== address) void signOut();
+    };
+
+    // Picks up a cookie from an earlier visit
+    const restoreServerSession = () => {
+        if (!sessionEndpoint) return;
+        const attempt = signInId;
+        fetchWalletSession(fetchFn, sessionEndpoint)
+            .then(session => {
+                if (attempt !== signInId || !session) return;
+                const address = snapshot.walletState?.address;
+                if (address && address !== session.address) { void signOut(); return; }
+                update({ serverSession: { status: 'signedIn', session, error: null } });
+            })
+            .catch(err => logger.error("Failed to read the server session:", err));
+    };
+
+    return {
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        getSnapshot: () => snapshot,
+        getServerSnapshot: () => serverSnapshot,
+        start,
+        stop,
+        configure,
+        refreshWallets,
+        selectWallet,
+        connect,
+        disconnect,
+        submitTransaction,
+        clearTransactions,
+        retrySubmission,
+        discardSubmission,
+        clearSubmissions,
+        reviewTransaction,
+        approveReview,
+        rejectReview,
+        refreshBalances,
+        checkProver,
+        collectDiagnostics,
+        signIn,
+        signOut,
+        onEvent: events.on,
+        logger: storeLogger,
+    };
+};
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PushSubscription, WatcherOptions, createWatcher } from '@/lib/watcher';
+
+const flush = (ms = 0) => vi.advanceTimersByTimeAsync(ms);
+
+// A source whose value the test sets; every read is counted
+const createSource = (initial: string) => {
+    let value = initial;
+    const read = vi.fn(async () => value);
+    return { read, set: (next: string) => { value = next; } };
+};
+
+const setup = (options: Partial<WatcherOptions<string>> & Pick<WatcherOptions<string>, 'read'>) => {
+    const onChange = vi.fn();
+    const onError = vi.fn();
+    const watcher = createWatcher<string>({ onChange, onError, intervalMs: 100, ...options });
+    watcher.start();
+    return { watcher, onChange, onError };
+};
+
+describe('createWatcher', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('backs off while nothing changes, up to the ceiling, and snaps back on a change', async () => {
+        const source = createSource('a');
+        const { watcher, onChange } = setup({ read: source.read, maxIntervalMs: 400, backoffFactor: 2 });
+
+        await flush(100);
+        expect(source.read).toHaveBeenCalledTimes(1);
+        expect(onChange).toHaveBeenCalledWith('a', undefined);
+
+        await flush(100);   // Unchanged: the next wait doubles to 200
+        expect(source.read).toHaveBeenCalledTimes(2);
+        await flush(199);
+        expect(source.read).toHaveBeenCalledTimes(2);
+        await flush(1);     // Then 400
+        expect(source.read).toHaveBeenCalledTimes(3);
+        await flush(400);   // And stays at the 400 ceiling
+        expect(source.read).toHaveBeenCalledTimes(4);
+        await flush(399);
+        expect(source.read).toHaveBeenCalledTimes(4);
+
+        source.set('b');
+        await flush(1);
+        expect(onChange).toHaveBeenLastCalledWith('b', 'a');
+        await flush(100);   // Back to the base interval
+        expect(source.read).toHaveBeenCalledTimes(6);
+        watcher.stop();
+    });
+
+    it('reports read errors and keeps polling', async () => {
+        const read = vi.fn()
+            .mockRejectedValueOnce(new Error('Wallet busy.'))
+            .mockResolvedValue('a');
+        const { watcher, onError, onChange } = setup({ read });
+
+        await flush(100);
+        expect(onError).toHaveBeenCalledWith(new Error('Wallet busy.'));
+        await flush(100);
+        expect(onChange).toHaveBeenCalledWith('a', undefined);
+        watcher.stop();
+    });
+
+    it('pauses while the tab is hidden and checks as soon as it is visible again', async () => {
+        const visibility = vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('visible');
+        const source = createSource('a');
+        const { watcher } = setup({ read: source.read, initialValue: 'a' });
+        await flush(100);
+        expect(source.read).toHaveBeenCalledTimes(1);
+
+        visibility.mockReturnValue('hidden');
+        document.dispatchEvent(new Event('visibilitychange'));
+        await flush(10_000);
+        expect(source.read).toHaveBeenCalledTimes(1);
+
+        visibility.mockReturnValue('visible');
+        document.dispatchEvent(new Event('visibilitychange'));
+        await flush();
+        expect(source.read).toHaveBeenCalledTimes(2);
+        watcher.stop();
+    });
+
+    it('pauses while offline and checks when the connection returns', async () => {
+        const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+        const source = createSource('a');
+        const { watcher } = setup({ read: source.read, initialValue: 'a' });
+
+        onLine.mockReturnValue(false);
+        window.dispatchEvent(new Event('offline'));
+        await flush(10_000);
+        expect(source.read).not.toHaveBeenCalled();
+
+        onLine.mockReturnValue(true);
+        window.dispatchEvent(new Event('online'));
+        await flush();
+        expect(source.read).toHaveBeenCalledTimes(1);
+        watcher.stop();
+    });
+
+    it('takes pushed values and only polls at the slow rate as a fallback', async () => {
+        let push: (value: string) => void = () => {};
+        const unsubscribe = vi.fn();
+        const subscribe: PushSubscription<string> = vi.fn((listener: (value: string) => void) => {
+            push = listener;
+            return unsubscribe;
+        });
+        const source = createSource('a');
+        const { watcher, onChange } = setup({ read: source.read, maxIntervalMs: 1000, subscribe, initialValue: 'a' });
+
+        push('b');
+        expect(onChange).toHaveBeenCalledWith('b', 'a');
+        await flush(999);
+        expect(source.read).not.toHaveBeenCalled();
+
+        // A change the push source missed still arrives through the fallback poll
+        source.set('c');
+        await flush(1);
+        expect(source.read).toHaveBeenCalledTimes(1);
+        expect(onChange).toHaveBeenLastCalledWith('c', 'b');
+
+        watcher.stop();
+        expect(unsubscribe).toHaveBeenCalled();
+        push('d');
+        expect(onChange).toHaveBeenCalledTimes(2);
+    });
+});
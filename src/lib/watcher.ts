@@ -0,0 +1,182 @@
+// src/lib/watcher.ts
+// Small change-detection engine used for the wallet's background status and state checks.
+// Polls with adaptive backoff, pauses while the tab is hidden or the browser is offline,
+// and can switch to pushed updates when the source supports them.
+
+// --- Polling Configuration ---
+export interface PollingIntervals {
+    statusMs: number;            // Base interval for isEnabled() checks
+    stateMs: number;             // Base interval for state() checks
+    maxBackoffMs: number;        // Ceiling an unchanged watcher backs off to
+    backoffFactor: number;       // Interval multiplier after each unchanged poll
+    approvalMs: number;          // Interval for isEnabled() while waiting for approval
+    approvalTimeoutMs: number;   // How long to wait for approval before giving up
+}
+
+export const DEFAULT_POLLING_INTERVALS: PollingIntervals = {
+    statusMs: 3000,
+    stateMs: 5000,
+    maxBackoffMs: 30000,
+    backoffFactor: 1.5,
+    approvalMs: 500,
+    approvalTimeoutMs: 15000, // 15 seconds
+};
+
+// --- Deep Equality ---
+// Enough for JSON-like wallet data: primitives, arrays and plain objects
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    if (aKeys.length !== bKeys.length) return false;
+    return aKeys.every(key =>
+        Object.prototype.hasOwnProperty.call(b, key)
+        && deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    );
+};
+
+// --- Watcher Options ---
+export type PushSubscription<T> = (push: (value: T) => void) => () => void;
+
+export interface WatcherOptions<T> {
+    read: () => Promise<T>;
+    onChange: (next: T, previous: T | undefined) => void;
+    onError: (err: unknown) => void;
+    intervalMs: number;
+    maxIntervalMs?: number;                     // Defaults to intervalMs (no backoff)
+    backoffFactor?: number;
+    initialValue?: T;                           // Known value to compare the first read against
+    isEqual?: (a: T, b: T) => boolean;          // Defaults to deepEqual
+    subscribe?: PushSubscription<T>;            // Event-driven mode: polling drops to maxIntervalMs as a safety net
+    pauseWhenHidden?: boolean;                  // Default true
+    pauseWhenOffline?: boolean;                 // Default true
+}
+
+export interface Watcher {
+    start: () => void;
+    stop: () => void;
+    checkNow: () => Promise<void>;              // Reads immediately and resets the backoff
+}
+
+// --- Create Watcher ---
+export const createWatcher = <T>(options: WatcherOptions<T>): Watcher => {
+    const {
+        read,
+        onChange,
+        onError,
+        intervalMs,
+        maxIntervalMs = intervalMs,
+        backoffFactor = DEFAULT_POLLING_INTERVALS.backoffFactor,
+        isEqual = deepEqual,
+        subscribe,
+        pauseWhenHidden = true,
+        pauseWhenOffline = true,
+    } = options;
+
+    // With a push source the poll is only a fallback, so it runs at the slowest rate
+    const baseIntervalMs = subscribe ? maxIntervalMs : intervalMs;
+
+    let lastValue: T | undefined = options.initialValue;
+    let hasValue = 'initialValue' in options;
+    let currentIntervalMs = baseIntervalMs;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let running = false;
+    let inFlight = false;
+    let unsubscribePush: (() => void) | null = null;
+
+    const isPaused = (): boolean => {
+        if (pauseWhenHidden && typeof document !== 'undefined' && document.visibilityState === 'hidden') return true;
+        if (pauseWhenOffline && typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+        return false;
+    };
+
+    const clearTimer = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+    };
+
+    // Returns true when the value differs from the last one seen
+    const accept = (value: T): boolean => {
+        const changed = !hasValue || !isEqual(lastValue as T, value);
+        const previous = lastValue;
+        lastValue = value;
+        hasValue = true;
+        if (changed) onChange(value, previous);
+        return changed;
+    };
+
+    const schedule = () => {
+        clearTimer();
+        if (!running || isPaused()) return;
+        timer = setTimeout(poll, currentIntervalMs);
+    };
+
+    const poll = async () => {
+        if (!running || inFlight) return;
+        inFlight = true;
+        try {
+            const value = await read();
+            if (!running) return; // Stopped while the read was in flight
+            const changed = accept(value);
+            currentIntervalMs = changed
+                ? baseIntervalMs
+                : Math.min(currentIntervalMs * backoffFactor, Math.max(maxIntervalMs, baseIntervalMs));
+        } catch (err) {
+            if (running) onError(err);
+        } finally {
+            inFlight = false;
+        }
+        schedule();
+    };
+
+    const checkNow = async () => {
+        clearTimer();
+        currentIntervalMs = baseIntervalMs;
+        await poll();
+    };
+
+    // Resume with an immediate check: anything may have changed while we were paused
+    const handleResume = () => {
+        if (!running) return;
+        if (isPaused()) {
+            clearTimer();
+            return;
+        }
+        void checkNow();
+    };
+
+    const start = () => {
+        if (running) return;
+        running = true;
+        currentIntervalMs = baseIntervalMs;
+        if (subscribe) {
+            unsubscribePush = subscribe(value => {
+                if (!running) return;
+                if (accept(value)) currentIntervalMs = baseIntervalMs;
+            });
+        }
+        if (typeof document !== 'undefined') document.addEventListener('visibilitychange', handleResume);
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', handleResume);
+            window.addEventListener('offline', handleResume);
+        }
+        schedule();
+    };
+
+    const stop = () => {
+        running = false;
+        clearTimer();
+        unsubscribePush?.();
+        unsubscribePush = null;
+        if (typeof document !== 'undefined') document.removeEventListener('visibilitychange', handleResume);
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('online', handleResume);
+            window.removeEventListener('offline', handleResume);
+        }
+    };
+
+    return { start, stop, checkNow };
+};
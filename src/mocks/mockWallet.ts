@@ -0,0 +1,243 @@
+// src/mocks/mockWallet.ts
+// In-repo fake DAppConnectorAPI / DAppConnectorWalletAPI for local development and tests.
+// Each scenario reproduces one branch of the connection flow without the Lace extension or a network.
+import {
+    APIError,
+    DAppConnectorAPI,
+    DAppConnectorWalletAPI,
+    DAppConnectorWalletState,
+    ErrorCodes,
+    ServiceUriConfig
+} from '@midnight-ntwrk/dapp-connector-api';
+import { DEFAULT_POLLING_INTERVALS } from '@/lib/watcher';
+import { WalletTransaction } from '@/lib/transactions';
+import { WalletSignature } from '@/lib/walletAuth';
+import { NATIVE_TOKEN_TYPE, TokenBalances } from '@/lib/balances';
+import { WalletLogger, defaultLogger } from '@/lib/walletLogger';
+
+export const MOCK_WALLET_KEY = 'mnMock';
+export const MOCK_WALLET_ENV_FLAG = 'NEXT_PUBLIC_MIDNIGHT_MOCK_WALLET';
+
+// --- Scenarios ---
+export const MOCK_WALLET_SCENARIOS = [
+    'approved',          // Already authorised: silent reconnect on load
+    'approvalRequired',  // enable() throws -3 until the user "approves" after approvalDelayMs
+    'rejected',          // enable() throws APIError(Rejected)
+    'approvalTimeout',   // Approval arrives only after the DApp has stopped waiting
+    'accountSwitch',     // state() moves to the next account after accountSwitchAfterMs
+    'revoked',           // isEnabled() turns false after revokeAfterMs
+    'stateFailure',      // state() throws after stateFailureAfterMs (0 = already while connecting)
+] as const;
+
+export type MockWalletScenario = typeof MOCK_WALLET_SCENARIOS[number];
+
+export const isMockWalletScenario = (value: unknown): value is MockWalletScenario =>
+    typeof value === 'string' && (MOCK_WALLET_SCENARIOS as readonly string[]).includes(value);
+
+// --- Options ---
+export interface MockWalletOptions {
+    scenario?: MockWalletScenario;
+    key?: string;
+    name?: string;
+    apiVersion?: string;
+    accounts?: DAppConnectorWalletState[];
+    serviceUris?: ServiceUriConfig;
+    approvalDelayMs?: number;       // approvalRequired / approvalTimeout: time from the first enable() to approval
+    accountSwitchAfterMs?: number;  // accountSwitch: time from enable() to the switch
+    revokeAfterMs?: number;         // revoked: time from enable() to revocation
+    stateFailureAfterMs?: number;   // stateFailure: time from enable() until state() starts throwing
+    latencyMs?: number;             // Delay added to every call, to make loading states visible
+    signer?: (message: string) => WalletSignature | Promise<WalletSignature>; // Adds signData, for sign-in flows
+    balances?: TokenBalances[];     // Adds balances(), one entry per account
+    logger?: WalletLogger;          // Where installMockWallet announces itself; defaults to the shared logger
+}
+
+// --- Controller ---
+// Manual controls let tests drive the wallet step by step (e.g. with fake timers)
+export interface MockWalletController {
+    key: string;
+    connector: DAppConnectorAPI;
+    walletApi: DAppConnectorWalletAPI;
+    calls: { enable: number; isEnabled: number; state: number; serviceUriConfig: number; submitTransaction: number };
+    approve: () => void;
+    revoke: () => void;
+    switchAccount: (index?: number) => void;
+    setStateFailure: (failing: boolean) => void;
+    setSubmitFailure: (failing: boolean) => void;   // submitTransaction throws InternalError, e.g. for the submission queue
+    setBalances: (balances: TokenBalances, index?: number) => void;  // Needs the balances option
+    dispose: () => void;            // Clears pending timers
+}
+
+// --- Fixtures ---
+// Cast because newer connector versions add fields the mock doesn't need
+const mockAccount = (suffix: string): DAppConnectorWalletState => ({
+    address: `mn_addr_mock1${suffix.repeat(40)}`,
+    coinPublicKey: `mn_shield-cpk_mock1${suffix.repeat(40)}`,
+    encryptionPublicKey: `mn_shield-epk_mock1${suffix.repeat(40)}`,
+} as DAppConnectorWalletState);
+
+export const MOCK_ACCOUNTS: DAppConnectorWalletState[] = [mockAccount('a'), mockAccount('b')];
+
+// One entry per mock account
+export const MOCK_BALANCES: TokenBalances[] = [
+    { [NATIVE_TOKEN_TYPE]: BigInt(1_250_500_000) },
+    { [NATIVE_TOKEN_TYPE]: BigInt(42_000_000) },
+];
+
+export const MOCK_SERVICE_URIS: ServiceUriConfig = {
+    indexerUri: 'http://127.0.0.1:8088/api/v1/graphql',
+    indexerWsUri: 'ws://127.0.0.1:8088/api/v1/graphql/ws',
+    proverServerUri: 'http://127.0.0.1:6300',
+    substrateNodeUri: 'http://127.0.0.1:9944',
+};
+
+const MOCK_ICON = 'data:image/svg+xml;utf8,'
+    + encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 28 28"><rect width="28" height="28" rx="6" fill="#6366f1"/><text x="14" y="19" font-size="14" text-anchor="middle" fill="white">M</text></svg>');
+
+// Lace signals "not approved yet" with a bare -3 code rather than an APIError
+const notApprovedError = () => Object.assign(
+    new Error('DApp is not authorized. Approve the request in the wallet and call enable() first.'),
+    { code: -3 }
+);
+
+// --- Create Mock Wallet ---
+export const createMockWallet = (options: MockWalletOptions = {}): MockWalletController => {
+    const {
+        scenario = 'approved',
+        key = MOCK_WALLET_KEY,
+        name = 'Mock Wallet',
+        apiVersion = '2.0.0',
+        accounts = MOCK_ACCOUNTS,
+        serviceUris = MOCK_SERVICE_URIS,
+        approvalDelayMs = scenario === 'approvalTimeout' ? DEFAULT_POLLING_INTERVALS.approvalTimeoutMs + 5000 : 2000,
+        accountSwitchAfterMs = 10000,
+        revokeAfterMs = 10000,
+        stateFailureAfterMs = 0,
+        latencyMs = 0,
+        signer,
+        balances,
+    } = options;
+
+    let enabled = scenario === 'approved' || scenario === 'accountSwitch' || scenario === 'revoked' || scenario === 'stateFailure';
+    let accountIndex = 0;
+    let stateFailing = false;
+    let submitFailing = false;
+    let approvalScheduled = false;
+    let enabledTimersScheduled = false;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const calls = { enable: 0, isEnabled: 0, state: 0, serviceUriConfig: 0, submitTransaction: 0 };
+
+    const later = (fn: () => void, ms: number) => { timers.push(setTimeout(fn, ms)); };
+    const respond = <T>(fn: () => T): Promise<T> => new Promise((resolve, reject) => {
+        const run = () => { try { resolve(fn()); } catch (err) { reject(err); } };
+        if (latencyMs > 0) later(run, latencyMs);
+        else run();
+    });
+
+    const approve = () => { enabled = true; };
+    const revoke = () => { enabled = false; };
+    const switchAccount = (index?: number) => {
+        accountIndex = index ?? (accountIndex + 1) % accounts.length;
+    };
+    const setStateFailure = (failing: boolean) => { stateFailing = failing; };
+    const setSubmitFailure = (failing: boolean) => { submitFailing = failing; };
+    const accountBalances = balances ? [...balances] : null;
+    const setBalances = (next: TokenBalances, index = accountIndex) => {
+        if (accountBalances) accountBalances[index] = next;
+    };
+
+    // Scenario timers that start once the DApp holds the wallet API
+    const scheduleEnabledTimers = () => {
+        if (enabledTimersScheduled) return;
+        enabledTimersScheduled = true;
+        if (scenario === 'accountSwitch') later(() => switchAccount(), accountSwitchAfterMs);
+        if (scenario === 'revoked') later(revoke, revokeAfterMs);
+        if (scenario === 'stateFailure') {
+            if (stateFailureAfterMs > 0) later(() => setStateFailure(true), stateFailureAfterMs);
+            else setStateFailure(true);
+        }
+    };
+
+    const walletApi: DAppConnectorWalletAPI = {
+        state: () => respond(() => {
+            calls.state++;
+            if (stateFailing) throw new APIError(ErrorCodes.InternalError, 'Mock wallet failed to read its state.');
+            if (!enabled) throw notApprovedError();
+            return accounts[accountIndex];
+        }),
+        balanceAndProveTransaction: (tx: WalletTransaction) => respond(() => tx),
+        submitTransaction: () => respond(() => {
+            calls.submitTransaction++;
+            if (submitFailing) throw new APIError(ErrorCodes.InternalError, 'Mock wallet failed to submit the transaction.');
+            return `mock-tx-${calls.submitTransaction.toString().padStart(4, '0')}`;
+        }),
+        ...(signer && { signData: (message: string) => respond(() => signer(message)) }),
+        ...(accountBalances && { balances: () => respond(() => accountBalances[accountIndex] ?? {}) }),
+    } as unknown as DAppConnectorWalletAPI; // Deprecated members are left out on purpose
+
+    const connector = {
+        name,
+        apiVersion,
+        icon: MOCK_ICON,
+        isEnabled: () => respond(() => {
+            calls.isEnabled++;
+            return enabled;
+        }),
+        serviceUriConfig: () => respond(() => {
+            calls.serviceUriConfig++;
+            return serviceUris;
+        }),
+        enable: () => respond(() => {
+            calls.enable++;
+            if (scenario === 'rejected') throw new APIError(ErrorCodes.Rejected, 'User rejected the connection request.');
+            if (!enabled) {
+                // First request "shows the prompt"; approval lands after approvalDelayMs
+                if (!approvalScheduled && (scenario === 'approvalRequired' || scenario === 'approvalTimeout')) {
+                    approvalScheduled = true;
+                    later(approve, approvalDelayMs);
+                }
+                throw notApprovedError();
+            }
+            scheduleEnabledTimers();
+            return walletApi;
+        }),
+    } as DAppConnectorAPI;
+
+    return {
+        key,
+        connector,
+        walletApi,
+        calls,
+        approve,
+        revoke,
+        switchAccount,
+        setStateFailure,
+        setSubmitFailure,
+        setBalances,
+        dispose: () => { timers.forEach(clearTimeout); timers.length = 0; },
+    };
+};
+
+// --- Install Into window.midnight ---
+// Returns the controller; dispose() also removes the connector again
+export const installMockWallet = (options: MockWalletOptions = {}): MockWalletController => {
+    const controller = createMockWallet(options);
+    if (typeof window === 'undefined') return controller;
+
+    window.midnight = { ...window.midnight, [controller.key]: controller.connector };
+    (options.logger ?? defaultLogger).info(`Mock wallet installed as window.midnight.${controller.key} (scenario: ${options.scenario ?? 'approved'}).`);
+    return {
+        ...controller,
+        dispose: () => {
+            controller.dispose();
+            if (window.midnight?.[controller.key] === controller.connector) delete window.midnight[controller.key];
+        },
+    };
+};
+
+// --- Env Flag ---
+// NEXT_PUBLIC_MIDNIGHT_MOCK_WALLET=<scenario> installs the mock on load, in any build
+export const getMockScenarioFromEnv = (): MockWalletScenario | null => {
+    const value = process.env.NEXT_PUBLIC_MIDNIGHT_MOCK_WALLET;
+    return isMockWalletScenario(value) ? value : null;
+};
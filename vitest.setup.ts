@@ -0,0 +1,18 @@
+import { afterEach, beforeEach, vi } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+beforeEach(() => {
+  // The provider and store log every step; keep test output readable
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  // Files marked `@vitest-environment node` have no DOM to reset
+  if (typeof window === "undefined") return;
+  cleanup();
+  delete window.midnight;
+  window.localStorage.clear();
+});